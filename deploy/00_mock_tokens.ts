@@ -0,0 +1,21 @@
+import { constants } from "ethers";
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { deployContract, isProduction } from "../scripts/deploy";
+
+/**
+ * Mock tokens and price feeds, eUSD gets its mint vault once the mint pool is deployed
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  await deployContract(hre, "LPToken", []);
+  await deployContract(hre, "LPOracle", []);
+  await deployContract(hre, "LBROracle", []);
+  await deployContract(hre, "stETHMock", []);
+  await deployContract(hre, "EUSDMock", [constants.AddressZero]);
+};
+
+func.tags = ["Mocks", "MockTokens"];
+func.skip = async (hre) => isProduction(hre);
+
+export default func;
@@ -0,0 +1,47 @@
+import { utils } from "ethers";
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { deployContract, ensure, isProduction } from "../scripts/deploy";
+
+// esLBR rewards of the stake pool and the eUSD mining incentive over their reward duration
+const REWARD_AMOUNT = utils.parseUnits("938", 18);
+
+/**
+ * Mock Lybra configurator, stETH mint pool, ETH-LBR stake pool and eUSD mining incentive, wired to each other
+ * with rewards started
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { get, read } = hre.deployments;
+  const stETH = (await get("stETHMock")).address;
+  const eUSD = (await get("EUSDMock")).address;
+
+  const configurator = await deployContract(hre, "LybraConfigurator", [eUSD]);
+  const mintPool = await deployContract(hre, "LybraMintPool", [stETH, eUSD, configurator]);
+  await ensure(hre, "EUSDMock", await read("EUSDMock", "mintVault"), mintPool, "setMintVault", [mintPool]);
+
+  await deployContract(hre, "StakePool", [(await get("LPToken")).address]);
+  // Rewards are only notified once, later notifications would extend the period
+  if ((await read("StakePool", "rewardRatio")).isZero()) {
+    await ensure(hre, "StakePool", 0, REWARD_AMOUNT, "notifyRewardAmount", [REWARD_AMOUNT]);
+  }
+
+  const mining = await deployContract(hre, "MiningIncentive", [
+    configurator,
+    (await get("LPOracle")).address,
+    (await get("LBROracle")).address,
+  ]);
+  const currentMining = await read("LybraConfigurator", "eUSDMiningIncentives");
+  await ensure(hre, "LybraConfigurator", currentMining, mining, "setMining", [mining]);
+  await ensure(hre, "MiningIncentive", await read("MiningIncentive", "vault"), mintPool, "setPool", [mintPool]);
+  // The mock starts with a default ratio but no reward period
+  if ((await read("MiningIncentive", "finishAt")).isZero()) {
+    await ensure(hre, "MiningIncentive", 0, REWARD_AMOUNT, "setRewardRatio", [REWARD_AMOUNT]);
+  }
+};
+
+func.tags = ["Mocks", "MockLybra"];
+func.dependencies = ["MockTokens"];
+func.skip = async (hre) => isProduction(hre);
+
+export default func;
@@ -0,0 +1,40 @@
+import { constants } from "ethers";
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { deployProxy, ensure, getAddressOf } from "../scripts/deploy";
+import { readStorageVariable } from "../scripts/storage";
+
+/**
+ * Match Pool linked to the ETH-LBR LP token, its oracle and Lybra's contracts, mocks or Lybra's own
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { read } = hre.deployments;
+  const lp = await getAddressOf(hre, "LPToken");
+  const lpOracle = await getAddressOf(hre, "LPOracle");
+  const stakePool = await getAddressOf(hre, "StakePool");
+  const configurator = await getAddressOf(hre, "LybraConfigurator");
+  const mintPool = await getAddressOf(hre, "LybraMintPool");
+
+  const pool = await deployProxy(hre, "MatchPool", []);
+  await ensure(hre, "MatchPool", await read("MatchPool", "ethlbrLpToken"), lp, "setLP", [lp]);
+  const currentOracle = await readStorageVariable(hre, "MatchPool", pool, "lpPriceFeed");
+  await ensure(hre, "MatchPool", currentOracle, lpOracle, "setLpOracle", [lpOracle]);
+  await ensure(
+    hre,
+    "MatchPool",
+    [await read("MatchPool", "ethlbrStakePool"), await read("MatchPool", "lybraConfigurator")].join(),
+    [stakePool, configurator].join(),
+    "setLybraContracts",
+    [stakePool, configurator],
+  );
+  // Mint pools can only be added, a different first one is reported by wiring:check
+  if ((await read("MatchPool", "getMintPool")) == constants.AddressZero) {
+    await ensure(hre, "MatchPool", constants.AddressZero, mintPool, "addMintPool", [mintPool]);
+  }
+};
+
+func.tags = ["MatchPool"];
+func.dependencies = ["MockLybra"];
+
+export default func;
@@ -0,0 +1,34 @@
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { deployProxy, ensure, getAddressOf } from "../scripts/deploy";
+
+/**
+ * Reward Manager of Match Pool, getting the stake pool's esLBR and the eUSD mining incentive's rewards
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { read } = hre.deployments;
+  const pool = await getAddressOf(hre, "MatchPool");
+  const stakePool = await getAddressOf(hre, "StakePool");
+  const mining = await getAddressOf(hre, "MiningIncentive");
+  const eUSD = await getAddressOf(hre, "eUSD", "EUSDMock");
+
+  const manager = await deployProxy(hre, "RewardManager", [pool]);
+  await ensure(hre, "RewardManager", await read("RewardManager", "dlpRewardPool"), stakePool, "setDlpRewardPool", [
+    stakePool,
+  ]);
+  await ensure(
+    hre,
+    "RewardManager",
+    [await read("RewardManager", "miningIncentive"), await read("RewardManager", "eUSD")].join(),
+    [mining, eUSD].join(),
+    "setMiningRewardPools",
+    [mining, eUSD],
+  );
+  await ensure(hre, "MatchPool", await read("MatchPool", "rewardManager"), manager, "setRewardManager", [manager]);
+};
+
+func.tags = ["RewardManager"];
+func.dependencies = ["MatchPool"];
+
+export default func;
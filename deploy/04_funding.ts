@@ -0,0 +1,44 @@
+import { BigNumber, utils } from "ethers";
+import type { DeployFunction } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { isProduction } from "../scripts/deploy";
+
+const LP_BALANCE = utils.parseUnits("1000", 18);
+const ALLOWANCE = utils.parseUnits("100000", 18);
+
+/**
+ * LP tokens and allowances of the deployer and the user account, as { deployMPFixture } gives admin and bob.
+ * The deployer got stETH and eUSD at the deployment of the mocks
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments } = hre;
+  const { execute, get, read } = deployments;
+  const { deployer, user } = await hre.getNamedAccounts();
+  const pool = (await get("MatchPool")).address;
+  const stakePool = (await get("StakePool")).address;
+
+  for (const account of [deployer, user]) {
+    const balance: BigNumber = await read("LPToken", "balanceOf", account);
+    if (balance.lt(LP_BALANCE)) {
+      await execute("LPToken", { from: deployer, log: true }, "mint", account, LP_BALANCE.sub(balance));
+    }
+  }
+
+  const approve = async (token: string, accounts: string[], spender: string) => {
+    for (const account of accounts) {
+      if ((await read(token, "allowance", account, spender)).gte(ALLOWANCE)) continue;
+      await execute(token, { from: account, log: true }, "approve", spender, ALLOWANCE);
+    }
+  };
+  await approve("LPToken", [deployer], stakePool);
+  await approve("LPToken", [deployer, user], pool);
+  await approve("stETHMock", [deployer], pool);
+  await approve("EUSDMock", [deployer, user], pool);
+};
+
+func.tags = ["Mocks", "Funding"];
+func.dependencies = ["RewardManager"];
+func.skip = async (hre) => isProduction(hre);
+
+export default func;
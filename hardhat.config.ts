@@ -1,29 +1,27 @@
-import "@nomicfoundation/hardhat-ethers";
-import "@nomicfoundation/hardhat-toolbox";
+import "@nomicfoundation/hardhat-chai-matchers";
+import "@nomicfoundation/hardhat-verify";
+import "@nomiclabs/hardhat-ethers";
 import "@openzeppelin/hardhat-upgrades";
+import "@typechain/hardhat";
 import { config as dotenvConfig } from "dotenv";
 import "hardhat-deploy";
+import "hardhat-gas-reporter";
 import type { HardhatUserConfig } from "hardhat/config";
 import type { NetworkUserConfig } from "hardhat/types";
 import { resolve } from "path";
+import "solidity-coverage";
 
 import "./tasks";
 
 const dotenvConfigPath: string = process.env.DOTENV_CONFIG_PATH || "./.env";
 dotenvConfig({ path: resolve(__dirname, dotenvConfigPath) });
 
-// Ensure that we have all the environment variables we need.
+// None of these are required: local networks run without secrets and remote ones are left out until their
+// credentials are set. Tasks sign with the KEYSTORE account when set, PRIVATE_KEY being the explicit fallback
 const mnemonic: string | undefined = process.env.MNEMONIC;
 const privateKey: string | undefined = process.env.PRIVATE_KEY;
-
-if (!privateKey) {
-  throw new Error("Please set your PRIVATE_KEY in a .env file");
-}
-
+const keystore: string | undefined = process.env.KEYSTORE;
 const infuraApiKey: string | undefined = process.env.INFURA_API_KEY;
-if (!infuraApiKey) {
-  throw new Error("Please set your INFURA_API_KEY in a .env file");
-}
 
 const chainIds = {
   "arbitrum-mainnet": 42161,
@@ -38,7 +36,7 @@ const chainIds = {
   sepolia: 11155111,
 };
 
-function getChainConfig(chain: keyof typeof chainIds): NetworkUserConfig {
+function getChainConfig(chain: keyof typeof chainIds): NetworkUserConfig | undefined {
   let jsonRpcUrl: string;
   switch (chain) {
     case "avalanche":
@@ -48,19 +46,36 @@ function getChainConfig(chain: keyof typeof chainIds): NetworkUserConfig {
       jsonRpcUrl = "https://bsc-dataseed1.binance.org";
       break;
     default:
+      if (!infuraApiKey) return undefined;
       jsonRpcUrl = "https://" + chain + ".infura.io/v3/" + infuraApiKey;
   }
   return {
-    accounts: [`${privateKey}`],
+    accounts: privateKey && !keystore ? [privateKey] : [],
     chainId: chainIds[chain],
     url: jsonRpcUrl,
   };
 }
 
+const remoteNetworks: Record<string, NetworkUserConfig> = {};
+for (const [name, chain] of Object.entries({
+  arbitrum: "arbitrum-mainnet",
+  avalanche: "avalanche",
+  bsc: "bsc",
+  mainnet: "mainnet",
+  optimism: "optimism-mainnet",
+  "polygon-mainnet": "polygon-mainnet",
+  "polygon-mumbai": "polygon-mumbai",
+  sepolia: "sepolia",
+} as const)) {
+  const chainConfig = getChainConfig(chain);
+  if (chainConfig) remoteNetworks[name] = chainConfig;
+}
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   namedAccounts: {
     deployer: 0,
+    user: 1,
   },
   etherscan: {
     apiKey: {
@@ -82,26 +97,16 @@ const config: HardhatUserConfig = {
   },
   networks: {
     hardhat: {
-      accounts: {
-        mnemonic,
-      },
+      // Default test accounts without a mnemonic
+      ...(mnemonic && { accounts: { mnemonic } }),
       chainId: chainIds.hardhat,
     },
     ganache: {
-      accounts: {
-        mnemonic,
-      },
+      ...(mnemonic && { accounts: { mnemonic } }),
       chainId: chainIds.ganache,
       url: "http://localhost:8545",
     },
-    arbitrum: getChainConfig("arbitrum-mainnet"),
-    avalanche: getChainConfig("avalanche"),
-    bsc: getChainConfig("bsc"),
-    mainnet: getChainConfig("mainnet"),
-    optimism: getChainConfig("optimism-mainnet"),
-    "polygon-mainnet": getChainConfig("polygon-mainnet"),
-    "polygon-mumbai": getChainConfig("polygon-mumbai"),
-    sepolia: getChainConfig("sepolia"),
+    ...remoteNetworks,
   },
   paths: {
     artifacts: "./artifacts",
@@ -127,7 +132,7 @@ const config: HardhatUserConfig = {
   },
   typechain: {
     outDir: "types",
-    target: "ethers-v6",
+    target: "ethers-v5",
   },
 };
 
@@ -0,0 +1,308 @@
+import { BigNumber, Contract, constants } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { getBorrowers } from "./liquidation";
+import { RATIO_PRECISION } from "./position";
+import { readStorageVariable } from "./storage";
+
+/**
+ * Yields of Match Pool users from the reward rates of Lybra's pools: esLBR emitted by the ETH-LBR
+ * stake pool to dLP stakers, esLBR of the eUSD mining incentive split by Reward Manager between dLP stakers,
+ * stETH suppliers and the treasury, and the eUSD rebase of idle eUSD going to suppliers who don't borrow
+ */
+
+const STAKE_POOL_ABI = [
+  "function rewardRatio() view returns (uint256)",
+  "function finishAt() view returns (uint256)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address) view returns (uint256)",
+  "function getBoost(address) view returns (uint256)",
+];
+const MINING_ABI = [
+  "function rewardRatio() view returns (uint256)",
+  "function finishAt() view returns (uint256)",
+  "function totalStaked() view returns (uint256)",
+  "function stakedOf(address) view returns (uint256)",
+  "function getBoost(address) view returns (uint256)",
+];
+const REWARD_MANAGER_ABI = [
+  "function dlpRewardPool() view returns (address)",
+  "function miningIncentive() view returns (address)",
+  "function rewardPerToken(address) view returns (uint256)",
+];
+const ORACLE_ABI = ["function latestRoundData() view returns (uint80, int256, uint256, uint256, uint80)"];
+const MINT_POOL_ABI = ["function getAssetPrice() returns (uint256)"];
+const MATCH_POOL_ABI = ["function claimRebase() returns (uint256)"];
+
+const YEAR = 365 * 24 * 3600;
+
+export interface Emission {
+  // Reward of Match Pool per second, its share of the pool's total
+  perSecond: BigNumber;
+  finishAt: number;
+}
+
+export interface Yield {
+  // Reward per year, esLBR for emissions and eUSD for rebase
+  amount: BigNumber;
+  // Out of { RATIO_PRECISION }, i.e. 1e20 -> 100%
+  apr: BigNumber;
+}
+
+export interface YieldBreakdown {
+  dlp: { stakePool: Yield; mining: Yield; total: BigNumber };
+  // Rebase APR of a supplier without any borrow, the others' rebase goes to the treasury
+  lsd: { mining: Yield; rebase: Yield; total: BigNumber };
+  // Rewards per year kept by the treasury, esLBR and eUSD
+  treasury: { mining: BigNumber; rebase: BigNumber };
+}
+
+export interface RewardCheck {
+  // Reward per year of one dLP or stETH of Match Pool, 1e18 -> 1 esLBR, from the current rates
+  expected: BigNumber;
+  // Growth per year of Reward Manager's reward per token over the measured window
+  observed?: BigNumber;
+}
+
+export interface AprOptions {
+  // Price feed of LBR, 8 decimals
+  lbrOracle: string;
+  // Seconds to project emissions over
+  horizon: number;
+  // Blocks to measure the eUSD rebase and Reward Manager's reward per token over
+  rebaseWindow: number;
+  // Block to look for borrowers from
+  fromBlock?: number;
+}
+
+export interface AprReport {
+  timestamp: number;
+  // Seconds the projection averages emissions over, up to the end of each reward period
+  horizon: number;
+  // In USD, 18 decimals
+  prices: { lbr: BigNumber; lp: BigNumber; stETH: BigNumber };
+  staked: BigNumber;
+  supplied: BigNumber;
+  emissions: { stakePool: Emission; mining: Emission };
+  shares: { treasury: number; staker: number };
+  // eUSD rebase claimable by Reward Manager now, and its growth per year over the measured window
+  pendingRebase: BigNumber;
+  rebasePerYear?: BigNumber;
+  current: YieldBreakdown;
+  projected: YieldBreakdown;
+  rewardPerToken: { dlp: RewardCheck; lsd: RewardCheck };
+}
+
+/**
+ * @return Reward per year of { emission }, at its current rate or averaged over { horizon } seconds from { now }
+ */
+export const annualize = (emission: Emission, now: number, horizon?: number) => {
+  const remaining = Math.max(emission.finishAt - now, 0);
+  if (!horizon) return remaining > 0 ? emission.perSecond.mul(YEAR) : constants.Zero;
+  return emission.perSecond.mul(Math.min(remaining, horizon)).mul(YEAR).div(horizon);
+};
+
+/**
+ * @return Match Pool's share of { rewardRatio } per second, boosted by { boost } out of { RATIO_PRECISION }
+ */
+export const getRewardRate = (rewardRatio: BigNumber, share: BigNumber, total: BigNumber, boost: BigNumber) => {
+  if (total.isZero()) return constants.Zero;
+  return rewardRatio.mul(share).div(total).mul(boost).div(RATIO_PRECISION);
+};
+
+/**
+ * @return { yearly } reward of { price } over { deposits } worth, out of { RATIO_PRECISION }
+ */
+export const getApr = (yearly: BigNumber, price: BigNumber, deposits: BigNumber) => {
+  if (deposits.isZero()) return constants.Zero;
+  return yearly.mul(price).mul(RATIO_PRECISION).div(constants.WeiPerEther).div(deposits);
+};
+
+/**
+ * @return eUSD rebase Reward Manager would claim, now and { window } blocks ago
+ *  when the node still serves that state, annualized from the difference
+ */
+export const measureRebase = async (matchPool: Contract, manager: string, window: number) => {
+  const { provider } = matchPool;
+  const pool = new Contract(matchPool.address, MATCH_POOL_ABI, provider);
+  const latest = await provider.getBlock("latest");
+  const pending: BigNumber = await pool.callStatic.claimRebase({ from: manager, blockTag: latest.number });
+  if (window <= 0 || latest.number <= window) return { pending };
+
+  try {
+    const past = await provider.getBlock(latest.number - window);
+    const before: BigNumber = await pool.callStatic.claimRebase({ from: manager, blockTag: past.number });
+    // Claimed in between, rebase until the claim is unknown
+    if (pending.lt(before) || latest.timestamp == past.timestamp) return { pending };
+    return {
+      pending,
+      perYear: pending
+        .sub(before)
+        .mul(YEAR)
+        .div(latest.timestamp - past.timestamp),
+    };
+  } catch (e) {
+    // Pruned state or Match Pool not deployed yet
+    return { pending };
+  }
+};
+
+/**
+ * @return Reward Manager's reward per token of { pools }, annualized from its growth over { window } blocks
+ *  when the node still serves that state
+ */
+export const measureRewardPerToken = async (manager: Contract, pools: string[], window: number) => {
+  const { provider } = manager;
+  const latest = await provider.getBlock("latest");
+  if (window <= 0 || latest.number <= window) return [];
+
+  try {
+    const past = await provider.getBlock(latest.number - window);
+    if (latest.timestamp == past.timestamp) return [];
+    const perYear: BigNumber[] = [];
+    for (const pool of pools) {
+      const now: BigNumber = await manager.rewardPerToken(pool, { blockTag: latest.number });
+      const before: BigNumber = await manager.rewardPerToken(pool, { blockTag: past.number });
+      perYear.push(
+        now
+          .sub(before)
+          .mul(YEAR)
+          .div(latest.timestamp - past.timestamp),
+      );
+    }
+    return perYear;
+  } catch (e) {
+    // Pruned state or Reward Manager not deployed yet
+    return [];
+  }
+};
+
+const getBreakdown = (
+  report: Omit<AprReport, "current" | "projected" | "rewardPerToken">,
+  suppliedByBorrowers: BigNumber,
+  horizon?: number,
+): YieldBreakdown => {
+  const { timestamp, prices, emissions, shares } = report;
+  const stakedValue = report.staked.mul(prices.lp).div(constants.WeiPerEther);
+  const suppliedValue = report.supplied.mul(prices.stETH).div(constants.WeiPerEther);
+
+  const stakePool = annualize(emissions.stakePool, timestamp, horizon);
+  const mining = annualize(emissions.mining, timestamp, horizon);
+  const toStakers = mining.mul(shares.staker).div(100);
+  const toTreasury = mining.mul(shares.treasury).div(100);
+  const toSuppliers = mining.sub(toStakers).sub(toTreasury);
+
+  const rebase = report.rebasePerYear ?? constants.Zero;
+  const rebaseToTreasury = report.supplied.isZero()
+    ? constants.Zero
+    : rebase.mul(suppliedByBorrowers).div(report.supplied);
+
+  const dlp = {
+    stakePool: { amount: stakePool, apr: getApr(stakePool, prices.lbr, stakedValue) },
+    mining: { amount: toStakers, apr: getApr(toStakers, prices.lbr, stakedValue) },
+  };
+  const lsd = {
+    mining: { amount: toSuppliers, apr: getApr(toSuppliers, prices.lbr, suppliedValue) },
+    // eUSD counted at 1 USD
+    rebase: { amount: rebase.sub(rebaseToTreasury), apr: getApr(rebase, constants.WeiPerEther, suppliedValue) },
+  };
+
+  return {
+    dlp: { ...dlp, total: dlp.stakePool.apr.add(dlp.mining.apr) },
+    lsd: { ...lsd, total: lsd.mining.apr.add(lsd.rebase.apr) },
+    treasury: { mining: toTreasury, rebase: rebaseToTreasury },
+  };
+};
+
+/**
+ * @notice Current APRs use the reward rates as they are now, projected ones average them over
+ *  { horizon } seconds, dropping to 0 past the end of each reward period
+ */
+export const getAprReport = async (
+  hre: HardhatRuntimeEnvironment,
+  matchPool: Contract,
+  options: AprOptions,
+): Promise<AprReport> => {
+  const { lbrOracle, horizon, rebaseWindow } = options;
+  const { provider } = matchPool;
+  const vault: string = await matchPool.getMintPool();
+  const manager = new Contract(await matchPool.rewardManager(), REWARD_MANAGER_ABI, provider);
+  const dlpRewardPool: string = await manager.dlpRewardPool();
+  const stakePool = new Contract(await matchPool.ethlbrStakePool(), STAKE_POOL_ABI, provider);
+  const mining = new Contract(await manager.miningIncentive(), MINING_ABI, provider);
+  const { timestamp } = await provider.getBlock("latest");
+
+  // Match Pool earns its share of each pool's reward rate, times its esLBR boost
+  const stakePoolRate = getRewardRate(
+    await stakePool.rewardRatio(),
+    await stakePool.balanceOf(matchPool.address),
+    await stakePool.totalSupply(),
+    await stakePool.getBoost(matchPool.address),
+  );
+  const miningRate = getRewardRate(
+    await mining.rewardRatio(),
+    await mining.stakedOf(matchPool.address),
+    await mining.totalStaked(),
+    await mining.getBoost(matchPool.address),
+  );
+
+  const [, lbrAnswer] = await new Contract(lbrOracle, ORACLE_ABI, provider).latestRoundData();
+  const prices = {
+    lbr: BigNumber.from(lbrAnswer).mul(1e10),
+    lp: await matchPool.getLpValue(constants.WeiPerEther),
+    stETH: await new Contract(vault, MINT_POOL_ABI, provider).callStatic.getAssetPrice(),
+  };
+
+  const supplied: BigNumber = await matchPool.totalSupplied(vault);
+  let suppliedByBorrowers = constants.Zero;
+  for (const account of await getBorrowers(matchPool, options.fromBlock)) {
+    const { principal } = await matchPool.borrowed(vault, account);
+    if (!principal.isZero()) suppliedByBorrowers = suppliedByBorrowers.add(await matchPool.supplied(vault, account));
+  }
+  const rebase = await measureRebase(matchPool, manager.address, rebaseWindow);
+
+  const report = {
+    timestamp,
+    horizon,
+    prices,
+    staked: await matchPool.totalStaked(),
+    supplied,
+    emissions: {
+      stakePool: { perSecond: stakePoolRate, finishAt: (await stakePool.finishAt()).toNumber() },
+      mining: { perSecond: miningRate, finishAt: (await mining.finishAt()).toNumber() },
+    },
+    shares: {
+      treasury: (
+        (await readStorageVariable(hre, "RewardManager", manager.address, "treasuryShare")) as BigNumber
+      ).toNumber(),
+      staker: (
+        (await readStorageVariable(hre, "RewardManager", manager.address, "stakerShare")) as BigNumber
+      ).toNumber(),
+    },
+    pendingRebase: rebase.pending,
+    rebasePerYear: rebase.perYear,
+  };
+
+  const current = getBreakdown(report, suppliedByBorrowers);
+  const perToken = (yearly: BigNumber, total: BigNumber) =>
+    total.isZero() ? constants.Zero : yearly.mul(constants.WeiPerEther).div(total);
+  // What Reward Manager actually accrued, to compare the current rates with
+  const [dlpObserved, lsdObserved] = await measureRewardPerToken(
+    manager,
+    [dlpRewardPool, mining.address],
+    rebaseWindow,
+  );
+
+  return {
+    ...report,
+    current,
+    projected: getBreakdown(report, suppliedByBorrowers, horizon),
+    rewardPerToken: {
+      dlp: {
+        expected: perToken(current.dlp.stakePool.amount.add(current.dlp.mining.amount), report.staked),
+        observed: dlpObserved,
+      },
+      lsd: { expected: perToken(current.lsd.mining.amount, supplied), observed: lsdObserved },
+    },
+  };
+};
@@ -0,0 +1,188 @@
+import { BigNumber, Contract, constants, utils } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { DEFAULT_BATCH_SIZE, queryFilterInBatches } from "./indexer";
+import { readStorageVariable } from "./storage";
+
+/**
+ * Reconciliation of Match Pool accounting with the balances it stands for. stETH and eUSD rebase
+ * grows balances, share-based transfers of both round them down by a wei or so, and Lybra keeps
+ * 0.1% of monitor withdrawals within 3 days of a deposit. User withdrawals pass that punishment on,
+ * so only monitor withdrawals leave idle stETH short. Any other difference is drift
+ */
+
+const MINT_POOL_ABI = [
+  "function depositedAsset(address) view returns (uint256)",
+  "function getBorrowedOf(address) view returns (uint256)",
+  "function getAsset() view returns (address)",
+  "event WithdrawAsset(address indexed sponsor, address asset, address indexed onBehalfOf, uint256 amount, uint256 timestamp)",
+];
+const CONFIGURATOR_ABI = ["function getEUSDAddress() view returns (address)"];
+const ERC20_ABI = ["function balanceOf(address) view returns (uint256)"];
+const MATCH_POOL_ABI = [
+  "function monitorWithdraw(uint256 _amount)",
+  "event stETHWithdrew(address indexed account, uint256 amount, uint256 punishment)",
+];
+
+// Rounding accepted per check, in wei
+export const DEFAULT_DUST = BigNumber.from(10).pow(6);
+
+export type Cause = "rebase" | "rounding" | "punishment" | "drift";
+
+export interface Reconciliation {
+  name: string;
+  // Accounting of Match Pool or Reward Manager
+  recorded: BigNumber;
+  // Balance held, or Lybra's record of Match Pool
+  actual: BigNumber;
+  // { actual } - { recorded }, the sum of what each cause explains
+  difference: BigNumber;
+  causes: Record<Cause, BigNumber>;
+}
+
+export interface AuditOptions {
+  // Block to look for monitor withdrawals from
+  fromBlock?: number;
+  // Blocks per log request when looking for them
+  batchSize?: number;
+  dust?: BigNumber;
+}
+
+export interface AuditReport {
+  blockNumber: number;
+  mintPool: string;
+  checks: Reconciliation[];
+  // Monitor withdrawals whose requested amount could not be read, e.g. sent through a multisig
+  unknownWithdrawals: string[];
+}
+
+/**
+ * @notice Splits { difference } into { punishment } taken out of it, rebase for what is left above zero
+ *  and rounding for up to { dust } below, the rest being drift
+ * @param rebasing Whether the balance is of a rebasing token transferred by shares
+ */
+export const explainDifference = (
+  difference: BigNumber,
+  rebasing: boolean,
+  dust: BigNumber,
+  punishment = constants.Zero,
+): Record<Cause, BigNumber> => {
+  const causes = {
+    rebase: constants.Zero,
+    rounding: constants.Zero,
+    punishment: punishment.mul(-1),
+    drift: constants.Zero,
+  };
+  const remaining = difference.add(punishment);
+
+  if (rebasing && remaining.gt(0)) causes.rebase = remaining;
+  else if (rebasing && remaining.lt(0) && remaining.abs().lte(dust)) causes.rounding = remaining;
+  else causes.drift = remaining;
+
+  return causes;
+};
+
+export const getDrift = (report: AuditReport) =>
+  report.checks.reduce((total, check) => total.add(check.causes.drift.abs()), constants.Zero);
+
+/**
+ * @return stETH kept by Lybra out of monitor withdrawals from { fromBlock } to { toBlock },
+ *  looked for { batchSize } blocks at a time
+ */
+export const getMonitorPunishment = async (
+  matchPool: Contract,
+  mintPool: Contract,
+  fromBlock = 0,
+  toBlock?: number,
+  batchSize = DEFAULT_BATCH_SIZE,
+) => {
+  const match = new utils.Interface(MATCH_POOL_ABI);
+  const withdrawals = await queryFilterInBatches(
+    mintPool,
+    mintPool.filters.WithdrawAsset(matchPool.address, null, matchPool.address),
+    fromBlock,
+    toBlock,
+    batchSize,
+  );
+
+  let punishment = constants.Zero;
+  const unknown: string[] = [];
+  for (const withdrawal of withdrawals) {
+    const receipt = await withdrawal.getTransactionReceipt();
+    const byUser = receipt.logs.some((log) => {
+      if (log.address.toLowerCase() != matchPool.address.toLowerCase()) return false;
+      return log.topics[0] == match.getEventTopic("stETHWithdrew");
+    });
+    if (byUser) continue;
+
+    const transaction = await withdrawal.getTransaction();
+    try {
+      if (transaction.to?.toLowerCase() != matchPool.address.toLowerCase()) throw new Error("Not a direct call");
+      const { args } = match.parseTransaction(transaction);
+      punishment = punishment.add(args._amount.sub(withdrawal.args?.amount));
+    } catch (e) {
+      unknown.push(withdrawal.transactionHash);
+    }
+  }
+
+  return { punishment, unknown };
+};
+
+/**
+ * @notice Every balance and record is read at the same block, so that none moves in between
+ */
+export const reconcile = async (
+  hre: HardhatRuntimeEnvironment,
+  matchPool: Contract,
+  options: AuditOptions = {},
+): Promise<AuditReport> => {
+  const { provider } = matchPool;
+  const dust = options.dust ?? DEFAULT_DUST;
+  const address = matchPool.address;
+  // getBlockNumber() never goes back, not even after reverting to a snapshot on Hardhat Network
+  const { number: blockNumber } = await provider.getBlock("latest");
+  const at = { blockTag: blockNumber };
+
+  const vault: string = await matchPool.getMintPool(at);
+  const mintPool = new Contract(vault, MINT_POOL_ABI, provider);
+  const configurator = new Contract(await matchPool.lybraConfigurator(at), CONFIGURATOR_ABI, provider);
+  const stETH = new Contract(await mintPool.getAsset(at), ERC20_ABI, provider);
+  const eUSD = new Contract(await configurator.getEUSDAddress(at), ERC20_ABI, provider);
+  const stakePool = new Contract(await matchPool.ethlbrStakePool(at), ERC20_ABI, provider);
+  const manager: string = await matchPool.rewardManager(at);
+
+  const [totalStaked, totalSupplied, totalDeposited, totalMinted, totalBorrowed]: BigNumber[] = await Promise.all([
+    matchPool.totalStaked(at),
+    matchPool.totalSupplied(vault, at),
+    matchPool.totalDeposited(vault, at),
+    matchPool.totalMinted(vault, at),
+    matchPool.totalBorrowed(vault, at),
+  ]);
+  const totalEUSD = (await readStorageVariable(hre, "RewardManager", manager, "totalEUSD", blockNumber)) as BigNumber;
+  const { punishment, unknown } = await getMonitorPunishment(
+    matchPool,
+    mintPool,
+    options.fromBlock,
+    blockNumber,
+    options.batchSize,
+  );
+
+  const check = (name: string, recorded: BigNumber, actual: BigNumber, rebasing: boolean, punished?: BigNumber) => {
+    const difference = actual.sub(recorded);
+    return { name, recorded, actual, difference, causes: explainDifference(difference, rebasing, dust, punished) };
+  };
+
+  return {
+    blockNumber,
+    mintPool: vault,
+    checks: [
+      check("idle stETH", totalSupplied.sub(totalDeposited), await stETH.balanceOf(address, at), true, punishment),
+      check("stETH deposited to Lybra", totalDeposited, await mintPool.depositedAsset(address, at), false),
+      check("eUSD minted from Lybra", totalMinted, await mintPool.getBorrowedOf(address, at), false),
+      check("LP staked", totalStaked, await stakePool.balanceOf(address, at), false),
+      check("idle eUSD", totalMinted.sub(totalBorrowed), await eUSD.balanceOf(address, at), true),
+      check("eUSD rebase in Reward Manager", totalEUSD, await eUSD.balanceOf(manager, at), true),
+    ],
+    unknownWithdrawals: unknown,
+  };
+};
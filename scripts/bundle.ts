@@ -0,0 +1,209 @@
+import { utils } from "ethers";
+import * as fs from "fs";
+import type { Artifact, HardhatRuntimeEnvironment } from "hardhat/types";
+import * as path from "path";
+
+import { REGISTRY_FILE, readRegistry } from "./registry";
+
+/**
+ * Contract bundle of a network for the dapp and bots: addresses of the registry with the ABIs of the
+ * artifacts, the typechain types, event topics and custom error selectors, written as JSON and as
+ * a TypeScript module. Networks deploying the mocks get their full ABIs, networks using Lybra's own
+ * contracts the interfaces Match Pool calls them through
+ */
+
+export const BUNDLE_DIR = path.join("build", "abi");
+
+const IERC20 = "@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20";
+
+export interface BundleSource {
+  // Registry names, the mock's first
+  names: string[];
+  mock: string[];
+  production: string[];
+}
+
+// Keyed by the name the bundle exposes, the same on every network
+export const BUNDLE_SOURCES: Record<string, BundleSource> = {
+  MatchPool: { names: ["MatchPool"], mock: ["MatchPool"], production: ["MatchPool"] },
+  RewardManager: { names: ["RewardManager"], mock: ["RewardManager"], production: ["RewardManager"] },
+  LybraMintPool: { names: ["LybraMintPool"], mock: ["LybraMintPool"], production: ["IMintPool"] },
+  LybraConfigurator: { names: ["LybraConfigurator"], mock: ["LybraConfigurator"], production: ["IConfigurator"] },
+  StakePool: { names: ["StakePool"], mock: ["StakePool"], production: ["IStakePool", "IRewardPool"] },
+  MiningIncentive: { names: ["MiningIncentive"], mock: ["MiningIncentive"], production: ["IMining", "IRewardPool"] },
+  eUSD: { names: ["EUSDMock", "eUSD"], mock: ["EUSDMock"], production: ["IEUSD"] },
+  stETH: { names: ["stETHMock", "stETH"], mock: ["stETHMock"], production: [IERC20, "ILido"] },
+  LPToken: { names: ["LPToken"], mock: ["LPToken"], production: [IERC20] },
+  LPOracle: {
+    names: ["LPOracle"],
+    mock: ["LPOracle"],
+    production: ["@chainlink/contracts/src/v0.8/interfaces/AggregatorV3Interface.sol:AggregatorV3Interface"],
+  },
+};
+
+export interface EventSignature {
+  name: string;
+  signature: string;
+  topic: string;
+}
+
+export interface ErrorSignature {
+  name: string;
+  signature: string;
+  selector: string;
+}
+
+export interface BundledContract {
+  address: string;
+  // Upgradeable contracts only
+  implementation?: string;
+  // Fully qualified names of the artifacts { abi } is made of
+  artifacts: string[];
+  // Typechain types of { artifacts }, in { types/ } of the bundle
+  types: string[];
+  abi: Artifact["abi"];
+  events: EventSignature[];
+  errors: ErrorSignature[];
+}
+
+export interface ContractBundle {
+  network: string;
+  chainId: number;
+  // Package version and a hash of the content, changing with any address or ABI
+  version: string;
+  hash: string;
+  generatedAt: string;
+  contracts: Record<string, BundledContract>;
+  // Custom errors of all contracts, one entry per selector, to decode reverts bubbling up
+  errors: ErrorSignature[];
+}
+
+// Typechain names types after the contract, capitalized
+const getTypeName = (contractName: string) => contractName.charAt(0).toUpperCase() + contractName.slice(1);
+
+/**
+ * @return Path of the typechain file of { sourceName }:{ contractName } in { typesDir }, nested in a
+ *  directory named after the source file when the contract is not the only one named after it
+ */
+export const getTypeFile = (typesDir: string, sourceName: string, contractName: string) => {
+  const file = `${getTypeName(contractName)}.ts`;
+  const candidates = [path.join(path.dirname(sourceName), file), path.join(sourceName, file)];
+  return candidates.find((candidate) => fs.existsSync(path.join(typesDir, candidate)));
+};
+
+const mergeAbis = (abis: Artifact["abi"][]) => {
+  const fragments = new Map<string, Artifact["abi"][number]>();
+  for (const abi of abis) {
+    for (const fragment of abi) {
+      const key = utils.Fragment.from(fragment).format(utils.FormatTypes.full);
+      if (!fragments.has(key)) fragments.set(key, fragment);
+    }
+  }
+  return [...fragments.values()];
+};
+
+export const getEventSignatures = (contractInterface: utils.Interface): EventSignature[] =>
+  Object.values(contractInterface.events).map((fragment) => ({
+    name: fragment.name,
+    signature: fragment.format(),
+    topic: contractInterface.getEventTopic(fragment),
+  }));
+
+export const getErrorSignatures = (contractInterface: utils.Interface): ErrorSignature[] =>
+  Object.values(contractInterface.errors).map((fragment) => ({
+    name: fragment.name,
+    signature: fragment.format(),
+    selector: contractInterface.getSighash(fragment),
+  }));
+
+export const buildBundle = async (
+  hre: HardhatRuntimeEnvironment,
+  network: string,
+  file = REGISTRY_FILE,
+): Promise<ContractBundle> => {
+  const deployments = readRegistry(file)[network];
+  if (!deployments) throw new Error(`No contracts recorded on ${network}`);
+  const isMock = !!deployments.contracts.EUSDMock;
+  const typesDir = path.join(hre.config.paths.root, hre.config.typechain.outDir);
+
+  const contracts: Record<string, BundledContract> = {};
+  const errors = new Map<string, ErrorSignature>();
+  for (const [key, source] of Object.entries(BUNDLE_SOURCES)) {
+    const deployment = source.names.map((name) => deployments.contracts[name]).find((entry) => entry);
+    if (!deployment) continue;
+
+    const artifacts = await Promise.all(
+      (isMock ? source.mock : source.production).map((name) => hre.artifacts.readArtifact(name)),
+    );
+    const abi = mergeAbis(artifacts.map((artifact) => artifact.abi));
+    const contractInterface = new utils.Interface(abi);
+    const contractErrors = getErrorSignatures(contractInterface);
+    for (const error of contractErrors) errors.set(error.selector, error);
+
+    contracts[key] = {
+      address: deployment.address,
+      implementation: deployment.implementation,
+      artifacts: artifacts.map((artifact) => `${artifact.sourceName}:${artifact.contractName}`),
+      types: artifacts
+        .map((artifact) => getTypeFile(typesDir, artifact.sourceName, artifact.contractName))
+        .filter((type): type is string => !!type),
+      abi,
+      events: getEventSignatures(contractInterface),
+      errors: contractErrors,
+    };
+  }
+
+  const hash = utils.id(JSON.stringify({ chainId: deployments.chainId, contracts })).slice(2, 14);
+  const { version } = JSON.parse(fs.readFileSync(path.join(hre.config.paths.root, "package.json"), "utf-8"));
+  return {
+    network,
+    chainId: deployments.chainId,
+    version: `${version}+${hash}`,
+    hash,
+    generatedAt: new Date().toISOString(),
+    contracts,
+    errors: [...errors.values()],
+  };
+};
+
+/**
+ * @notice Writes { bundle } to { dir }/<network>: bundle.json, index.ts exporting it with its ABIs typed
+ *  as constants, and the typechain files it refers to
+ * @return Files written
+ */
+export const writeBundle = (hre: HardhatRuntimeEnvironment, bundle: ContractBundle, dir = BUNDLE_DIR) => {
+  const outDir = path.join(dir, bundle.network);
+  const typesDir = path.join(hre.config.paths.root, hre.config.typechain.outDir);
+  fs.rmSync(outDir, { recursive: true, force: true });
+  fs.mkdirSync(outDir, { recursive: true });
+
+  const files = [path.join(outDir, "bundle.json")];
+  fs.writeFileSync(files[0], JSON.stringify(bundle, null, "\t"));
+
+  // Typechain files import their helpers from common.ts at the root of the types
+  const types = new Set(Object.values(bundle.contracts).flatMap((contract) => contract.types));
+  for (const type of [...types, "common.ts"]) {
+    const target = path.join(outDir, "types", type);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.copyFileSync(path.join(typesDir, type), target);
+    files.push(target);
+  }
+
+  const exports = [...types].map((type) => {
+    const name = path.basename(type, ".ts");
+    return `export type { ${name} } from "./types/${type.replace(/\.ts$/, "").split(path.sep).join("/")}";`;
+  });
+  const index = path.join(outDir, "index.ts");
+  fs.writeFileSync(
+    index,
+    [
+      `/* Generated by export:abi from the registry and artifacts, do not edit */`,
+      `export const bundle = ${JSON.stringify(bundle, null, 2)} as const;`,
+      "",
+      ...exports,
+      "",
+    ].join("\n"),
+  );
+  files.push(index);
+  return files;
+};
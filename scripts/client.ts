@@ -0,0 +1,421 @@
+import { BigNumber, Contract, ContractTransaction, Signer, constants, utils } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { EUSDMock, LPToken, LybraMintPool, MatchPool, RewardManager, StETHMock } from "../types";
+import { contractError, formatError, loadErrorInterface, simulate, toContractError } from "./errors";
+import { loadModelConfig, loadModelState, supply, withdrawStETH } from "./model";
+import { RATIO_PRECISION, getGlobalBorrowRatio, getPosition } from "./position";
+import { readStorageVariable } from "./storage";
+
+/**
+ * Typed client of Match Pool for one signer. Every action approves what it spends when needed
+ * and runs the checks MatchPool.sol reverts on before sending, so a transaction that would revert
+ * with e.g. { StakePaused } or { ExceedAmountAllowed } fails here without spending gas, decoded as in errors.ts
+ */
+
+// Raw amount, or a decimal string in units of the token, e.g. "1.5" stETH
+export type Amount = BigNumber | string;
+
+export type RewardPool = "dlp" | "lsd" | "all";
+
+export interface Token {
+  contract: LPToken | StETHMock | EUSDMock;
+  symbol: string;
+  decimals: number;
+}
+
+// Amounts in units of their token, ratios in percents
+export interface PositionView {
+  account: string;
+  staked: string;
+  supplied: string;
+  borrowed: string;
+  // Accrued and pending interest on top of { borrowed }
+  interest: string;
+  withdrawable: string;
+  maxBorrow: string;
+  borrowCapacity: string;
+  liquidationThreshold: string;
+  distanceToLiquidation: string;
+  underwater: boolean;
+  // By the account of the client
+  liquidatable: boolean;
+  // null without any borrow
+  collateralRatio: string | null;
+  rewards: {
+    dlp: string;
+    lsd: string;
+  };
+}
+
+// Amounts in units of their token, ratios in percents and limits in USD
+export interface PoolView {
+  address: string;
+  mintPool: string;
+  price: string;
+  totalStaked: string;
+  // null when not limited
+  stakeLimit: string | null;
+  totalSupplied: string;
+  supplyLimit: string | null;
+  totalDeposited: string;
+  totalMinted: string;
+  // Minted eUSD not lent out yet
+  available: string;
+  totalBorrowed: string;
+  globalBorrowRatio: string;
+  borrowRatePerYear: string;
+  stakePaused: boolean;
+  withdrawPaused: boolean;
+  borrowPaused: boolean;
+}
+
+const YEAR = 365 * 24 * 3600;
+
+// Same errors as the contract would revert with, as decoded by { toContractError }
+const preflightError = (errorName: string, message: string) => contractError(errorName, [], `${errorName}: ${message}`);
+
+const exceedAmountError = (method: string, desired: BigNumber, actual: BigNumber) =>
+  contractError(
+    "ExceedAmountAllowed",
+    [desired, actual],
+    formatError("ExceedAmountAllowed", [desired, actual], method),
+  );
+
+const percent = (ratio: BigNumber) => utils.formatUnits(ratio, 18);
+
+export class MatchClient {
+  private constructor(
+    readonly hre: HardhatRuntimeEnvironment,
+    readonly pool: MatchPool,
+    readonly manager: RewardManager,
+    readonly mintPool: LybraMintPool,
+    readonly lp: Token,
+    readonly stETH: Token,
+    readonly eUSD: Token,
+    readonly signer: Signer,
+    readonly account: string,
+    readonly errors: utils.Interface,
+  ) {}
+
+  /**
+   * @notice Loads Match Pool at { address } and the contracts around it, all connected to { signer }
+   */
+  static async connect(hre: HardhatRuntimeEnvironment, address: string, signer: Signer) {
+    const { ethers } = hre;
+    const pool = await ethers.getContractAt("MatchPool", address, signer);
+    const mintPool = await ethers.getContractAt("LybraMintPool", await pool.getMintPool(), signer);
+    const configurator = await ethers.getContractAt("LybraConfigurator", await pool.lybraConfigurator());
+
+    const loadToken = async (name: string, tokenAddress: string): Promise<Token> => {
+      // The ERC20 functions used are common to all of them
+      const contract = (await ethers.getContractAt(name, tokenAddress, signer)) as Token["contract"];
+      return { contract, symbol: await contract.symbol(), decimals: await contract.decimals() };
+    };
+
+    return new MatchClient(
+      hre,
+      pool,
+      await ethers.getContractAt("RewardManager", await pool.rewardManager(), signer),
+      mintPool,
+      await loadToken("LPToken", await pool.ethlbrLpToken()),
+      await loadToken("stETHMock", await mintPool.getAsset()),
+      await loadToken("EUSDMock", await configurator.getEUSDAddress()),
+      signer,
+      await signer.getAddress(),
+      await loadErrorInterface(hre),
+    );
+  }
+
+  /****** Amounts ******/
+
+  parse(token: Token, amount: Amount) {
+    return typeof amount == "string" ? utils.parseUnits(amount, token.decimals) : amount;
+  }
+
+  format(token: Token, amount: BigNumber) {
+    return utils.formatUnits(amount, token.decimals);
+  }
+
+  /**
+   * @notice Approves { amount } of { token } to Match Pool unless already allowed
+   * @return The approval transaction, once mined, if one was needed
+   */
+  async ensureAllowance(token: Token, amount: BigNumber) {
+    const allowance: BigNumber = await token.contract.allowance(this.account, this.pool.address);
+    if (allowance.gte(amount)) return undefined;
+
+    const approval: ContractTransaction = await token.contract.approve(this.pool.address, amount);
+    await approval.wait();
+    return approval;
+  }
+
+  private async checkBalance(token: Token, amount: BigNumber) {
+    const balance: BigNumber = await token.contract.balanceOf(this.account);
+    if (balance.lt(amount)) {
+      throw new Error(`Insufficient ${token.symbol} balance: ${this.format(token, balance)}`);
+    }
+  }
+
+  private async getLimit(label: "stakeLimit" | "supplyLimit") {
+    return (await readStorageVariable(this.hre, "MatchPool", this.pool.address, label)) as BigNumber;
+  }
+
+  /****** Preflight checks, in the order MatchPool.sol reverts ******/
+
+  async checkStake(amount: BigNumber) {
+    if (await this.pool.stakePaused()) throw preflightError("StakePaused", "staking LP is paused");
+
+    const limit = await this.getLimit("stakeLimit");
+    const value: BigNumber = await this.pool.getLpValue((await this.pool.totalStaked()).add(amount));
+    if (!limit.isZero() && value.gt(limit)) {
+      throw preflightError("ExceedLimit", `staked LP worth ${utils.formatUnits(value, 18)} USD over the limit`);
+    }
+    await this.checkBalance(this.lp, amount);
+  }
+
+  async checkWithdrawLP(amount: BigNumber) {
+    if (await this.pool.withdrawPaused()) throw preflightError("WithdrawPaused", "withdrawing LP is paused");
+
+    const staked: BigNumber = await this.pool.staked(this.account);
+    if (amount.gt(staked)) {
+      throw exceedAmountError("withdrawLP", amount, staked);
+    }
+  }
+
+  async checkSupply(amount: BigNumber) {
+    const limit = await this.getLimit("supplyLimit");
+    const price: BigNumber = await this.mintPool.callStatic.getAssetPrice();
+    const totalSupplied: BigNumber = await this.pool.totalSupplied(this.mintPool.address);
+    const value = totalSupplied.add(amount).mul(price).div(constants.WeiPerEther);
+    if (!limit.isZero() && value.gt(limit)) {
+      throw preflightError("ExceedLimit", `supplied stETH worth ${utils.formatUnits(value, 18)} USD over the limit`);
+    }
+  }
+
+  async checkWithdrawStETH(amount: BigNumber) {
+    const withdrawable = (await getPosition(this.pool, this.account)).withdrawable;
+    if (amount.gt(withdrawable)) {
+      throw exceedAmountError("withdrawStETH", amount, withdrawable);
+    }
+  }
+
+  async checkBorrow(amount: BigNumber) {
+    if (await this.pool.borrowPaused()) throw preflightError("BorrowPaused", "borrowing eUSD is paused");
+
+    const vault = this.mintPool.address;
+    const { maxBorrow, borrowed } = await getPosition(this.pool, this.account);
+    const newBorrowAmount = borrowed.principal.add(amount);
+    if (newBorrowAmount.gt(maxBorrow)) {
+      throw exceedAmountError("borrowEUSD", newBorrowAmount, maxBorrow);
+    }
+
+    const totalMinted: BigNumber = await this.pool.totalMinted(vault);
+    const available = totalMinted.sub(await this.pool.totalBorrowed(vault));
+    if (amount.gt(available)) {
+      throw exceedAmountError("borrowEUSD", amount, available);
+    }
+  }
+
+  /**
+   * @dev liquidate() checks the principal of the liquidator rather than { account } against the
+   *  liquidation threshold and the close factor, mirrored here as is
+   */
+  async checkLiquidate(account: string, amount: BigNumber) {
+    const vault = this.mintPool.address;
+    const [price, supplied, ideal, maxBorrowRatio, totalBorrowed, totalSupplied, threshold] = await Promise.all([
+      this.mintPool.callStatic.getAssetPrice(),
+      this.pool.supplied(vault, account),
+      this.pool.collateralRatioIdeal(),
+      this.pool.maxBorrowRatio(),
+      this.pool.totalBorrowed(vault),
+      this.pool.totalSupplied(vault),
+      this.pool.globalBorrowRatioLiuquidation(),
+    ]);
+    const { principal } = await this.pool.borrowed(vault, this.account);
+    const liquidationThreshold = supplied.mul(price).mul(100).div(ideal);
+    if (principal.lte(liquidationThreshold)) throw preflightError("HealthyAccount", `${account} can't be liquidated`);
+
+    const globalBorrowRatio = getGlobalBorrowRatio(totalBorrowed, totalSupplied, price, maxBorrowRatio, ideal);
+    const closeFactor: BigNumber = globalBorrowRatio.lt(threshold)
+      ? await this.pool.closeFactor()
+      : await this.pool.closeFactorNormal();
+    const maxRepay = principal.mul(closeFactor).div(RATIO_PRECISION);
+    if (amount.gt(maxRepay)) {
+      throw exceedAmountError("liquidate", amount, maxRepay);
+    }
+    await this.checkBalance(this.eUSD, amount);
+  }
+
+  /****** Actions ******/
+
+  /**
+   * @notice Simulates the call first so reverts the checks above miss, e.g. from Lybra, fail decoded without gas spent
+   */
+  private async send(contract: Contract, method: string, ...args: unknown[]) {
+    await simulate(this.errors, contract, method, args);
+    try {
+      const transaction: ContractTransaction = await contract[method](...args);
+      return transaction;
+    } catch (e) {
+      throw toContractError(this.errors, e, method);
+    }
+  }
+
+  async stake(amount: Amount) {
+    const value = this.parse(this.lp, amount);
+    await this.checkStake(value);
+    await this.ensureAllowance(this.lp, value);
+    return this.send(this.pool, "stakeLP", value);
+  }
+
+  async withdrawLP(amount: Amount) {
+    const value = this.parse(this.lp, amount);
+    await this.checkWithdrawLP(value);
+    return this.send(this.pool, "withdrawLP", value);
+  }
+
+  /**
+   * @notice Supplies ETH, staked to Lido by Match Pool
+   */
+  async supplyETH(amount: Amount) {
+    const value = this.parse(this.stETH, amount);
+    await this.checkSupply(value);
+    return this.send(this.pool, "supplyETH", { value });
+  }
+
+  async supply(amount: Amount) {
+    const value = this.parse(this.stETH, amount);
+    await this.checkSupply(value);
+    await this.checkBalance(this.stETH, value);
+    await this.ensureAllowance(this.stETH, value);
+    return this.send(this.pool, "supplyStETH", value);
+  }
+
+  async withdraw(amount: Amount) {
+    const value = this.parse(this.stETH, amount);
+    await this.checkWithdrawStETH(value);
+    return this.send(this.pool, "withdrawStETH", value);
+  }
+
+  async borrow(amount: Amount) {
+    const value = this.parse(this.eUSD, amount);
+    await this.checkBorrow(value);
+    return this.send(this.pool, "borrowEUSD", value);
+  }
+
+  /**
+   * @param account Account to repay for, defaults to the signer
+   */
+  async repay(amount: Amount, account = this.account) {
+    const value = this.parse(this.eUSD, amount);
+    await this.checkBalance(this.eUSD, value);
+    await this.ensureAllowance(this.eUSD, value);
+    return this.send(this.pool, "repayEUSD", account, value);
+  }
+
+  async liquidate(account: string, amount: Amount) {
+    const value = this.parse(this.eUSD, amount);
+    await this.checkLiquidate(account, value);
+    await this.ensureAllowance(this.eUSD, value);
+    return this.send(this.pool, "liquidate", account, value);
+  }
+
+  /**
+   * @notice Claims esLBR and eUSD rebase rewards from Reward Manager
+   */
+  async claim(reward: RewardPool = "all") {
+    if (reward == "dlp") return this.send(this.manager, "getReward", await this.manager.dlpRewardPool());
+    if (reward == "lsd") return this.send(this.manager, "getReward", await this.manager.miningIncentive());
+    return this.send(this.manager, "getAllRewards");
+  }
+
+  /****** Previews ******/
+
+  /**
+   * @notice What supplying { amount } stETH would do to deposits and mints in Lybra, as modelled in model.ts
+   */
+  async previewSupply(amount: Amount) {
+    const state = await loadModelState(this.pool, [this.account]);
+    const config = await loadModelConfig(this.pool);
+    return supply(state, config, this.account, this.parse(this.stETH, amount));
+  }
+
+  /**
+   * @notice What withdrawing { amount } stETH would do, i.e. eUSD burnt, stETH withdrawn from Lybra and punishment
+   */
+  async previewWithdraw(amount: Amount) {
+    const state = await loadModelState(this.pool, [this.account]);
+    const config = await loadModelConfig(this.pool);
+    return withdrawStETH(state, config, this.account, this.parse(this.stETH, amount));
+  }
+
+  /****** Views ******/
+
+  async getPosition(account = this.account): Promise<PositionView> {
+    const position = await getPosition(this.pool, account, this.account);
+    const { principal, accInterest } = position.borrowed;
+    const eUSD = (amount: BigNumber) => this.format(this.eUSD, amount);
+    const supplied = await this.pool.supplied(position.vault, account);
+
+    return {
+      account,
+      staked: this.format(this.lp, position.staked),
+      supplied: this.format(this.stETH, supplied),
+      borrowed: eUSD(principal),
+      interest: eUSD(accInterest.add(position.pendingInterest)),
+      withdrawable: this.format(this.stETH, position.withdrawable),
+      maxBorrow: eUSD(position.maxBorrow),
+      borrowCapacity: eUSD(position.borrowCapacity),
+      liquidationThreshold: eUSD(position.liquidationThreshold),
+      distanceToLiquidation: eUSD(position.distanceToLiquidation),
+      underwater: position.underwater,
+      liquidatable: position.liquidatable,
+      collateralRatio: principal.isZero() ? null : percent(supplied.mul(position.price).mul(100).div(principal)),
+      rewards: {
+        dlp: utils.formatUnits(position.rewards.dlp, 18),
+        lsd: utils.formatUnits(position.rewards.lsd, 18),
+      },
+    };
+  }
+
+  async getPool(): Promise<PoolView> {
+    const vault = this.mintPool.address;
+    const [price, totalStaked, totalSupplied, totalDeposited, totalMinted, totalBorrowed] = await Promise.all([
+      this.mintPool.callStatic.getAssetPrice(),
+      this.pool.totalStaked(),
+      this.pool.totalSupplied(vault),
+      this.pool.totalDeposited(vault),
+      this.pool.totalMinted(vault),
+      this.pool.totalBorrowed(vault),
+    ]);
+    const [maxBorrowRatio, ideal, borrowRatePerSec] = await Promise.all([
+      this.pool.maxBorrowRatio(),
+      this.pool.collateralRatioIdeal(),
+      this.pool.borrowRatePerSec(),
+    ]);
+    const stakeLimit = await this.getLimit("stakeLimit");
+    const supplyLimit = await this.getLimit("supplyLimit");
+    const usd = (value: BigNumber) => (value.isZero() ? null : utils.formatUnits(value, 18));
+
+    return {
+      address: this.pool.address,
+      mintPool: vault,
+      price: utils.formatUnits(price, 18),
+      totalStaked: this.format(this.lp, totalStaked),
+      stakeLimit: usd(stakeLimit),
+      totalSupplied: this.format(this.stETH, totalSupplied),
+      supplyLimit: usd(supplyLimit),
+      totalDeposited: this.format(this.stETH, totalDeposited),
+      totalMinted: this.format(this.eUSD, totalMinted),
+      available: this.format(this.eUSD, totalMinted.sub(totalBorrowed)),
+      totalBorrowed: this.format(this.eUSD, totalBorrowed),
+      globalBorrowRatio: percent(getGlobalBorrowRatio(totalBorrowed, totalSupplied, price, maxBorrowRatio, ideal)),
+      // Rate per second scaled by 1e18, i.e. 1e18 -> 100%
+      borrowRatePerYear: utils.formatUnits(borrowRatePerSec.mul(YEAR).mul(100), 18),
+      stakePaused: await this.pool.stakePaused(),
+      withdrawPaused: await this.pool.withdrawPaused(),
+      borrowPaused: await this.pool.borrowPaused(),
+    };
+  }
+}
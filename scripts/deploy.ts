@@ -0,0 +1,161 @@
+import { BigNumber, utils } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { Deployment, getDeployment, recordDeployment } from "./registry";
+import { summarizeCall } from "./safe";
+
+/**
+ * Helpers of the deploy scripts in deploy/, run with `hardhat deploy --tags <tag>` or as test fixtures
+ * with `deployments.fixture(<tag>)`. Contracts deployed before, by the scripts or recorded in the registry,
+ * are reused and setters are only sent when the value read differs, so a failed run can simply be run again.
+ * The in-process hardhat network never reads nor writes the registry. Unlike the tasks, the scripts sign with
+ * the accounts of the network config: remote networks need PRIVATE_KEY with KEYSTORE unset, and the
+ * MAX_FEE_GWEI caps don't apply
+ */
+
+// Lybra's own contracts are recorded on production networks, mocks are deployed everywhere else
+export const isProduction = async (hre: HardhatRuntimeEnvironment) => !!(await getRecorded(hre, "eUSD"));
+
+const getRecorded = async (hre: HardhatRuntimeEnvironment, name: string) => {
+  if (hre.network.name == "hardhat") return undefined;
+  const recorded = getDeployment(hre.network.name, name);
+  // Left over from a local node since restarted
+  if (!recorded || (await hre.ethers.provider.getCode(recorded.address)) == "0x") return undefined;
+  return recorded;
+};
+
+const record = async (hre: HardhatRuntimeEnvironment, name: string, deployment: Deployment) => {
+  if (hre.network.name == "hardhat") return;
+  recordDeployment(hre.network.name, Number(await hre.getChainId()), name, deployment);
+};
+
+/**
+ * @return Address of the first of { names } deployed by the scripts or recorded in the registry
+ */
+export const getAddressOf = async (hre: HardhatRuntimeEnvironment, ...names: string[]) => {
+  for (const name of names) {
+    const deployment = await hre.deployments.getOrNull(name);
+    if (deployment) return deployment.address;
+  }
+  for (const name of names) {
+    const recorded = await getRecorded(hre, name);
+    if (recorded) return recorded.address;
+  }
+  throw new Error(`No ${names.join(" or ")} deployed on ${hre.network.name}`);
+};
+
+/**
+ * @return Account the scripts deploy and send setters from, the first one of the network config
+ */
+export const getDeployer = async (hre: HardhatRuntimeEnvironment) => {
+  const { deployer } = await hre.getNamedAccounts();
+  if (!deployer) {
+    throw new Error(`No deployer account on ${hre.network.name}, set PRIVATE_KEY and unset KEYSTORE to deploy`);
+  }
+  return deployer;
+};
+
+/**
+ * @notice Makes a contract of the registry, e.g. deployed with the deploy:* tasks, known to hardhat-deploy
+ */
+const importRecorded = async (hre: HardhatRuntimeEnvironment, name: string) => {
+  const recorded = await getRecorded(hre, name);
+  if (!recorded) return undefined;
+
+  const { abi } = await hre.artifacts.readArtifact(name);
+  await hre.deployments.save(name, { abi, address: recorded.address, args: recorded.args });
+  hre.deployments.log(`reusing "${name}" at ${recorded.address} from the registry`);
+  return recorded.address;
+};
+
+export const deployContract = async (hre: HardhatRuntimeEnvironment, name: string, args: unknown[]) => {
+  if (!(await hre.deployments.getOrNull(name))) {
+    const recorded = await importRecorded(hre, name);
+    if (recorded) return recorded;
+  }
+
+  const deployer = await getDeployer(hre);
+  const result = await hre.deployments.deploy(name, { from: deployer, args, log: true });
+  if (result.newlyDeployed) {
+    await record(hre, name, {
+      address: result.address,
+      args,
+      txHash: result.transactionHash,
+      block: result.receipt?.blockNumber,
+      deployedAt: new Date().toISOString(),
+    });
+  }
+  return result.address;
+};
+
+/**
+ * @notice Deploys { name } behind a transparent proxy with the upgrades plugin, as the deploy tasks do,
+ *  so later upgrades keep going through the plugin's manifest
+ */
+export const deployProxy = async (hre: HardhatRuntimeEnvironment, name: string, args: unknown[]) => {
+  const { deployments, ethers, upgrades } = hre;
+  const deployed = await deployments.getOrNull(name);
+  if (deployed) {
+    deployments.log(`reusing "${name}" at ${deployed.address}`);
+    return deployed.address;
+  }
+  const recorded = await importRecorded(hre, name);
+  if (recorded) return recorded;
+
+  // Signed by the first account, the deployer
+  await getDeployer(hre);
+  const factory = await ethers.getContractFactory(name);
+  const proxy = await (await upgrades.deployProxy(factory, args)).deployed();
+  const receipt = await proxy.deployTransaction.wait();
+  const implementation: string = await upgrades.erc1967.getImplementationAddress(proxy.address);
+
+  const { abi } = await hre.artifacts.readArtifact(name);
+  await deployments.save(name, { abi, address: proxy.address, args, implementation });
+  deployments.log(`deploying "${name}" (tx: ${receipt.transactionHash})...: deployed at ${proxy.address}`);
+  await record(hre, name, {
+    address: proxy.address,
+    args: [],
+    txHash: receipt.transactionHash,
+    block: receipt.blockNumber,
+    deployedAt: new Date().toISOString(),
+    proxyAdmin: await upgrades.erc1967.getAdminAddress(proxy.address),
+    implementation,
+    implementations: [{ address: implementation, recordedAt: new Date().toISOString() }],
+  });
+  return proxy.address;
+};
+
+const same = (current: unknown, expected: unknown) =>
+  BigNumber.isBigNumber(current)
+    ? current.eq(expected as BigNumber)
+    : String(current).toLowerCase() == String(expected).toLowerCase();
+
+/**
+ * @notice Sends { method } of { name } unless { current } already is { expected }. Calls to contracts owned by
+ *  another account than the deployer, e.g. handed over to a multisig, are printed to be sent by the owner instead
+ * @return Whether anything was sent
+ */
+export const ensure = async (
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  current: unknown,
+  expected: unknown,
+  method: string,
+  args: unknown[],
+) => {
+  if (same(current, expected)) return false;
+
+  const { deployments } = hre;
+  const deployer = await getDeployer(hre);
+  const { abi, address } = await deployments.get(name);
+  // Mocks without owner can be set by anyone
+  const owner: string = await deployments.read(name, "owner").catch(() => deployer);
+  if (!same(owner, deployer)) {
+    const call = { contract: name, to: address, contractInterface: new utils.Interface(abi), method, args };
+    console.log(`${name} is owned by ${owner}, to be sent by the owner: ${summarizeCall(call)}`);
+    return false;
+  }
+
+  await deployments.execute(name, { from: deployer, log: true }, method, ...args);
+  return true;
+};
@@ -0,0 +1,159 @@
+import { BigNumber, Contract, utils } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Decodes reverts of Match Pool and the contracts it calls into their custom errors, with amounts
+ * formatted in the token the reverting function deals with, e.g. "requested 5.0 stETH, withdrawable 3.2 stETH"
+ */
+
+// Contracts whose custom errors can bubble up from a Match Pool transaction
+export const ERROR_SOURCES = [
+  "MatchPool",
+  "RewardManager",
+  "LybraMintPool",
+  "LybraConfigurator",
+  "StakePool",
+  "MiningIncentive",
+  "EUSDMock",
+  "stETHMock",
+  "LPToken",
+];
+
+export interface ContractError extends Error {
+  // Custom error, "Error" for require() reasons or "Panic" for failed checks like underflows
+  errorName: string;
+  errorArgs: unknown[];
+}
+
+const ERROR_SELECTOR = utils.id("Error(string)").slice(0, 10);
+const PANIC_SELECTOR = utils.id("Panic(uint256)").slice(0, 10);
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic underflow or overflow",
+  0x12: "division or modulo by zero",
+  0x32: "array index out of bounds",
+};
+
+// What the two amounts of ExceedAmountAllowed(_desired, _actual) are in each function reverting with it
+const EXCEED_AMOUNT_LABELS: Record<string, [string, string, string]> = {
+  withdrawLP: ["requested", "staked", "LP"],
+  withdrawStETH: ["requested", "withdrawable", "stETH"],
+  borrowEUSD: ["borrowing", "allowed", "eUSD"],
+  liquidate: ["repaying", "max. repay", "eUSD"],
+};
+
+const amount = (value: unknown) => utils.formatUnits(value as BigNumber, 18);
+
+/**
+ * @return Interface with the custom errors of all { names }, each signature only once
+ */
+export const loadErrorInterface = async (hre: HardhatRuntimeEnvironment, names = ERROR_SOURCES) => {
+  const fragments = new Map<string, utils.ErrorFragment>();
+  for (const name of names) {
+    const { abi } = await hre.artifacts.readArtifact(name);
+    for (const fragment of Object.values(new utils.Interface(abi).errors)) fragments.set(fragment.format(), fragment);
+  }
+  return new utils.Interface([...fragments.values()]);
+};
+
+/**
+ * @return Revert data wherever ethers, the provider or the node nested it in { error }
+ */
+export const getRevertData = (error: unknown): string | undefined => {
+  if (!error || typeof error != "object") return undefined;
+
+  const { data, error: cause, body } = error as { data?: unknown; error?: unknown; body?: unknown };
+  // Selector and ABI encoded arguments
+  if (typeof data == "string" && utils.isHexString(data) && data.length >= 10 && (data.length - 10) % 64 == 0) {
+    return data;
+  }
+
+  for (const nested of [data, cause]) {
+    const found = getRevertData(nested);
+    if (found) return found;
+  }
+  if (typeof body == "string") {
+    try {
+      return getRevertData(JSON.parse(body));
+    } catch (e) {
+      return undefined;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * @param method Function that reverted, to tell what the amounts of the error refer to
+ */
+export const formatError = (name: string, args: unknown[], method?: string) => {
+  const labels = method ? EXCEED_AMOUNT_LABELS[method] : undefined;
+  if (name == "ExceedAmountAllowed" && labels) {
+    const [desired, actual, unit] = labels;
+    return `${name}: ${desired} ${amount(args[0])} ${unit}, ${actual} ${amount(args[1])} ${unit}`;
+  }
+  if (name == "UnpaidInterest") return `${name}: ${amount(args[0])} eUSD of borrow interest to repay first`;
+
+  return args.length == 0 ? name : `${name}(${args.map(String).join(", ")})`;
+};
+
+export const contractError = (errorName: string, errorArgs: unknown[], message: string): ContractError =>
+  Object.assign(new Error(message), { errorName, errorArgs });
+
+/**
+ * @return Error encoded in { data }, undefined if not one of { errors }
+ */
+export const decodeError = (errors: utils.Interface, data: string, method?: string): ContractError | undefined => {
+  const selector = data.slice(0, 10);
+  const encoded = utils.hexDataSlice(data, 4);
+
+  if (selector == ERROR_SELECTOR) {
+    const [reason] = utils.defaultAbiCoder.decode(["string"], encoded);
+    return contractError("Error", [reason], reason);
+  }
+  if (selector == PANIC_SELECTOR) {
+    const [code] = utils.defaultAbiCoder.decode(["uint256"], encoded);
+    const reason = PANIC_REASONS[code.toNumber()] ?? `code ${code.toHexString()}`;
+    return contractError("Panic", [code], `Panic: ${reason}`);
+  }
+
+  let fragment: utils.ErrorFragment;
+  try {
+    fragment = errors.getError(selector);
+  } catch (e) {
+    return undefined;
+  }
+  const args = [...errors.decodeErrorResult(fragment, data)];
+  return contractError(fragment.name, args, formatError(fragment.name, args, method));
+};
+
+/**
+ * @return { error } decoded if it carries revert data of a known error, as is otherwise
+ */
+export const toContractError = (errors: utils.Interface, error: unknown, method?: string) => {
+  const data = getRevertData(error);
+  return (data && decodeError(errors, data, method)) || error;
+};
+
+/**
+ * @return One line explaining { error }, for reports
+ */
+export const describeError = (errors: utils.Interface, error: unknown, method?: string): string => {
+  const decoded = toContractError(errors, error, method);
+  if (!decoded || typeof decoded != "object") return String(decoded);
+
+  const { errorName, reason, message } = decoded as Partial<ContractError> & { reason?: string };
+  return (errorName ? message : reason ?? message) ?? String(decoded);
+};
+
+/**
+ * @notice Runs { method } with callStatic first, so a transaction that would revert fails here
+ *  with its decoded error instead of being sent
+ */
+export const simulate = async (errors: utils.Interface, contract: Contract, method: string, args: unknown[]) => {
+  try {
+    await contract.callStatic[method](...args);
+  } catch (e) {
+    throw toContractError(errors, e, method);
+  }
+};
@@ -0,0 +1,262 @@
+import { BigNumber, Contract, Event, EventFilter, utils } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Local index of Match Pool and Reward Manager events in a JSON store per network. Events are
+ * fetched in block ranges and the store is written after each range with its last block as
+ * checkpoint, so an interrupted run resumes from there
+ */
+
+export const INDEX_DIR = path.join(__dirname, "..", "index");
+
+export interface IndexedEvent {
+  contract: string;
+  name: string;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  // Amounts as decimal strings in wei
+  args: Record<string, string | boolean>;
+}
+
+export interface EventStore {
+  network: string;
+  chainId: number;
+  // Indexed addresses by contract name
+  contracts: Record<string, string>;
+  fromBlock: number;
+  // Last block indexed, and its hash to detect a node that was restarted or reorged since
+  checkpoint: number;
+  checkpointHash?: string;
+  events: IndexedEvent[];
+}
+
+export interface IndexOptions {
+  toBlock: number;
+  batchSize: number;
+  onBatch?: (fromBlock: number, toBlock: number, events: IndexedEvent[]) => void;
+}
+
+// Events emitted by the owner changing the configuration of Match Pool or Reward Manager
+export const PARAMETER_EVENTS = [
+  "LPOracleChanged",
+  "RewardManagerChanged",
+  "DlpRatioChanged",
+  "CollateralRatioChanged",
+  "BorrowRateChanged",
+  "BorrowRatioChanged",
+  "LiquidationParamsChanged",
+  "LiquidationParamsNormalChanged",
+  "LPStakePaused",
+  "LPWithdrawPaused",
+  "eUSDBorrowPaused",
+  "StakeLimitChanged",
+  "SupplyLimitChanged",
+  "MonitorChanged",
+  "MintPoolAdded",
+  "RewardShareChanged",
+];
+
+// Amount summed up per day for each user event, all in 18 decimals
+const VOLUME_ARGS: Record<string, string> = {
+  LpStaked: "amount",
+  LpWithdrew: "amount",
+  stETHSupplied: "amount",
+  stETHWithdrew: "amount",
+  eUSDBorrowed: "amount",
+  eUSDRepaid: "amount",
+  Liquidated: "seizeAmount",
+  DLPRewardClaimed: "rewardAmount",
+  LSDRewardClaimed: "rewardAmount",
+  eUSDRewardClaimed: "rewardAmount",
+};
+
+const DAY = 24 * 3600;
+
+// Blocks per log request, most providers cap the range of eth_getLogs
+export const DEFAULT_BATCH_SIZE = 2000;
+
+export const getStorePath = (network: string) => path.join(INDEX_DIR, `${network}.json`);
+
+export const readStore = (file: string): EventStore | undefined => {
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+};
+
+export const writeStore = (file: string, store: EventStore) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Written aside then renamed, an interrupted write never leaves a truncated store
+  const temp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(store));
+  fs.renameSync(temp, file);
+};
+
+export const createStore = (network: string, chainId: number, fromBlock: number): EventStore => ({
+  network,
+  chainId,
+  contracts: {},
+  fromBlock,
+  checkpoint: fromBlock - 1,
+  events: [],
+});
+
+/**
+ * @notice Throws if { store } was indexed from other contracts or a chain that no longer has its checkpoint
+ */
+export const checkStore = async (store: EventStore, contracts: Record<string, Contract>) => {
+  const { provider } = Object.values(contracts)[0];
+  const { chainId } = await provider.getNetwork();
+  if (store.chainId != chainId) throw new Error(`Store indexed on chain ${store.chainId}, not ${chainId}`);
+
+  for (const [name, contract] of Object.entries(contracts)) {
+    const indexed = store.contracts[name];
+    if (indexed && indexed.toLowerCase() != contract.address.toLowerCase()) {
+      throw new Error(`Store indexed ${name} at ${indexed}, not ${contract.address}`);
+    }
+  }
+
+  if (store.checkpointHash) {
+    const block = await provider.getBlock(store.checkpoint);
+    if (block?.hash != store.checkpointHash) {
+      throw new Error(
+        `Block ${store.checkpoint} changed since last run, the node was reset or reorged, index again with --reset`,
+      );
+    }
+  }
+};
+
+/**
+ * @return Events of { contract } matching { filter } from { fromBlock } to { toBlock }, queried
+ *  { batchSize } blocks at a time
+ */
+export const queryFilterInBatches = async (
+  contract: Contract,
+  filter: EventFilter,
+  fromBlock = 0,
+  toBlock?: number,
+  batchSize = DEFAULT_BATCH_SIZE,
+) => {
+  const lastBlock = toBlock ?? (await contract.provider.getBlockNumber());
+  const events: Event[] = [];
+  for (let from = fromBlock; from <= lastBlock; from += batchSize) {
+    events.push(...(await contract.queryFilter(filter, from, Math.min(from + batchSize - 1, lastBlock))));
+  }
+  return events;
+};
+
+const toArgs = (event: utils.LogDescription) => {
+  const args: Record<string, string | boolean> = {};
+  event.eventFragment.inputs.forEach((input, i) => {
+    const value = event.args[i];
+    args[input.name] = BigNumber.isBigNumber(value) ? value.toString() : value;
+  });
+  return args;
+};
+
+/**
+ * @notice Indexes events of { contracts } from the block after the checkpoint of { store } up to { toBlock },
+ *  writing { file } after every { batchSize } blocks
+ */
+export const indexEvents = async (
+  contracts: Record<string, Contract>,
+  store: EventStore,
+  file: string,
+  options: IndexOptions,
+) => {
+  const { provider } = Object.values(contracts)[0];
+  for (const [name, contract] of Object.entries(contracts)) store.contracts[name] = contract.address;
+
+  let indexed = 0;
+  for (let from = store.checkpoint + 1; from <= options.toBlock; from += options.batchSize) {
+    const to = Math.min(from + options.batchSize - 1, options.toBlock);
+    const events: IndexedEvent[] = [];
+    const timestamps = new Map<number, number>();
+
+    for (const [name, contract] of Object.entries(contracts)) {
+      const logs = await provider.getLogs({ address: contract.address, fromBlock: from, toBlock: to });
+      for (const log of logs) {
+        let event: utils.LogDescription;
+        try {
+          event = contract.interface.parseLog(log);
+        } catch (e) {
+          // Not in the ABI, e.g. emitted by an older implementation
+          continue;
+        }
+
+        if (!timestamps.has(log.blockNumber)) {
+          timestamps.set(log.blockNumber, (await provider.getBlock(log.blockNumber)).timestamp);
+        }
+        events.push({
+          contract: name,
+          name: event.name,
+          blockNumber: log.blockNumber,
+          timestamp: timestamps.get(log.blockNumber) as number,
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex,
+          args: toArgs(event),
+        });
+      }
+    }
+
+    events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    store.events.push(...events);
+    store.checkpoint = to;
+    store.checkpointHash = (await provider.getBlock(to)).hash;
+    writeStore(file, store);
+
+    indexed += events.length;
+    options.onBatch?.(from, to, events);
+  }
+
+  return indexed;
+};
+
+/****** Queries ******/
+
+const sum = (events: IndexedEvent[], arg: string) =>
+  events.reduce((total, event) => total.add(event.args[arg] as string), BigNumber.from(0));
+
+/**
+ * @return Events of { account }, including liquidations it did and the ones it suffered
+ */
+export const getAccountHistory = (store: EventStore, account: string) => {
+  const address = account.toLowerCase();
+  return store.events.filter((event) =>
+    ["account", "liquidator"].some((arg) => String(event.args[arg] ?? "").toLowerCase() == address),
+  );
+};
+
+/**
+ * @return Amounts of user events summed up per UTC day, e.g. { "2023-08-01": { LpStaked: 10e18 } }
+ */
+export const getDailyVolumes = (store: EventStore) => {
+  const volumes: Record<string, Record<string, BigNumber>> = {};
+  for (const event of store.events) {
+    const arg = VOLUME_ARGS[event.name];
+    if (!arg) continue;
+
+    const day = new Date(Math.floor(event.timestamp / DAY) * DAY * 1000).toISOString().slice(0, 10);
+    volumes[day] ??= {};
+    volumes[day][event.name] = (volumes[day][event.name] ?? BigNumber.from(0)).add(event.args[arg] as string);
+  }
+  return volumes;
+};
+
+/**
+ * @return stETH lost to Lybra's withdrawal punishment, in total and per account
+ */
+export const getPunishment = (store: EventStore) => {
+  const withdrawals = store.events.filter((event) => event.name == "stETHWithdrew");
+  const accounts: Record<string, BigNumber> = {};
+  for (const event of withdrawals) {
+    const account = event.args.account as string;
+    accounts[account] = (accounts[account] ?? BigNumber.from(0)).add(event.args.punishment as string);
+  }
+  return { total: sum(withdrawals, "punishment"), accounts };
+};
+
+export const getParameterTimeline = (store: EventStore) => {
+  return store.events.filter((event) => PARAMETER_EVENTS.includes(event.name));
+};
@@ -0,0 +1,173 @@
+import { BigNumber, Contract, constants } from "ethers";
+
+import { getBorrowers } from "./liquidation";
+import { BorrowInfo, getGlobalBorrowRatio } from "./position";
+
+/**
+ * Borrow interest of Match Pool borrowers. Only { interestAmount }, the part borrowed while the global
+ * borrow ratio was at or above { globalBorrowRatioThreshold }, is charged, at { borrowRatePerSec } since
+ * { interestTimestamp } as in { getAccInterest }. A rate change therefore also applies to interest not yet
+ * settled into { accInterest }, while a threshold change only affects the next borrows
+ */
+
+const MINT_POOL_ABI = ["function getAssetPrice() returns (uint256)"];
+
+const YEAR = 365 * 24 * 3600;
+
+export interface InterestParams {
+  // Scaled by 1e18, i.e. 1e18 -> 100% per second
+  borrowRatePerSec: BigNumber;
+  // Out of 1e20
+  maxBorrowRatio: BigNumber;
+  globalBorrowRatioThreshold: BigNumber;
+}
+
+export interface InterestState {
+  timestamp: number;
+  price: BigNumber;
+  collateralRatioIdeal: BigNumber;
+  totalSupplied: BigNumber;
+  totalBorrowed: BigNumber;
+  borrowers: (BorrowInfo & { account: string })[];
+}
+
+export interface BorrowerProjection {
+  account: string;
+  principal: BigNumber;
+  interestAmount: BigNumber;
+  // Accrued and pending interest, what repayments pay to the treasury after the principal
+  owed: BigNumber;
+  // Interest accruing over the horizon
+  projected: BigNumber;
+}
+
+export interface InterestProjection {
+  params: InterestParams;
+  // Seconds projected over
+  horizon: number;
+  // Out of 1e20
+  globalBorrowRatio: BigNumber;
+  // Whether new borrows get charged interest, i.e. the global borrow ratio is at or above the threshold
+  chargingNewBorrows: boolean;
+  borrowers: BorrowerProjection[];
+  totalOwed: BigNumber;
+  totalProjected: BigNumber;
+  revenuePerYear: BigNumber;
+}
+
+export interface InterestSimulation {
+  current: InterestProjection;
+  proposed: InterestProjection;
+  // Change of interest accruing over the horizon
+  revenueChange: BigNumber;
+  // Accounts accruing interest with the proposed params only
+  startPaying: string[];
+  // Accounts not charged yet that would be on their next borrow with the proposed params only
+  chargedOnNextBorrow: string[];
+}
+
+/**
+ * @return Rate per second { setBorrowRate } stores for { ratePerYear }, scaled by 1e18
+ */
+export const getRatePerSec = (ratePerYear: BigNumber) => ratePerYear.div(YEAR);
+
+/**
+ * @notice Mirror of { getAccInterest } at { timestamp }
+ */
+export const getAccInterest = (info: BorrowInfo, ratePerSec: BigNumber, timestamp: number) => {
+  if (info.interestAmount.isZero()) return constants.Zero;
+  return info.interestAmount
+    .mul(ratePerSec)
+    .mul(timestamp - info.interestTimestamp.toNumber())
+    .div(constants.WeiPerEther);
+};
+
+export const projectInterest = (state: InterestState, params: InterestParams, horizon: number): InterestProjection => {
+  const borrowers = state.borrowers.map((info) => ({
+    account: info.account,
+    principal: info.principal,
+    interestAmount: info.interestAmount,
+    owed: info.accInterest.add(getAccInterest(info, params.borrowRatePerSec, state.timestamp)),
+    projected: info.interestAmount.mul(params.borrowRatePerSec).mul(horizon).div(constants.WeiPerEther),
+  }));
+  const globalBorrowRatio = getGlobalBorrowRatio(
+    state.totalBorrowed,
+    state.totalSupplied,
+    state.price,
+    params.maxBorrowRatio,
+    state.collateralRatioIdeal,
+  );
+  const charged = borrowers.reduce((total, borrower) => total.add(borrower.interestAmount), constants.Zero);
+
+  return {
+    params,
+    horizon,
+    globalBorrowRatio,
+    chargingNewBorrows: globalBorrowRatio.gte(params.globalBorrowRatioThreshold),
+    borrowers,
+    totalOwed: borrowers.reduce((total, borrower) => total.add(borrower.owed), constants.Zero),
+    totalProjected: borrowers.reduce((total, borrower) => total.add(borrower.projected), constants.Zero),
+    revenuePerYear: charged.mul(params.borrowRatePerSec).mul(YEAR).div(constants.WeiPerEther),
+  };
+};
+
+/**
+ * @notice Compares projections with the current params and with { proposed } ones, e.g. a call to
+ *  { setBorrowRate } or { setBorrowRatio } about to be sent
+ */
+export const simulateParams = (
+  state: InterestState,
+  current: InterestParams,
+  proposed: Partial<InterestParams>,
+  horizon: number,
+): InterestSimulation => {
+  const before = projectInterest(state, current, horizon);
+  const after = projectInterest(state, { ...current, ...proposed }, horizon);
+
+  const startPaying = after.borrowers
+    .filter((borrower, i) => borrower.projected.gt(0) && before.borrowers[i].projected.isZero())
+    .map((borrower) => borrower.account);
+  const chargedOnNextBorrow =
+    after.chargingNewBorrows && !before.chargingNewBorrows
+      ? state.borrowers.filter((info) => info.interestAmount.isZero()).map((info) => info.account)
+      : [];
+
+  return {
+    current: before,
+    proposed: after,
+    revenueChange: after.totalProjected.sub(before.totalProjected),
+    startPaying,
+    chargedOnNextBorrow,
+  };
+};
+
+export const loadInterestParams = async (matchPool: Contract): Promise<InterestParams> => ({
+  borrowRatePerSec: await matchPool.borrowRatePerSec(),
+  maxBorrowRatio: await matchPool.maxBorrowRatio(),
+  globalBorrowRatioThreshold: await matchPool.globalBorrowRatioThreshold(),
+});
+
+/**
+ * @notice Reads the borrow info of every account found in borrow events since { fromBlock }
+ */
+export const loadInterestState = async (matchPool: Contract, fromBlock = 0): Promise<InterestState> => {
+  const vault: string = await matchPool.getMintPool();
+  const mintPool = new Contract(vault, MINT_POOL_ABI, matchPool.provider);
+
+  const borrowers = [];
+  for (const account of await getBorrowers(matchPool, fromBlock)) {
+    const { principal, interestAmount, accInterest, interestTimestamp } = await matchPool.borrowed(vault, account);
+    // Interest left unpaid counts even without principal
+    if (principal.isZero() && accInterest.isZero() && interestAmount.isZero()) continue;
+    borrowers.push({ account, principal, interestAmount, accInterest, interestTimestamp });
+  }
+
+  return {
+    timestamp: (await matchPool.provider.getBlock("latest")).timestamp,
+    price: await mintPool.callStatic.getAssetPrice(),
+    collateralRatioIdeal: await matchPool.collateralRatioIdeal(),
+    totalSupplied: await matchPool.totalSupplied(vault),
+    totalBorrowed: await matchPool.totalBorrowed(vault),
+    borrowers,
+  };
+};
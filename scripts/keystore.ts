@@ -0,0 +1,48 @@
+import { Wallet } from "ethers";
+import * as fs from "fs";
+import * as readline from "readline";
+import { Writable } from "stream";
+
+/**
+ * Signing keys kept in encrypted JSON keystores (Web3 Secret Storage, as written by geth, clef or ethers)
+ * instead of raw private keys in .env
+ */
+
+/**
+ * @notice Asks for a password on the terminal without echoing it
+ */
+export const promptPassword = (question: string) =>
+  new Promise<string>((resolve, reject) => {
+    if (!process.stdin.isTTY) {
+      reject(new Error("No terminal to prompt for the keystore password, set KEYSTORE_PASSWORD instead"));
+      return;
+    }
+
+    const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+    const prompt = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+    process.stdout.write(question);
+    prompt.question("", (password) => {
+      prompt.close();
+      process.stdout.write("\n");
+      resolve(password);
+    });
+  });
+
+/**
+ * @notice Decrypts the keystore { file }, prompting for its password when none is given
+ */
+export const loadKeystore = async (file: string, password?: string) => {
+  if (!fs.existsSync(file)) throw new Error(`Keystore ${file} not found`);
+  const json = fs.readFileSync(file, "utf-8");
+  return Wallet.fromEncryptedJson(json, password ?? (await promptPassword(`Password of keystore ${file}: `)));
+};
+
+/**
+ * @notice Encrypts { privateKey } into the keystore { file }, never overwriting an existing one
+ */
+export const writeKeystore = async (file: string, privateKey: string, password: string) => {
+  if (fs.existsSync(file)) throw new Error(`Keystore ${file} already exists`);
+  const wallet = new Wallet(privateKey);
+  fs.writeFileSync(file, await wallet.encrypt(password), { mode: 0o600 });
+  return wallet.address;
+};
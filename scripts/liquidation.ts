@@ -0,0 +1,222 @@
+import { BigNumber, Contract, ContractReceipt, Signer, constants } from "ethers";
+
+import { DEFAULT_BATCH_SIZE, queryFilterInBatches } from "./indexer";
+import {
+  RATIO_PRECISION,
+  getDefaultLiquidator,
+  getGlobalBorrowRatio,
+  getLiquidationThreshold,
+  isLiquidatable,
+} from "./position";
+
+/**
+ * Finds borrowers past the threshold checked in { liquidate } and works out
+ * how much of their debt can be repaid and how much stETH gets seized for it.
+ * liquidate() checks and caps the repay with the principal of the liquidator instead of
+ * the one of the account, both are reported and the contract's bounds are the ones applied
+ */
+
+const ERC20_ABI = [
+  "function balanceOf(address) view returns (uint256)",
+  "function allowance(address, address) view returns (uint256)",
+  "function approve(address, uint256) returns (bool)",
+];
+const CONFIGURATOR_ABI = ["function getEUSDAddress() view returns (address)"];
+const MINT_POOL_ABI = ["function getAssetPrice() returns (uint256)"];
+
+export interface LiquidationParams {
+  price: BigNumber;
+  globalBorrowRatio: BigNumber;
+  // { closeFactor } and { liquidationDiscount } below { globalBorrowRatioLiuquidation }, Normal ones otherwise
+  closeFactor: BigNumber;
+  liquidationDiscount: BigNumber;
+}
+
+export interface LiquidationCandidate {
+  account: string;
+  supplied: BigNumber;
+  principal: BigNumber;
+  liquidationThreshold: BigNumber;
+  // { principal } past { liquidationThreshold }
+  underwater: boolean;
+  liquidatorPrincipal: BigNumber;
+  // Whether liquidate() gets past its health check, i.e. { liquidatorPrincipal } past { liquidationThreshold }
+  liquidatable: boolean;
+  // Out of { liquidatorPrincipal }, up to { principal }
+  maxRepay: BigNumber;
+  // stETH moved from { account } to the liquidator when repaying { maxRepay }
+  seizeAmount: BigNumber;
+}
+
+export interface LiquidationResult {
+  account: string;
+  repayAmount: BigNumber;
+  receipt?: ContractReceipt;
+  // Reason the liquidation was skipped
+  error?: string;
+}
+
+/**
+ * @return Every account that ever borrowed, was repaid for or was liquidated in Match Pool
+ */
+export const getBorrowers = async (matchPool: Contract, fromBlock = 0, batchSize = DEFAULT_BATCH_SIZE) => {
+  const filters = [matchPool.filters.eUSDBorrowed(), matchPool.filters.eUSDRepaid(), matchPool.filters.Liquidated()];
+  const toBlock = await matchPool.provider.getBlockNumber();
+  const accounts = new Set<string>();
+
+  for (const filter of filters) {
+    const events = await queryFilterInBatches(matchPool, filter, fromBlock, toBlock, batchSize);
+    for (const event of events) accounts.add(event.args?.account);
+  }
+
+  return [...accounts];
+};
+
+export const getLiquidationParams = async (matchPool: Contract): Promise<LiquidationParams> => {
+  const vault: string = await matchPool.getMintPool();
+  const mintPool = new Contract(vault, MINT_POOL_ABI, matchPool.provider);
+
+  const [price, totalBorrowed, totalSupplied, maxBorrowRatio, ideal, threshold] = await Promise.all([
+    mintPool.callStatic.getAssetPrice(),
+    matchPool.totalBorrowed(vault),
+    matchPool.totalSupplied(vault),
+    matchPool.maxBorrowRatio(),
+    matchPool.collateralRatioIdeal(),
+    matchPool.globalBorrowRatioLiuquidation(),
+  ]);
+  const globalBorrowRatio = getGlobalBorrowRatio(totalBorrowed, totalSupplied, price, maxBorrowRatio, ideal);
+  const isLow = globalBorrowRatio.lt(threshold);
+
+  return {
+    price,
+    globalBorrowRatio,
+    closeFactor: isLow ? await matchPool.closeFactor() : await matchPool.closeFactorNormal(),
+    liquidationDiscount: isLow ? await matchPool.liquidationDiscount() : await matchPool.liquidationDiscountNormal(),
+  };
+};
+
+/**
+ * @return Amount of stETH seized for repaying { repayAmount }
+ */
+export const getSeizeAmount = (repayAmount: BigNumber, params: LiquidationParams) => {
+  return repayAmount.mul(params.liquidationDiscount).mul(constants.WeiPerEther).div(RATIO_PRECISION).div(params.price);
+};
+
+/**
+ * @notice Lists the accounts of { borrowers } whose principal exceeds their liquidation threshold, and the
+ *  ones { liquidator } can liquidate as its own principal does
+ * @param liquidator Defaults to the signer of { matchPool }
+ */
+export const scanLiquidations = async (
+  matchPool: Contract,
+  borrowers: string[],
+  params: LiquidationParams,
+  liquidator?: string,
+) => {
+  const vault: string = await matchPool.getMintPool();
+  const ideal: BigNumber = await matchPool.collateralRatioIdeal();
+  const { principal: liquidatorPrincipal } = await matchPool.borrowed(
+    vault,
+    liquidator ?? (await getDefaultLiquidator(matchPool)),
+  );
+  const closeAmount = liquidatorPrincipal.mul(params.closeFactor).div(RATIO_PRECISION);
+  const candidates: LiquidationCandidate[] = [];
+
+  for (const account of borrowers) {
+    const { principal } = await matchPool.borrowed(vault, account);
+    if (principal.isZero()) continue;
+
+    const supplied: BigNumber = await matchPool.supplied(vault, account);
+    const liquidationThreshold = getLiquidationThreshold(supplied, params.price, ideal);
+    const underwater = principal.gt(liquidationThreshold);
+    const liquidatable = isLiquidatable(liquidationThreshold, liquidatorPrincipal);
+    if (!underwater && !liquidatable) continue;
+    // Repaying more than the principal of the account goes to the treasury as interest
+    const maxRepay = closeAmount.gt(principal) ? principal : closeAmount;
+
+    candidates.push({
+      account,
+      supplied,
+      principal,
+      liquidationThreshold,
+      underwater,
+      liquidatorPrincipal,
+      liquidatable,
+      maxRepay,
+      seizeAmount: getSeizeAmount(maxRepay, params),
+    });
+  }
+
+  return candidates;
+};
+
+/**
+ * @notice Liquidates { candidates } one by one with as much eUSD as { signer } holds, up to the max. repay
+ * @dev Candidates above water, unless { force }, and the ones the principal of { signer } does not allow
+ *  liquidating are skipped. Each liquidation is simulated first and skipped too if it would revert
+ * @param force Liquidates accounts liquidate() lets through although their own principal is under their threshold
+ */
+export const executeLiquidations = async (
+  matchPool: Contract,
+  signer: Signer,
+  candidates: LiquidationCandidate[],
+  params: LiquidationParams,
+  force = false,
+) => {
+  const pool = matchPool.connect(signer);
+  const liquidator = await signer.getAddress();
+  const configurator = new Contract(await matchPool.lybraConfigurator(), CONFIGURATOR_ABI, signer);
+  const eUSD = new Contract(await configurator.getEUSDAddress(), ERC20_ABI, signer);
+  const vault: string = await matchPool.getMintPool();
+  // Liquidating others leaves the principal of the liquidator as is
+  const { principal } = await matchPool.borrowed(vault, liquidator);
+  const results: LiquidationResult[] = [];
+
+  for (const candidate of candidates) {
+    const { account } = candidate;
+    if (account == liquidator) {
+      results.push({ account, repayAmount: constants.Zero, error: "Account of the liquidator" });
+      continue;
+    }
+    if (!candidate.underwater && !force) {
+      results.push({ account, repayAmount: constants.Zero, error: "Account above water" });
+      continue;
+    }
+    if (!isLiquidatable(candidate.liquidationThreshold, principal)) {
+      results.push({ account, repayAmount: constants.Zero, error: "Liquidator's principal under the threshold" });
+      continue;
+    }
+
+    const maxRepay = principal.mul(params.closeFactor).div(RATIO_PRECISION);
+    const balance: BigNumber = await eUSD.balanceOf(liquidator);
+    let repayAmount = balance.lt(maxRepay) ? balance : maxRepay;
+    if (repayAmount.gt(candidate.principal)) repayAmount = candidate.principal;
+    // Seizing more than supplied underflows
+    if (getSeizeAmount(repayAmount, params).gt(candidate.supplied)) {
+      repayAmount = candidate.supplied.mul(params.price).mul(RATIO_PRECISION).div(params.liquidationDiscount);
+      repayAmount = repayAmount.div(constants.WeiPerEther);
+    }
+    if (repayAmount.isZero()) {
+      results.push({ account, repayAmount, error: "No eUSD to repay with" });
+      continue;
+    }
+
+    const allowance: BigNumber = await eUSD.allowance(liquidator, matchPool.address);
+    if (allowance.lt(repayAmount)) await (await eUSD.approve(matchPool.address, repayAmount)).wait();
+
+    try {
+      await pool.callStatic.liquidate(account, repayAmount);
+    } catch (e) {
+      const error = e as Error & { errorName?: string; reason?: string };
+      results.push({ account, repayAmount, error: error.errorName ?? error.reason ?? error.message });
+      continue;
+    }
+
+    const receipt = await (await pool.liquidate(account, repayAmount)).wait();
+    results.push({ account, repayAmount, receipt });
+    // Global borrow ratio, hence close factor and discount, changes with every liquidation
+    params = await getLiquidationParams(matchPool);
+  }
+
+  return results;
+};
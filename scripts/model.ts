@@ -0,0 +1,407 @@
+import { BigNumber, Contract, constants } from "ethers";
+
+import { contractError, formatError } from "./errors";
+import { RATIO_PRECISION, getGlobalBorrowRatio, getLiquidationThreshold, getMaxBorrow } from "./position";
+import { MIN_LYBRA_DEPOSIT, getCollateralRatio, getDepositAmountDelta, getMintAmountDeltaC } from "./rebalance";
+
+/**
+ * Reference model of the stETH and eUSD accounting in MatchPool.sol: { mintEUSD } after every user action,
+ * the burn and withdrawal from Lybra in { withdrawStETH } and the seize math of { liquidate }. Functions are
+ * pure, each returns the state after the call and what it did, so an action can be previewed before sending it.
+ * Borrow interest and the eUSD rebase are left out, only principals are tracked
+ */
+
+const MINT_POOL_ABI = [
+  "function getAssetPrice() returns (uint256)",
+  "function checkWithdrawal(address, uint256) view returns (uint256)",
+];
+const ERC20_ABI = ["function balanceOf(address) view returns (uint256)"];
+const CONFIGURATOR_ABI = ["function getEUSDAddress() view returns (address)"];
+
+export interface ModelConfig {
+  collateralRatioLower: BigNumber;
+  collateralRatioIdeal: BigNumber;
+  maxBorrowRatio: BigNumber;
+  globalBorrowRatioLiuquidation: BigNumber;
+  closeFactor: BigNumber;
+  closeFactorNormal: BigNumber;
+  liquidationDiscount: BigNumber;
+  liquidationDiscountNormal: BigNumber;
+}
+
+export interface ModelState {
+  price: BigNumber;
+  totalSupplied: BigNumber;
+  totalDeposited: BigNumber;
+  totalMinted: BigNumber;
+  totalBorrowed: BigNumber;
+  // eUSD held by Match Pool, i.e. the most that can be burnt
+  eUSDBalance: BigNumber;
+  // Lybra keeps 0.1% of withdrawals within 3 days of the last deposit
+  punished: boolean;
+  // Of the accounts loaded or touched by an action
+  supplied: Record<string, BigNumber>;
+  principal: Record<string, BigNumber>;
+}
+
+export interface ModelEffects {
+  // stETH deposited to / withdrawn from Lybra
+  deposited: BigNumber;
+  withdrawn: BigNumber;
+  // eUSD minted / burnt in Lybra
+  minted: BigNumber;
+  burnt: BigNumber;
+  // stETH sent to the user, and kept by Lybra
+  received: BigNumber;
+  punishment: BigNumber;
+  // stETH moved from the liquidated account to the liquidator
+  seized: BigNumber;
+}
+
+export interface ModelResult {
+  state: ModelState;
+  effects: ModelEffects;
+}
+
+const noEffects = (): ModelEffects => ({
+  deposited: constants.Zero,
+  withdrawn: constants.Zero,
+  minted: constants.Zero,
+  burnt: constants.Zero,
+  received: constants.Zero,
+  punishment: constants.Zero,
+  seized: constants.Zero,
+});
+
+const addEffects = (a: ModelEffects, b: ModelEffects): ModelEffects => ({
+  deposited: a.deposited.add(b.deposited),
+  withdrawn: a.withdrawn.add(b.withdrawn),
+  minted: a.minted.add(b.minted),
+  burnt: a.burnt.add(b.burnt),
+  received: a.received.add(b.received),
+  punishment: a.punishment.add(b.punishment),
+  seized: a.seized.add(b.seized),
+});
+
+const get = (amounts: Record<string, BigNumber>, account: string) => amounts[account] ?? constants.Zero;
+
+const underflow = () => contractError("Panic", [0x11], "Panic: arithmetic underflow or overflow");
+
+const exceedAmount = (method: string, desired: BigNumber, actual: BigNumber) =>
+  contractError(
+    "ExceedAmountAllowed",
+    [desired, actual],
+    formatError("ExceedAmountAllowed", [desired, actual], method),
+  );
+
+/****** Lybra ******/
+
+const deposit = (state: ModelState, amount: BigNumber, mintAmount: BigNumber): ModelResult => {
+  if (amount.lt(MIN_LYBRA_DEPOSIT)) throw contractError("MinLybraDeposit", [], "MinLybraDeposit");
+  return {
+    state: {
+      ...state,
+      totalDeposited: state.totalDeposited.add(amount),
+      totalMinted: state.totalMinted.add(mintAmount),
+      eUSDBalance: state.eUSDBalance.add(mintAmount),
+      punished: true,
+    },
+    effects: { ...noEffects(), deposited: amount, minted: mintAmount },
+  };
+};
+
+const burn = (state: ModelState, amount: BigNumber): ModelResult => {
+  if (amount.gt(state.eUSDBalance)) {
+    throw contractError("Error", [], `Burning ${amount} eUSD, Match Pool holds ${state.eUSDBalance}`);
+  }
+  return {
+    state: { ...state, totalMinted: state.totalMinted.sub(amount), eUSDBalance: state.eUSDBalance.sub(amount) },
+    effects: { ...noEffects(), burnt: amount },
+  };
+};
+
+/**
+ * @notice Mirror of { _withdrawFromLybra }, Lybra sending the amount after punishment
+ */
+const withdrawFromLybra = (state: ModelState, config: ModelConfig, amount: BigNumber): ModelResult => {
+  const collateralRatioAfter = getCollateralRatio(
+    state.totalDeposited.sub(amount),
+    state.totalMinted,
+    state.price,
+    config.collateralRatioIdeal,
+  );
+  if (collateralRatioAfter.lt(config.collateralRatioLower)) {
+    throw contractError("InsufficientCollateral", [], "InsufficientCollateral");
+  }
+
+  const received = state.punished ? amount.mul(999).div(1000) : amount;
+  return {
+    state: { ...state, totalDeposited: state.totalDeposited.sub(amount) },
+    effects: { ...noEffects(), withdrawn: amount, received, punishment: amount.sub(received) },
+  };
+};
+
+/****** Match Pool ******/
+
+/**
+ * @notice Mirror of { mintEUSD }, run at the end of every supply, withdrawal, borrow, repayment and liquidation
+ */
+export const mintEUSD = (state: ModelState, config: ModelConfig): ModelResult => {
+  const { price } = state;
+  const ideal = config.collateralRatioIdeal;
+  const idle = state.totalSupplied.sub(state.totalDeposited);
+  const fullDeposit = state.totalDeposited.add(idle);
+
+  if (getCollateralRatio(state.totalDeposited, state.totalMinted, price, ideal).gt(ideal)) {
+    if (idle.gte(MIN_LYBRA_DEPOSIT)) {
+      return deposit(state, idle, getMintAmountDeltaC(fullDeposit, state.totalMinted, price, ideal));
+    }
+    const mintAmount = getMintAmountDeltaC(state.totalDeposited, state.totalMinted, price, ideal);
+    return {
+      state: {
+        ...state,
+        totalMinted: state.totalMinted.add(mintAmount),
+        eUSDBalance: state.eUSDBalance.add(mintAmount),
+      },
+      effects: { ...noEffects(), minted: mintAmount },
+    };
+  }
+
+  // Can mint more after depositing more, even if the current collateral ratio <= { collateralRatioIdeal }
+  if (idle.gte(MIN_LYBRA_DEPOSIT) && getCollateralRatio(fullDeposit, state.totalMinted, price, ideal).gt(ideal)) {
+    return deposit(state, idle, getMintAmountDeltaC(fullDeposit, state.totalMinted, price, ideal));
+  }
+  return { state, effects: noEffects() };
+};
+
+/**
+ * @notice Mirror of { supplyStETH } and { supplyETH }, supply limit aside
+ */
+export const supply = (state: ModelState, config: ModelConfig, account: string, amount: BigNumber): ModelResult => {
+  const supplied = {
+    ...state,
+    totalSupplied: state.totalSupplied.add(amount),
+    supplied: { ...state.supplied, [account]: get(state.supplied, account).add(amount) },
+  };
+  return mintEUSD(supplied, config);
+};
+
+/**
+ * @notice Mirror of { withdrawStETH }: idle stETH first, then withdrawing the rest from Lybra,
+ *  burning eUSD first when the withdrawal would take the vault below { collateralRatioIdeal }
+ * @dev The { stETHWithdrew } event reports { amount } minus what Lybra sent as punishment,
+ *  i.e. idle stETH included, { effects.punishment } is only the part Lybra kept
+ */
+export const withdrawStETH = (
+  state: ModelState,
+  config: ModelConfig,
+  account: string,
+  amount: BigNumber,
+): ModelResult => {
+  const { price } = state;
+  const ideal = config.collateralRatioIdeal;
+  const supplied = get(state.supplied, account);
+  const principal = get(state.principal, account);
+
+  let withdrawable = supplied;
+  if (principal.gt(0)) {
+    const locked = principal.mul(ideal).div(config.maxBorrowRatio).mul(constants.WeiPerEther).div(price);
+    if (locked.gt(supplied)) throw underflow();
+    withdrawable = supplied.sub(locked);
+  }
+  if (amount.gt(withdrawable)) throw exceedAmount("withdrawStETH", amount, withdrawable);
+
+  const idle = state.totalSupplied.sub(state.totalDeposited);
+  let next: ModelState = {
+    ...state,
+    totalSupplied: state.totalSupplied.sub(amount),
+    supplied: { ...state.supplied, [account]: supplied.sub(amount) },
+  };
+  let effects = noEffects();
+
+  if (idle.lt(amount)) {
+    const fromLybra = amount.sub(idle);
+    const withdrawableFromLybra = getDepositAmountDelta(state.totalDeposited, state.totalMinted, price, ideal);
+    if (fromLybra.gt(withdrawableFromLybra)) {
+      const burnt = burn(
+        next,
+        getMintAmountDeltaC(state.totalDeposited.sub(fromLybra), state.totalMinted, price, ideal),
+      );
+      next = burnt.state;
+      effects = addEffects(effects, burnt.effects);
+    }
+
+    const withdrawn = withdrawFromLybra(next, config, fromLybra);
+    next = withdrawn.state;
+    effects = addEffects(effects, { ...withdrawn.effects, received: idle.add(withdrawn.effects.received) });
+  } else {
+    effects.received = amount;
+  }
+
+  const minted = mintEUSD(next, config);
+  return { state: minted.state, effects: addEffects(effects, minted.effects) };
+};
+
+/**
+ * @notice Mirror of { borrowEUSD }
+ */
+export const borrow = (state: ModelState, config: ModelConfig, account: string, amount: BigNumber): ModelResult => {
+  const maxBorrow = getMaxBorrow(
+    get(state.supplied, account),
+    state.price,
+    config.maxBorrowRatio,
+    config.collateralRatioIdeal,
+  );
+  const available = state.totalMinted.sub(state.totalBorrowed);
+  const newBorrowAmount = get(state.principal, account).add(amount);
+  if (newBorrowAmount.gt(maxBorrow)) throw exceedAmount("borrowEUSD", newBorrowAmount, maxBorrow);
+  if (amount.gt(available)) throw exceedAmount("borrowEUSD", amount, available);
+
+  const borrowed = {
+    ...state,
+    totalBorrowed: state.totalBorrowed.add(amount),
+    eUSDBalance: state.eUSDBalance.sub(amount),
+    principal: { ...state.principal, [account]: newBorrowAmount },
+  };
+  return mintEUSD(borrowed, config);
+};
+
+/**
+ * @notice Mirror of { repayEUSD }, with no principal the whole amount goes to the treasury as interest
+ */
+export const repay = (state: ModelState, config: ModelConfig, account: string, amount: BigNumber): ModelResult => {
+  const principal = get(state.principal, account);
+  if (principal.isZero()) return { state, effects: noEffects() };
+
+  const repaid = amount.gt(principal) ? principal : amount;
+  const next = {
+    ...state,
+    totalBorrowed: state.totalBorrowed.sub(repaid),
+    // Spare amount is sent on to the treasury
+    eUSDBalance: state.eUSDBalance.add(repaid),
+    principal: { ...state.principal, [account]: principal.sub(repaid) },
+  };
+  return mintEUSD(next, config);
+};
+
+/**
+ * @notice Mirror of { liquidate }
+ * @dev The principal of { liquidator } rather than { account } is checked against the liquidation threshold
+ *  and sets the max. repay, mirrored here as is
+ */
+export const liquidate = (
+  state: ModelState,
+  config: ModelConfig,
+  liquidator: string,
+  account: string,
+  repayAmount: BigNumber,
+): ModelResult => {
+  const { price } = state;
+  const ideal = config.collateralRatioIdeal;
+  const liquidatorPrincipal = get(state.principal, liquidator);
+  if (liquidatorPrincipal.lte(getLiquidationThreshold(get(state.supplied, account), price, ideal))) {
+    throw contractError("HealthyAccount", [], "HealthyAccount");
+  }
+
+  const globalBorrowRatio = getGlobalBorrowRatio(
+    state.totalBorrowed,
+    state.totalSupplied,
+    price,
+    config.maxBorrowRatio,
+    ideal,
+  );
+  const isLow = globalBorrowRatio.lt(config.globalBorrowRatioLiuquidation);
+  const closeFactor = isLow ? config.closeFactor : config.closeFactorNormal;
+  const discount = isLow ? config.liquidationDiscount : config.liquidationDiscountNormal;
+
+  const maxRepay = liquidatorPrincipal.mul(closeFactor).div(RATIO_PRECISION);
+  if (repayAmount.gt(maxRepay)) throw exceedAmount("liquidate", repayAmount, maxRepay);
+
+  // repayEUSD() runs mintEUSD() already, on the supply before seizing
+  const repaid = repay(state, config, account, repayAmount);
+  const seized = repayAmount.mul(discount).mul(constants.WeiPerEther).div(RATIO_PRECISION).div(price);
+  const supplied = get(repaid.state.supplied, account);
+  if (seized.gt(supplied)) throw underflow();
+
+  const next = {
+    ...repaid.state,
+    supplied: {
+      ...repaid.state.supplied,
+      [account]: supplied.sub(seized),
+      [liquidator]: get(repaid.state.supplied, liquidator).add(seized),
+    },
+  };
+  const minted = mintEUSD(next, config);
+  return {
+    state: minted.state,
+    effects: addEffects(addEffects(repaid.effects, minted.effects), { ...noEffects(), seized }),
+  };
+};
+
+/****** Loading ******/
+
+export const loadModelConfig = async (matchPool: Contract): Promise<ModelConfig> => {
+  const [lower, ideal, maxBorrowRatio, threshold, closeFactor, closeFactorNormal, discount, discountNormal] =
+    await Promise.all([
+      matchPool.collateralRatioLower(),
+      matchPool.collateralRatioIdeal(),
+      matchPool.maxBorrowRatio(),
+      matchPool.globalBorrowRatioLiuquidation(),
+      matchPool.closeFactor(),
+      matchPool.closeFactorNormal(),
+      matchPool.liquidationDiscount(),
+      matchPool.liquidationDiscountNormal(),
+    ]);
+
+  return {
+    collateralRatioLower: lower,
+    collateralRatioIdeal: ideal,
+    maxBorrowRatio,
+    globalBorrowRatioLiuquidation: threshold,
+    closeFactor,
+    closeFactorNormal,
+    liquidationDiscount: discount,
+    liquidationDiscountNormal: discountNormal,
+  };
+};
+
+/**
+ * @notice Reads the state of Match Pool and the positions of { accounts } into the model
+ */
+export const loadModelState = async (matchPool: Contract, accounts: string[]): Promise<ModelState> => {
+  const vault: string = await matchPool.getMintPool();
+  const mintPool = new Contract(vault, MINT_POOL_ABI, matchPool.provider);
+  const configurator = new Contract(await matchPool.lybraConfigurator(), CONFIGURATOR_ABI, matchPool.provider);
+  const eUSD = new Contract(await configurator.getEUSDAddress(), ERC20_ABI, matchPool.provider);
+
+  const [price, totalSupplied, totalDeposited, totalMinted, totalBorrowed, eUSDBalance, withdrawal] = await Promise.all(
+    [
+      mintPool.callStatic.getAssetPrice(),
+      matchPool.totalSupplied(vault),
+      matchPool.totalDeposited(vault),
+      matchPool.totalMinted(vault),
+      matchPool.totalBorrowed(vault),
+      eUSD.balanceOf(matchPool.address),
+      mintPool.checkWithdrawal(matchPool.address, constants.WeiPerEther),
+    ],
+  );
+
+  const supplied: Record<string, BigNumber> = {};
+  const principal: Record<string, BigNumber> = {};
+  for (const account of accounts) {
+    supplied[account] = await matchPool.supplied(vault, account);
+    principal[account] = (await matchPool.borrowed(vault, account)).principal;
+  }
+
+  return {
+    price,
+    totalSupplied,
+    totalDeposited,
+    totalMinted,
+    totalBorrowed,
+    eUSDBalance,
+    punished: withdrawal.lt(constants.WeiPerEther),
+    supplied,
+    principal,
+  };
+};
@@ -0,0 +1,335 @@
+import { BigNumber, Contract, utils } from "ethers";
+import * as fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { readStorageVariable } from "./storage";
+
+/**
+ * Risk parameters of Match Pool and Reward Manager, kept per network in { PARAMS_FILE }
+ * in human units: percents for ratios, shares and rates, USD for limits.
+ * Every group is optional, only the ones present in the file are compared and applied
+ */
+
+export const PARAMS_FILE = "info/params.json";
+
+const YEAR = 365 * 24 * 3600;
+
+type Value = number | string;
+
+export interface Range {
+  lower: Value;
+  ideal: Value;
+  upper: Value;
+}
+
+export interface MatchPoolParams {
+  dlpRatio?: Range;
+  collateralRatio?: Range;
+  borrowRatePerYear?: Value;
+  borrowRatio?: {
+    max: Value;
+    globalThreshold: Value;
+    globalLiquidation: Value;
+  };
+  liquidation?: {
+    discount: Value;
+    closeFactor: Value;
+  };
+  liquidationNormal?: {
+    discount: Value;
+    closeFactor: Value;
+  };
+  stakeLimit?: Value;
+  supplyLimit?: Value;
+  monitor?: string;
+}
+
+export interface RewardManagerParams {
+  rewardShares?: {
+    treasury: Value;
+    staker: Value;
+  };
+  treasury?: string;
+}
+
+export interface RiskParams {
+  MatchPool?: MatchPoolParams;
+  RewardManager?: RewardManagerParams;
+}
+
+export interface ParamChange {
+  name: string;
+  current: string;
+  desired: string;
+  changed: boolean;
+}
+
+export interface SetterCall {
+  contract: "MatchPool" | "RewardManager";
+  method: string;
+  args: (BigNumber | string)[];
+  // All values set by { method }, changed or not
+  values: ParamChange[];
+  changed: boolean;
+}
+
+// Decimals of the human units in contract units
+// dlp ratios are out of 10000, i.e. percents with 2 decimals
+const BASIS_POINTS = 2;
+// Collateral/borrow ratios, discounts and close factors are percents scaled in 1e18
+const PERCENT = 18;
+// Borrow rate is a yearly fraction scaled in 1e18, i.e. percents scaled in 1e16
+const RATE = 16;
+// Limits are USD values scaled in 1e18
+const USD = 18;
+
+const toBasisPoints = (value: Value) => utils.parseUnits(String(value), BASIS_POINTS);
+const fromBasisPoints = (value: BigNumber) => utils.formatUnits(value, BASIS_POINTS);
+const toPercent = (value: Value) => utils.parseUnits(String(value), PERCENT);
+const fromPercent = (value: BigNumber) => utils.formatUnits(value, PERCENT);
+const toUSD = (value: Value) => utils.parseUnits(String(value), USD);
+const fromUSD = (value: BigNumber) => utils.formatUnits(value, USD);
+
+/**
+ * @notice Networks without an entry are refused rather than compared with or set to another network's values
+ */
+export const readParams = (network: string, file = PARAMS_FILE): RiskParams => {
+  const all: Record<string, RiskParams> = JSON.parse(fs.readFileSync(file, "utf-8"));
+  const params = all[network];
+  if (!params) {
+    throw new Error(
+      `No parameters for ${network} in ${file}, only for ${Object.keys(all).join(", ")}. ` +
+        `Add a "${network}" entry with the values to keep on-chain first`,
+    );
+  }
+  return params;
+};
+
+/**
+ * @notice Checks { params } before anything is sent, throwing with every problem found. Values that
+ *  can't be converted to contract units are reported alone
+ */
+export const validateParams = (params: RiskParams) => {
+  const errors: string[] = [];
+  const pool = params.MatchPool ?? {};
+  const manager = params.RewardManager ?? {};
+
+  const checkOrder = (name: string, range: Range) => {
+    const [lower, ideal, upper] = [range.lower, range.ideal, range.upper].map(Number);
+    if (!(lower < ideal && ideal < upper)) errors.push(`${name}: lower < ideal < upper is required`);
+  };
+  const checkBetween = (name: string, value: Value, min: number, max: number) => {
+    const n = Number(value);
+    if (isNaN(n) || n < min || n > max) errors.push(`${name}: ${value} is not within [${min}, ${max}]`);
+  };
+  const checkAddress = (name: string, value: string) => {
+    if (!utils.isAddress(value)) errors.push(`${name}: ${value} is not an address`);
+  };
+
+  // Values with more decimals than their contract unit can't be converted, nor range checked
+  const numbers: [string, Value | undefined, number][] = [
+    ["dlpRatio.lower", pool.dlpRatio?.lower, BASIS_POINTS],
+    ["dlpRatio.ideal", pool.dlpRatio?.ideal, BASIS_POINTS],
+    ["dlpRatio.upper", pool.dlpRatio?.upper, BASIS_POINTS],
+    ["collateralRatio.lower", pool.collateralRatio?.lower, PERCENT],
+    ["collateralRatio.ideal", pool.collateralRatio?.ideal, PERCENT],
+    ["collateralRatio.upper", pool.collateralRatio?.upper, PERCENT],
+    ["borrowRatePerYear", pool.borrowRatePerYear, RATE],
+    ["borrowRatio.max", pool.borrowRatio?.max, PERCENT],
+    ["borrowRatio.globalThreshold", pool.borrowRatio?.globalThreshold, PERCENT],
+    ["borrowRatio.globalLiquidation", pool.borrowRatio?.globalLiquidation, PERCENT],
+    ["liquidation.discount", pool.liquidation?.discount, PERCENT],
+    ["liquidation.closeFactor", pool.liquidation?.closeFactor, PERCENT],
+    ["liquidationNormal.discount", pool.liquidationNormal?.discount, PERCENT],
+    ["liquidationNormal.closeFactor", pool.liquidationNormal?.closeFactor, PERCENT],
+    ["stakeLimit", pool.stakeLimit, USD],
+    ["supplyLimit", pool.supplyLimit, USD],
+  ];
+  for (const [name, value, decimals] of numbers) {
+    if (value == undefined) continue;
+    try {
+      utils.parseUnits(String(value), decimals);
+    } catch (e) {
+      errors.push(`${name}: ${value} is not a number with at most ${decimals} decimals`);
+    }
+  }
+  if (errors.length > 0) throw new Error(`Invalid parameters:\n  ${errors.join("\n  ")}`);
+
+  if (pool.dlpRatio) {
+    checkOrder("dlpRatio", pool.dlpRatio);
+    checkBetween("dlpRatio.lower", pool.dlpRatio.lower, 0, 100);
+    checkBetween("dlpRatio.upper", pool.dlpRatio.upper, 0, 100);
+  }
+  if (pool.collateralRatio) {
+    checkOrder("collateralRatio", pool.collateralRatio);
+    // Lybra vault is under water below 100%
+    checkBetween("collateralRatio.lower", pool.collateralRatio.lower, 100, Infinity);
+  }
+  if (pool.borrowRatePerYear != undefined) checkBetween("borrowRatePerYear", pool.borrowRatePerYear, 0, 100);
+  if (pool.borrowRatio) {
+    const { max, globalThreshold, globalLiquidation } = pool.borrowRatio;
+    checkBetween("borrowRatio.max", max, 0, 100);
+    // Otherwise accounts can borrow past the liquidation threshold
+    if (Number(max) >= 100) errors.push("borrowRatio.max: has to be below 100");
+    checkBetween("borrowRatio.globalThreshold", globalThreshold, 0, 100);
+    checkBetween("borrowRatio.globalLiquidation", globalLiquidation, 0, 100);
+  }
+  for (const key of ["liquidation", "liquidationNormal"] as const) {
+    const liquidation = pool[key];
+    if (!liquidation) continue;
+    // Liquidator gets { discount } worth of stETH per eUSD repaid
+    checkBetween(`${key}.discount`, liquidation.discount, 100, 200);
+    checkBetween(`${key}.closeFactor`, liquidation.closeFactor, 0, 100);
+  }
+  if (pool.stakeLimit != undefined) checkBetween("stakeLimit", pool.stakeLimit, 0, Infinity);
+  if (pool.supplyLimit != undefined) checkBetween("supplyLimit", pool.supplyLimit, 0, Infinity);
+  if (pool.monitor != undefined) checkAddress("monitor", pool.monitor);
+
+  if (manager.rewardShares) {
+    const { treasury, staker } = manager.rewardShares;
+    if (!Number.isInteger(Number(treasury)) || !Number.isInteger(Number(staker))) {
+      errors.push("rewardShares: shares are whole percents");
+    }
+    if (Number(treasury) < 0 || Number(staker) < 0 || Number(treasury) + Number(staker) > 100) {
+      errors.push("rewardShares: treasury + staker has to be within [0, 100]");
+    }
+  }
+  if (manager.treasury != undefined) checkAddress("treasury", manager.treasury);
+
+  if (errors.length > 0) throw new Error(`Invalid parameters:\n  ${errors.join("\n  ")}`);
+};
+
+/**
+ * @notice Reads the current value of every parameter in { params } and pairs it with its setter
+ * @dev Values are compared in contract units, so rounding in human units never shows as a change
+ */
+export const getSetterCalls = async (
+  hre: HardhatRuntimeEnvironment,
+  matchPool: Contract,
+  rewardManager: Contract,
+  params: RiskParams,
+) => {
+  const calls: SetterCall[] = [];
+  const pool = params.MatchPool ?? {};
+  const manager = params.RewardManager ?? {};
+
+  const push = (
+    contract: SetterCall["contract"],
+    method: string,
+    entries: [string, BigNumber | string, BigNumber | string, (value: BigNumber) => string][],
+  ) => {
+    const show = (value: BigNumber | string, format: (value: BigNumber) => string) =>
+      typeof value == "string" ? value : format(value);
+    const values = entries.map(([name, current, desired, format]) => ({
+      name,
+      current: show(current, format),
+      desired: show(desired, format),
+      changed:
+        typeof current == "string"
+          ? current.toLowerCase() != (desired as string).toLowerCase()
+          : !current.eq(desired as BigNumber),
+    }));
+    const changed = values.some((value) => value.changed);
+    calls.push({ contract, method, args: entries.map(([, , desired]) => desired), values, changed });
+  };
+
+  if (pool.dlpRatio) {
+    // setDlpRatioRange(lower, upper, ideal)
+    push("MatchPool", "setDlpRatioRange", [
+      ["dlpRatioLower", await matchPool.dlpRatioLower(), toBasisPoints(pool.dlpRatio.lower), fromBasisPoints],
+      ["dlpRatioUpper", await matchPool.dlpRatioUpper(), toBasisPoints(pool.dlpRatio.upper), fromBasisPoints],
+      ["dlpRatioIdeal", await matchPool.dlpRatioIdeal(), toBasisPoints(pool.dlpRatio.ideal), fromBasisPoints],
+    ]);
+  }
+  if (pool.collateralRatio) {
+    const { lower, upper, ideal } = pool.collateralRatio;
+    push("MatchPool", "setCollateralRatioRange", [
+      ["collateralRatioLower", await matchPool.collateralRatioLower(), toPercent(lower), fromPercent],
+      ["collateralRatioUpper", await matchPool.collateralRatioUpper(), toPercent(upper), fromPercent],
+      ["collateralRatioIdeal", await matchPool.collateralRatioIdeal(), toPercent(ideal), fromPercent],
+    ]);
+  }
+  if (pool.borrowRatePerYear != undefined) {
+    // Only the per second rate is stored, compare that one and send the yearly rate
+    const current: BigNumber = await matchPool.borrowRatePerSec();
+    const desired = utils.parseUnits(String(pool.borrowRatePerYear), RATE);
+    const changed = !current.eq(desired.div(YEAR));
+    calls.push({
+      contract: "MatchPool",
+      method: "setBorrowRate",
+      args: [desired],
+      values: [
+        {
+          name: "borrowRatePerYear",
+          current: utils.formatUnits(current.mul(YEAR), RATE),
+          desired: utils.formatUnits(desired, RATE),
+          changed,
+        },
+      ],
+      changed,
+    });
+  }
+  if (pool.borrowRatio) {
+    const { max, globalThreshold, globalLiquidation } = pool.borrowRatio;
+    push("MatchPool", "setBorrowRatio", [
+      ["maxBorrowRatio", await matchPool.maxBorrowRatio(), toPercent(max), fromPercent],
+      [
+        "globalBorrowRatioThreshold",
+        await matchPool.globalBorrowRatioThreshold(),
+        toPercent(globalThreshold),
+        fromPercent,
+      ],
+      [
+        "globalBorrowRatioLiuquidation",
+        await matchPool.globalBorrowRatioLiuquidation(),
+        toPercent(globalLiquidation),
+        fromPercent,
+      ],
+    ]);
+  }
+  if (pool.liquidation) {
+    push("MatchPool", "setLiquidationParams", [
+      ["liquidationDiscount", await matchPool.liquidationDiscount(), toPercent(pool.liquidation.discount), fromPercent],
+      ["closeFactor", await matchPool.closeFactor(), toPercent(pool.liquidation.closeFactor), fromPercent],
+    ]);
+  }
+  if (pool.liquidationNormal) {
+    const { discount, closeFactor } = pool.liquidationNormal;
+    push("MatchPool", "setLiquidationParamsNormal", [
+      ["liquidationDiscountNormal", await matchPool.liquidationDiscountNormal(), toPercent(discount), fromPercent],
+      ["closeFactorNormal", await matchPool.closeFactorNormal(), toPercent(closeFactor), fromPercent],
+    ]);
+  }
+
+  // No getters for limits and monitor, read from storage
+  const readMatchPool = (label: string) => readStorageVariable(hre, "MatchPool", matchPool.address, label);
+  const readManager = (label: string) => readStorageVariable(hre, "RewardManager", rewardManager.address, label);
+
+  if (pool.stakeLimit != undefined) {
+    const current = (await readMatchPool("stakeLimit")) as BigNumber;
+    push("MatchPool", "setStakeLimit", [["stakeLimit", current, toUSD(pool.stakeLimit), fromUSD]]);
+  }
+  if (pool.supplyLimit != undefined) {
+    const current = (await readMatchPool("supplyLimit")) as BigNumber;
+    push("MatchPool", "setSupplyLimit", [["supplyLimit", current, toUSD(pool.supplyLimit), fromUSD]]);
+  }
+  if (pool.monitor != undefined) {
+    const current = (await readMatchPool("monitor")) as string;
+    push("MatchPool", "setMonitor", [["monitor", current, utils.getAddress(pool.monitor), String]]);
+  }
+
+  if (manager.rewardShares) {
+    const { treasury, staker } = manager.rewardShares;
+    push("RewardManager", "setMiningRewardShares", [
+      ["treasuryShare", (await readManager("treasuryShare")) as BigNumber, BigNumber.from(treasury), String],
+      ["stakerShare", (await readManager("stakerShare")) as BigNumber, BigNumber.from(staker), String],
+    ]);
+  }
+  if (manager.treasury != undefined) {
+    push("RewardManager", "setTreasury", [
+      ["treasury", await rewardManager.treasury(), utils.getAddress(manager.treasury), String],
+    ]);
+  }
+
+  return calls;
+};
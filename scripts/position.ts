@@ -0,0 +1,188 @@
+import { BigNumber, Contract, Signer, constants } from "ethers";
+
+/**
+ * Mirror of the borrow math in MatchPool.sol for a single account, i.e. what
+ * { withdrawStETH }, { borrowEUSD } and { liquidate } would allow at the current price
+ */
+
+const REWARD_MANAGER_ABI = [
+  "function dlpRewardPool() view returns (address)",
+  "function miningIncentive() view returns (address)",
+  "function earned(address, address) view returns (uint256)",
+];
+const MINT_POOL_ABI = ["function getAssetPrice() returns (uint256)"];
+
+// Borrow ratios are out of 1e20, e.g. 85e18 -> 85%
+export const RATIO_PRECISION = BigNumber.from(10).pow(20);
+
+export interface BorrowInfo {
+  principal: BigNumber;
+  // Part of { principal } being charged interest
+  interestAmount: BigNumber;
+  accInterest: BigNumber;
+  interestTimestamp: BigNumber;
+}
+
+export interface SuppliedAmount {
+  mintPool: string;
+  amount: BigNumber;
+}
+
+export interface Position {
+  account: string;
+  // Mint pool all borrow metrics below refer to, i.e. { getMintPool() }
+  vault: string;
+  price: BigNumber;
+  staked: BigNumber;
+  supplied: SuppliedAmount[];
+  borrowed: BorrowInfo;
+  // Interest accrued since { interestTimestamp }, not yet added to { accInterest }
+  pendingInterest: BigNumber;
+  withdrawable: BigNumber;
+  maxBorrow: BigNumber;
+  // Capped by { maxBorrowRatio } only, borrowing also requires enough eUSD minted but not lent out
+  borrowCapacity: BigNumber;
+  liquidationThreshold: BigNumber;
+  // Negative once { principal } exceeds { liquidationThreshold }
+  distanceToLiquidation: BigNumber;
+  // { principal } past { liquidationThreshold }, i.e. what liquidate() is meant to check
+  underwater: boolean;
+  // liquidate() checks the principal of the liquidator instead of { principal }, { liquidatable } tells
+  // whether { liquidator } would get past that check
+  liquidator: string;
+  liquidatorPrincipal: BigNumber;
+  liquidatable: boolean;
+  rewards: {
+    dlp: BigNumber;
+    lsd: BigNumber;
+  };
+}
+
+/**
+ * @return Max. eUSD that can be borrowed against { supplied } stETH
+ */
+export const getMaxBorrow = (supplied: BigNumber, price: BigNumber, maxBorrowRatio: BigNumber, ideal: BigNumber) => {
+  return supplied.mul(price).mul(maxBorrowRatio).div(ideal).div(constants.WeiPerEther);
+};
+
+/**
+ * @return Amount of stETH that can be withdrawn while keeping { principal } borrowed
+ */
+export const getWithdrawable = (
+  supplied: BigNumber,
+  principal: BigNumber,
+  price: BigNumber,
+  maxBorrowRatio: BigNumber,
+  ideal: BigNumber,
+) => {
+  if (principal.isZero()) return supplied;
+
+  const locked = principal.mul(ideal).div(maxBorrowRatio).mul(constants.WeiPerEther).div(price);
+  // withdrawStETH() underflows instead once the account is under water
+  return supplied.gt(locked) ? supplied.sub(locked) : constants.Zero;
+};
+
+/**
+ * @return Amount of eUSD an account has to borrow more than in order to be liquidated
+ */
+export const getLiquidationThreshold = (supplied: BigNumber, price: BigNumber, ideal: BigNumber) => {
+  return supplied.mul(price).mul(100).div(ideal);
+};
+
+/**
+ * @return Whether liquidate() by a liquidator with { liquidatorPrincipal } borrowed gets past its health
+ *  check against an account with { liquidationThreshold }
+ */
+export const isLiquidatable = (liquidationThreshold: BigNumber, liquidatorPrincipal: BigNumber) => {
+  return liquidatorPrincipal.gt(liquidationThreshold);
+};
+
+/**
+ * @return Signer of { matchPool }, liquidate() being called from it, the zero address without one
+ */
+export const getDefaultLiquidator = async (matchPool: Contract) => {
+  return Signer.isSigner(matchPool.signer) ? matchPool.signer.getAddress() : constants.AddressZero;
+};
+
+/**
+ * @return Global borrow ratio out of 1e20, the one picking liquidation params and charging interest
+ */
+export const getGlobalBorrowRatio = (
+  totalBorrowed: BigNumber,
+  totalSupplied: BigNumber,
+  price: BigNumber,
+  maxBorrowRatio: BigNumber,
+  ideal: BigNumber,
+) => {
+  const maxBorrow = getMaxBorrow(totalSupplied, price, maxBorrowRatio, ideal);
+  if (maxBorrow.isZero()) return constants.Zero;
+  return totalBorrowed.mul(RATIO_PRECISION).div(maxBorrow);
+};
+
+/**
+ * @notice Collects everything Match Pool knows about { account } in one go
+ * @param liquidator Defaults to the signer of { matchPool }, the zero address without one
+ */
+export const getPosition = async (matchPool: Contract, account: string, liquidator?: string): Promise<Position> => {
+  const { provider } = matchPool;
+  liquidator ??= await getDefaultLiquidator(matchPool);
+  const vault: string = await matchPool.getMintPool();
+  const mintPool = new Contract(vault, MINT_POOL_ABI, provider);
+  const manager = new Contract(await matchPool.rewardManager(), REWARD_MANAGER_ABI, provider);
+
+  const supplied: SuppliedAmount[] = [];
+  for (let i = 0; ; ++i) {
+    let pool: string;
+    try {
+      pool = await matchPool.mintPools(i);
+    } catch (e) {
+      break;
+    }
+    supplied.push({ mintPool: pool, amount: await matchPool.supplied(pool, account) });
+  }
+
+  const [price, staked, suppliedAmount, info, pendingInterest, maxBorrowRatio, ideal] = await Promise.all([
+    mintPool.callStatic.getAssetPrice(),
+    matchPool.staked(account),
+    matchPool.supplied(vault, account),
+    matchPool.borrowed(vault, account),
+    matchPool.getAccInterest(account),
+    matchPool.maxBorrowRatio(),
+    matchPool.collateralRatioIdeal(),
+  ]);
+  const liquidatorPrincipal: BigNumber =
+    liquidator == account ? info.principal : (await matchPool.borrowed(vault, liquidator)).principal;
+  const [dlp, lsd] = await Promise.all([
+    manager.earned(account, await manager.dlpRewardPool()),
+    manager.earned(account, await manager.miningIncentive()),
+  ]);
+
+  const borrowed: BorrowInfo = {
+    principal: info.principal,
+    interestAmount: info.interestAmount,
+    accInterest: info.accInterest,
+    interestTimestamp: info.interestTimestamp,
+  };
+  const maxBorrow = getMaxBorrow(suppliedAmount, price, maxBorrowRatio, ideal);
+  const liquidationThreshold = getLiquidationThreshold(suppliedAmount, price, ideal);
+
+  return {
+    account,
+    vault,
+    price,
+    staked,
+    supplied,
+    borrowed,
+    pendingInterest,
+    withdrawable: getWithdrawable(suppliedAmount, borrowed.principal, price, maxBorrowRatio, ideal),
+    maxBorrow,
+    borrowCapacity: maxBorrow.gt(borrowed.principal) ? maxBorrow.sub(borrowed.principal) : constants.Zero,
+    liquidationThreshold,
+    distanceToLiquidation: liquidationThreshold.sub(borrowed.principal),
+    underwater: borrowed.principal.gt(liquidationThreshold),
+    liquidator,
+    liquidatorPrincipal,
+    liquidatable: isLiquidatable(liquidationThreshold, liquidatorPrincipal),
+    rewards: { dlp, lsd },
+  };
+};
@@ -0,0 +1,193 @@
+import { BigNumber, Contract, ContractReceipt, Signer, constants } from "ethers";
+
+/**
+ * Mirror of the collateral ratio math in MatchPool.sol, used by the monitor to
+ * work out which of { monitorDeposit, monitorWithdraw, monitorMint, monitorBurn }
+ * brings the Lybra vault back to { collateralRatioIdeal }
+ */
+
+// Lybra restricts deposits with a min. amount of 1 stETH
+export const MIN_LYBRA_DEPOSIT = constants.WeiPerEther;
+
+const ERC20_ABI = ["function balanceOf(address) view returns (uint256)"];
+const CONFIGURATOR_ABI = ["function getEUSDAddress() view returns (address)"];
+
+export type MonitorMethod = "monitorDeposit" | "monitorWithdraw" | "monitorMint" | "monitorBurn";
+
+export interface MonitorAction {
+  method: MonitorMethod;
+  args: BigNumber[];
+}
+
+export interface VaultState {
+  vault: string;
+  // Price of stETH, scaled in 1e18
+  price: BigNumber;
+  supplied: BigNumber;
+  deposited: BigNumber;
+  minted: BigNumber;
+  borrowed: BigNumber;
+  // eUSD held by Match Pool, i.e. the most that can be burnt
+  eUSDBalance: BigNumber;
+  // Collateral ratios are scaled in 1e18, e.g. 200e18 -> 200%
+  collateralRatio: BigNumber;
+  collateralRatioLower: BigNumber;
+  collateralRatioUpper: BigNumber;
+  collateralRatioIdeal: BigNumber;
+}
+
+export interface RebalancePlan {
+  state: VaultState;
+  actions: MonitorAction[];
+  collateralRatioAfter: BigNumber;
+  warnings: string[];
+}
+
+// Withdraw stETH instead of minting more eUSD when the vault is over-collateralized
+export type RebalancePreference = "mint" | "withdraw";
+
+export const getCollateralRatio = (deposited: BigNumber, minted: BigNumber, price: BigNumber, ideal: BigNumber) => {
+  if (minted.isZero()) return ideal;
+  return deposited.mul(price).mul(100).div(minted);
+};
+
+/**
+ * @return Amount of stETH to deposit (1st) or withdraw (2nd) to achieve { collateralRatioIdeal }
+ */
+export const getDepositAmountDelta = (deposited: BigNumber, minted: BigNumber, price: BigNumber, ideal: BigNumber) => {
+  const newDeposited = ideal.mul(minted).div(price).div(100);
+  return newDeposited.gt(deposited) ? newDeposited.sub(deposited).add(1) : deposited.sub(newDeposited);
+};
+
+/**
+ * @return Amount of eUSD to mint (1st) or burn (2nd) to achieve { collateralRatioIdeal }
+ */
+export const getMintAmountDeltaC = (deposited: BigNumber, minted: BigNumber, price: BigNumber, ideal: BigNumber) => {
+  const newMinted = deposited.mul(price).mul(100).div(ideal);
+  return newMinted.gt(minted) ? newMinted.sub(minted) : minted.sub(newMinted);
+};
+
+const min = (x: BigNumber, y: BigNumber) => (x.lt(y) ? x : y);
+const max = (x: BigNumber, y: BigNumber) => (x.gt(y) ? x : y);
+
+export const getVaultState = async (matchPool: Contract, mintPool: Contract): Promise<VaultState> => {
+  const vault = mintPool.address;
+  const configurator = new Contract(await matchPool.lybraConfigurator(), CONFIGURATOR_ABI, matchPool.provider);
+  const eUSD = new Contract(await configurator.getEUSDAddress(), ERC20_ABI, matchPool.provider);
+
+  const [price, supplied, deposited, minted, borrowed, eUSDBalance, lower, upper, ideal] = await Promise.all([
+    mintPool.callStatic.getAssetPrice(),
+    matchPool.totalSupplied(vault),
+    matchPool.totalDeposited(vault),
+    matchPool.totalMinted(vault),
+    matchPool.totalBorrowed(vault),
+    eUSD.balanceOf(matchPool.address),
+    matchPool.collateralRatioLower(),
+    matchPool.collateralRatioUpper(),
+    matchPool.collateralRatioIdeal(),
+  ]);
+
+  return {
+    vault,
+    price,
+    supplied,
+    deposited,
+    minted,
+    borrowed,
+    eUSDBalance,
+    collateralRatio: getCollateralRatio(deposited, minted, price, ideal),
+    collateralRatioLower: lower,
+    collateralRatioUpper: upper,
+    collateralRatioIdeal: ideal,
+  };
+};
+
+/**
+ * @notice Works out the monitor calls that move the vault back to { collateralRatioIdeal }
+ *  once its collateral ratio leaves the [{ collateralRatioLower }, { collateralRatioUpper }] band
+ * @dev Nothing minted yet: deposit all idle stETH and mint up to { collateralRatioIdeal }.
+ *  Over-collateralized: deposit idle stETH (if any) and mint, as mintEUSD() does, or withdraw the excess.
+ *  Under-collateralized: deposit idle stETH first, then burn the eUSD still held by Match Pool
+ */
+export const planRebalance = (state: VaultState, prefer: RebalancePreference = "mint"): RebalancePlan => {
+  const { price, collateralRatioLower: lower, collateralRatioUpper: upper, collateralRatioIdeal: ideal } = state;
+  const idle = state.supplied.sub(state.deposited);
+  const actions: MonitorAction[] = [];
+  const warnings: string[] = [];
+
+  let deposited = state.deposited;
+  let minted = state.minted;
+
+  if (minted.isZero()) {
+    // Supplying alone never opens the position as the collateral ratio counts as ideal with nothing minted
+    if (idle.gte(MIN_LYBRA_DEPOSIT)) {
+      const mintAmount = getMintAmountDeltaC(deposited.add(idle), minted, price, ideal);
+      actions.push({ method: "monitorDeposit", args: [idle, mintAmount] });
+      deposited = deposited.add(idle);
+      minted = minted.add(mintAmount);
+    }
+  } else if (state.collateralRatio.gt(upper)) {
+    if (prefer == "withdraw") {
+      const amount = getDepositAmountDelta(deposited, minted, price, ideal);
+      actions.push({ method: "monitorWithdraw", args: [amount] });
+      deposited = deposited.sub(amount);
+    } else if (idle.gte(MIN_LYBRA_DEPOSIT)) {
+      const mintAmount = getMintAmountDeltaC(deposited.add(idle), minted, price, ideal);
+      actions.push({ method: "monitorDeposit", args: [idle, mintAmount] });
+      deposited = deposited.add(idle);
+      minted = minted.add(mintAmount);
+    } else {
+      const mintAmount = getMintAmountDeltaC(deposited, minted, price, ideal);
+      actions.push({ method: "monitorMint", args: [mintAmount] });
+      minted = minted.add(mintAmount);
+    }
+  } else if (state.collateralRatio.lt(lower)) {
+    if (idle.gte(MIN_LYBRA_DEPOSIT)) {
+      const needed = getDepositAmountDelta(deposited, minted, price, ideal);
+      const amount = min(idle, max(needed, MIN_LYBRA_DEPOSIT));
+      // Depositing at least 1 stETH might over-collateralize, mint the surplus in the same call
+      const mintAmount = getCollateralRatio(deposited.add(amount), minted, price, ideal).gt(ideal)
+        ? getMintAmountDeltaC(deposited.add(amount), minted, price, ideal)
+        : constants.Zero;
+      actions.push({ method: "monitorDeposit", args: [amount, mintAmount] });
+      deposited = deposited.add(amount);
+      minted = minted.add(mintAmount);
+    }
+
+    if (getCollateralRatio(deposited, minted, price, ideal).lt(ideal)) {
+      let burnAmount = getMintAmountDeltaC(deposited, minted, price, ideal);
+      if (burnAmount.gt(state.eUSDBalance)) {
+        warnings.push(`Match Pool holds ${state.eUSDBalance} eUSD, ${burnAmount} is needed to reach the ideal ratio`);
+        burnAmount = state.eUSDBalance;
+      }
+      if (!burnAmount.isZero()) {
+        actions.push({ method: "monitorBurn", args: [burnAmount] });
+        minted = minted.sub(burnAmount);
+      }
+    }
+  }
+
+  return {
+    state,
+    actions,
+    collateralRatioAfter: getCollateralRatio(deposited, minted, price, ideal),
+    warnings,
+  };
+};
+
+/**
+ * @notice Sends the planned monitor calls one by one, simulating each before sending
+ * @dev Signer has to be the { monitor } of Match Pool, otherwise calls revert with Unauthorized()
+ */
+export const executeRebalance = async (matchPool: Contract, signer: Signer, plan: RebalancePlan) => {
+  const pool = matchPool.connect(signer);
+  const receipts: ContractReceipt[] = [];
+
+  for (const action of plan.actions) {
+    await pool.callStatic[action.method](...action.args);
+    const tx = await pool[action.method](...action.args);
+    receipts.push(await tx.wait());
+  }
+
+  return receipts;
+};
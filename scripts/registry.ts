@@ -0,0 +1,270 @@
+import { constants, providers, utils } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import prettier from "prettier";
+
+/**
+ * Registry of the contracts deployed on each network, kept in info/deployments.json.
+ * Paths are resolved from the project root so tasks can run from any directory,
+ * and the file is replaced atomically so an interrupted write never leaves it truncated
+ */
+
+export const REGISTRY_FILE = path.join(__dirname, "..", "info", "deployments.json");
+
+export interface ImplementationRecord {
+  address: string;
+  recordedAt?: string;
+  // Proxy admin call pointing the proxy to this implementation, missing until the upgrade is executed
+  upgradeTx?: string;
+}
+
+export interface Deployment {
+  // Address to interact with, i.e. the proxy of upgradeable contracts
+  address: string;
+  // Constructor arguments of { address }
+  args: unknown[];
+  txHash?: string;
+  block?: number;
+  deployedAt?: string;
+  // Upgradeable contracts only, { implementation } is the one the proxy points to
+  implementation?: string;
+  // Deployed for an upgrade of the proxy not executed yet
+  pendingImplementation?: string;
+  proxyAdmin?: string;
+  implementations?: ImplementationRecord[];
+}
+
+export interface NetworkDeployments {
+  chainId: number;
+  contracts: Record<string, Deployment>;
+}
+
+export type Registry = Record<string, NetworkDeployments>;
+
+export const readRegistry = (file = REGISTRY_FILE): Registry => {
+  if (!fs.existsSync(file)) return {};
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+};
+
+/**
+ * @dev Written next to { file } then renamed over it, rename being atomic on the same filesystem.
+ *  Formatted as prettier:check expects, so that writes don't fail the lint
+ */
+export const writeRegistry = (registry: Registry, file = REGISTRY_FILE) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  const options = prettier.resolveConfig.sync(file) ?? {};
+  fs.writeFileSync(temporary, prettier.format(JSON.stringify(registry, null, 2), { ...options, filepath: file }));
+  fs.renameSync(temporary, file);
+};
+
+/**
+ * @notice Entry of { network } in { registry }, created with { chainId } if missing
+ */
+export const getNetworkDeployments = (registry: Registry, network: string, chainId: number) => {
+  const deployments = registry[network] ?? { chainId, contracts: {} };
+  if (deployments.chainId != chainId) {
+    throw new Error(`Registry holds chain ${deployments.chainId} for ${network}, not ${chainId}`);
+  }
+  registry[network] = deployments;
+  return deployments;
+};
+
+export const getDeployment = (network: string, name: string, file = REGISTRY_FILE): Deployment | undefined =>
+  readRegistry(file)[network]?.contracts[name];
+
+/**
+ * @return Address of { name } on { network }, throws if it was never deployed there
+ */
+export const getAddress = (network: string, name: string, file = REGISTRY_FILE) => {
+  const deployment = getDeployment(network, name, file);
+  if (!deployment) throw new Error(`No ${name} deployed on ${network}`);
+  return deployment.address;
+};
+
+/**
+ * @notice Records { deployment } of { name }, replacing any previous one on { network }
+ */
+export const recordDeployment = (
+  network: string,
+  chainId: number,
+  name: string,
+  deployment: Deployment,
+  file = REGISTRY_FILE,
+) => {
+  const registry = readRegistry(file);
+  getNetworkDeployments(registry, network, chainId).contracts[name] = deployment;
+  writeRegistry(registry, file);
+  return deployment;
+};
+
+const isSame = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() == b.toLowerCase();
+
+/**
+ * @notice Applies { update } to the deployment of { name } at { proxy } and writes the registry
+ */
+const updateProxy = (
+  network: string,
+  chainId: number,
+  name: string,
+  proxy: string,
+  file: string,
+  update: (deployment: Deployment, history: ImplementationRecord[]) => void,
+) => {
+  const registry = readRegistry(file);
+  const { contracts } = getNetworkDeployments(registry, network, chainId);
+  const deployment = contracts[name] ?? { address: proxy, args: [] };
+  if (!isSame(deployment.address, proxy)) {
+    throw new Error(`${name} on ${network} is recorded at ${deployment.address}, not ${proxy}`);
+  }
+  contracts[name] = deployment;
+
+  const history = deployment.implementations ?? [];
+  update(deployment, history);
+  deployment.implementations = history;
+
+  writeRegistry(registry, file);
+  return deployment;
+};
+
+const appendImplementation = (history: ImplementationRecord[], implementation: string, upgradeTx?: string) => {
+  const latest = history[history.length - 1];
+  if (latest && isSame(latest.address, implementation)) {
+    if (upgradeTx) latest.upgradeTx = upgradeTx;
+  } else {
+    history.push({ address: implementation, recordedAt: new Date().toISOString(), ...(upgradeTx && { upgradeTx }) });
+  }
+};
+
+/**
+ * @notice Records { implementation } as the one { proxy } points to, appending it to the implementation
+ *  history of { name }. { upgradeTx } is added to the latest entry once the proxy is actually upgraded
+ */
+export const recordImplementation = (
+  network: string,
+  chainId: number,
+  name: string,
+  proxy: string,
+  implementation: string,
+  upgradeTx?: string,
+  file = REGISTRY_FILE,
+) => {
+  return updateProxy(network, chainId, name, proxy, file, (deployment, history) => {
+    appendImplementation(history, implementation, upgradeTx);
+    deployment.implementation = implementation;
+    if (isSame(deployment.pendingImplementation, implementation)) delete deployment.pendingImplementation;
+  });
+};
+
+/**
+ * @notice Records { implementation } deployed for an upgrade of { proxy } that is still to be executed,
+ *  { implementation } of { name } is left as is until { recordImplementation } is called with the upgrade tx
+ */
+export const recordPendingImplementation = (
+  network: string,
+  chainId: number,
+  name: string,
+  proxy: string,
+  implementation: string,
+  file = REGISTRY_FILE,
+) => {
+  return updateProxy(network, chainId, name, proxy, file, (deployment, history) => {
+    if (isSame(deployment.implementation, implementation)) return;
+    appendImplementation(history, implementation);
+    deployment.pendingImplementation = implementation;
+  });
+};
+
+/*********************************** Migration ********************************************/
+
+export interface LegacyFiles {
+  // Network => name => address
+  address: string;
+  // Network => name => { address, args }, holding the implementation of upgradeable contracts
+  verify: string;
+  // Network => name => { proxy, history: [{ implementation, recordedAt?, upgradeTx? }] }
+  implementations: string;
+}
+
+export const LEGACY_FILES: LegacyFiles = {
+  address: path.join(__dirname, "..", "info", "address.json"),
+  verify: path.join(__dirname, "..", "info", "verify.json"),
+  implementations: path.join(__dirname, "..", "info", "implementations.json"),
+};
+
+// Deployed behind a transparent proxy, initialized rather than constructed
+export const PROXIES = ["MatchPool", "RewardManager"];
+
+// keccak256("eip1967.proxy.implementation") - 1
+export const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+export type ImplementationReader = (network: string, proxy: string) => Promise<string | undefined>;
+
+/**
+ * @return Implementation { proxy } points to, undefined if its ERC-1967 slot is empty
+ */
+export const readImplementationSlot = async (provider: providers.Provider, proxy: string) => {
+  const word = utils.hexZeroPad(await provider.getStorageAt(proxy, IMPLEMENTATION_SLOT), 32);
+  const implementation = utils.getAddress(utils.hexDataSlice(word, 12));
+  return implementation == constants.AddressZero ? undefined : implementation;
+};
+
+const readLegacy = (file: string) => (fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf-8")) : {});
+
+/**
+ * @notice Imports address.json, verify.json and implementations.json into { registry }.
+ *  Contracts already in the registry are left untouched, except proxies recorded without implementation
+ * @param chainIds Chain id of each network found in the legacy files
+ * @param readImplementation Reads the implementation slot of proxies, the legacy files lacking or
+ *  lagging behind it
+ * @return Names of the imported contracts per network
+ */
+export const migrateLegacy = async (
+  registry: Registry,
+  chainIds: Record<string, number>,
+  files = LEGACY_FILES,
+  readImplementation?: ImplementationReader,
+) => {
+  const addresses = readLegacy(files.address);
+  const verify = readLegacy(files.verify);
+  const implementations = readLegacy(files.implementations);
+  const imported: Record<string, string[]> = {};
+
+  for (const network of Object.keys(addresses)) {
+    const chainId = chainIds[network];
+    if (chainId == undefined) throw new Error(`Unknown chain id of ${network}`);
+
+    const { contracts } = getNetworkDeployments(registry, network, chainId);
+    imported[network] = [];
+
+    for (const [name, address] of Object.entries<string>(addresses[network])) {
+      const recorded = contracts[name];
+      const isProxy = PROXIES.includes(name) || !!implementations[network]?.[name];
+      if (recorded && (!isProxy || recorded.implementation)) continue;
+
+      const verified = verify[network]?.[name];
+      // verify.json holds the implementation instead of the proxy for upgradeable contracts
+      const ownArgs = verified && isSame(verified.address, address);
+      if (!isProxy) {
+        contracts[name] = { address, args: ownArgs ? verified.args : [] };
+        imported[network].push(name);
+        continue;
+      }
+
+      // Arguments recorded under the address of a proxy are the ones of its initializer
+      const history: ImplementationRecord[] = (implementations[network]?.[name]?.history ?? []).map(
+        ({ implementation, ...rest }: { implementation: string }) => ({ address: implementation, ...rest }),
+      );
+      if (history.length == 0 && verified && !ownArgs) history.push({ address: verified.address });
+      const current = await readImplementation?.(network, address);
+      if (current && !isSame(history[history.length - 1]?.address, current)) history.push({ address: current });
+
+      const deployment: Deployment = { ...recorded, address, args: [], implementations: history };
+      if (history.length > 0) deployment.implementation = history[history.length - 1].address;
+      contracts[name] = deployment;
+      imported[network].push(name);
+    }
+  }
+
+  return imported;
+};
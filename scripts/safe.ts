@@ -0,0 +1,151 @@
+import { BigNumber, utils } from "ethers";
+import * as fs from "fs";
+
+/**
+ * Batches of owner calls in the Safe Transaction Builder JSON format, to be imported and signed
+ * in the multisig owning Match Pool, Reward Manager and the proxy admin instead of being sent directly.
+ * Nothing here touches the network, calls are encoded from the contract interface alone
+ */
+
+const TX_BUILDER_VERSION = "1.16.1";
+
+export interface SafeInput {
+  internalType: string;
+  name: string;
+  type: string;
+}
+
+export interface SafeTransaction {
+  to: string;
+  value: string;
+  data: string | null;
+  contractMethod: {
+    inputs: SafeInput[];
+    name: string;
+    payable: boolean;
+  };
+  contractInputsValues: Record<string, string>;
+}
+
+export interface SafeBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+    checksum?: string;
+  };
+  transactions: SafeTransaction[];
+}
+
+export interface OwnerCall {
+  // Contract name, only used in summaries
+  contract: string;
+  to: string;
+  contractInterface: utils.Interface;
+  method: string;
+  args: unknown[];
+  value?: BigNumber;
+}
+
+export const createBatch = (chainId: number, name: string, safe = ""): SafeBatch => ({
+  version: "1.0",
+  chainId: String(chainId),
+  createdAt: Date.now(),
+  meta: {
+    name,
+    description: "",
+    txBuilderVersion: TX_BUILDER_VERSION,
+    createdFromSafeAddress: safe,
+    createdFromOwnerAddress: "",
+  },
+  transactions: [],
+});
+
+// Values as typed in the Transaction Builder form: arrays and tuples as JSON, everything else as strings
+const toInputValue = (value: unknown): string => {
+  if (Array.isArray(value)) return JSON.stringify(value.map(toInputValue));
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  return String(value);
+};
+
+/**
+ * @return Encoded { call } with its decoded inputs, as the Transaction Builder shows it
+ */
+export const toSafeTransaction = (call: OwnerCall): SafeTransaction => {
+  const fragment = call.contractInterface.getFunction(call.method);
+  const inputs = fragment.inputs.map((input, i) => ({
+    internalType: input.type,
+    name: input.name || `arg${i}`,
+    type: input.type,
+  }));
+
+  return {
+    to: utils.getAddress(call.to),
+    value: (call.value ?? BigNumber.from(0)).toString(),
+    data: call.contractInterface.encodeFunctionData(fragment, call.args),
+    contractMethod: { inputs, name: fragment.name, payable: fragment.payable },
+    contractInputsValues: Object.fromEntries(inputs.map((input, i) => [input.name, toInputValue(call.args[i])])),
+  };
+};
+
+/**
+ * @return One line summary of { call }, e.g. MatchPool.setLP(_ethlbrLpToken: 0x...)
+ */
+export const summarizeCall = (call: OwnerCall) => {
+  const { contractMethod, contractInputsValues, to, value } = toSafeTransaction(call);
+  const args = contractMethod.inputs.map((input) => `${input.name}: ${contractInputsValues[input.name]}`);
+  const payment = value == "0" ? "" : ` with ${utils.formatEther(value)} ETH`;
+  return `${call.contract}.${contractMethod.name}(${args.join(", ")}) at ${to}${payment}`;
+};
+
+export const addToBatch = (batch: SafeBatch, call: OwnerCall) => {
+  batch.transactions.push(toSafeTransaction(call));
+  batch.meta.description = [batch.meta.description, summarizeCall(call)].filter(Boolean).join("\n");
+  batch.meta.checksum = calculateChecksum(batch);
+  return batch;
+};
+
+/**
+ * @dev Same serialization as the Transaction Builder: keys sorted at every level and the batch name left out,
+ *  so the file imports without the "changed since downloaded" warning
+ */
+export const calculateChecksum = (batch: SafeBatch) => {
+  const replacer = (_: string, value: unknown) => (value === undefined ? null : value);
+  const serialize = (json: unknown): string => {
+    if (Array.isArray(json)) return `[${json.map(serialize).join(",")}]`;
+    if (typeof json == "object" && json != null) {
+      const keys = Object.keys(json).sort();
+      const values = keys.map((key) => `${serialize((json as Record<string, unknown>)[key])},`).join("");
+      return `{${JSON.stringify(keys, replacer)}${values}}`;
+    }
+    return `${JSON.stringify(json, replacer)}`;
+  };
+
+  const meta: Partial<SafeBatch["meta"]> = { ...batch.meta };
+  delete meta.checksum;
+  return utils.id(serialize({ ...batch, meta: { ...meta, name: null } }));
+};
+
+export const readBatch = (file: string): SafeBatch | undefined => {
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+};
+
+/**
+ * @notice Appends { call } to the batch in { file }, creating the file if needed.
+ *  Calls of several tasks can be collected into the same batch this way
+ */
+export const proposeCall = (file: string, chainId: number, call: OwnerCall) => {
+  const batch = readBatch(file) ?? createBatch(chainId, `Match Finance owner calls ${new Date().toISOString()}`);
+  if (batch.chainId != String(chainId))
+    throw new Error(`${file} is a batch for chain ${batch.chainId}, not ${chainId}`);
+
+  addToBatch(batch, call);
+  fs.writeFileSync(file, JSON.stringify(batch, null, 2));
+  return batch;
+};
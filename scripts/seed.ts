@@ -0,0 +1,216 @@
+import { BigNumber, Contract, constants, utils } from "ethers";
+import * as fs from "fs";
+import type { HardhatNetworkAccountsConfig, HardhatRuntimeEnvironment } from "hardhat/types";
+import * as path from "path";
+
+import { ensure } from "./deploy";
+import { Position, getMaxBorrow, getPosition } from "./position";
+import { readStorageVariable } from "./storage";
+
+/**
+ * Local dev chain seeded for the frontend: the mock stack of the deploy scripts, test accounts funded
+ * and positions opened as laid out in a scenario file, then blocks mined so rewards accrue.
+ * Accounts are processed in the order of the scenario, borrowers coming after enough others have
+ * borrowed get charged interest as the global borrow ratio is above its threshold by then
+ */
+
+export const SCENARIO_FILE = "info/seed.json";
+
+type Value = number | string;
+
+export interface SeedAccount {
+  name: string;
+  // Index of the account of the hardhat network, 0 being the deployer and monitor
+  index: number;
+  // LP minted, stETH submitted from the account's ETH and eUSD sent by the deployer
+  lp?: Value;
+  stETH?: Value;
+  eUSD?: Value;
+  // Positions opened in Match Pool
+  stake?: Value;
+  supply?: Value;
+  supplyETH?: Value;
+  // Percent of the account's max. borrow, e.g. 100 to borrow up to { maxBorrowRatio }
+  borrow?: Value;
+}
+
+export interface SeedScenario {
+  accounts: SeedAccount[];
+  // Mined after the positions are opened, { interval } seconds apart
+  blocks?: number;
+  interval?: number;
+  // USD, set on the mint pool at the end to bring max. borrowers close to liquidation
+  ethPrice?: Value;
+}
+
+export interface SeededAccount {
+  name: string;
+  address: string;
+  privateKey?: string;
+  staked: string;
+  supplied: string;
+  borrowed: string;
+  // Part of { borrowed } charged interest
+  interestAmount: string;
+  distanceToLiquidation: string;
+  rewards: {
+    dlp: string;
+    lsd: string;
+  };
+}
+
+export interface SeedOutput {
+  network: string;
+  chainId: number;
+  blockNumber: number;
+  contracts: Record<string, string>;
+  // Deployer, owner of every contract and monitor of Match Pool
+  deployer: SeededAccount;
+  accounts: SeededAccount[];
+}
+
+const amount = (value: BigNumber) => utils.formatUnits(value, 18);
+const toWei = (value: Value) => utils.parseUnits(String(value), 18);
+const toQuantity = (value: number) => utils.hexValue(value);
+
+export const readScenario = (file = SCENARIO_FILE): SeedScenario => {
+  const scenario: SeedScenario = JSON.parse(fs.readFileSync(file, "utf-8"));
+  const names = new Set<string>();
+  for (const account of scenario.accounts) {
+    if (names.has(account.name)) throw new Error(`${account.name} appears twice in ${file}`);
+    if (account.index < 1) throw new Error(`${account.name}: index 0 is the deployer`);
+    names.add(account.name);
+  }
+  return scenario;
+};
+
+/**
+ * @return Private keys of the hardhat network accounts, the ones a local node started with `hardhat node` has
+ */
+export const getPrivateKeys = (accounts: HardhatNetworkAccountsConfig, indexes: number[]) => {
+  if (Array.isArray(accounts)) return indexes.map((index) => accounts[index]?.privateKey);
+  const { mnemonic, passphrase, path: derivationPath, initialIndex } = accounts;
+  const root = utils.HDNode.fromMnemonic(mnemonic, passphrase);
+  return indexes.map((index) => root.derivePath(`${derivationPath}/${initialIndex + index}`).privateKey);
+};
+
+const summarize = (name: string, position: Position, privateKey?: string): SeededAccount => ({
+  name,
+  address: position.account,
+  privateKey,
+  staked: amount(position.staked),
+  supplied: amount(position.supplied[0]?.amount ?? constants.Zero),
+  borrowed: amount(position.borrowed.principal),
+  interestAmount: amount(position.borrowed.interestAmount),
+  distanceToLiquidation: amount(position.distanceToLiquidation),
+  rewards: { dlp: amount(position.rewards.dlp), lsd: amount(position.rewards.lsd) },
+});
+
+/**
+ * @notice Runs the mock deploy scripts then plays { scenario }, only meant for a fresh local chain:
+ *  positions add up with the ones of a previous run
+ */
+export const seed = async (hre: HardhatRuntimeEnvironment, scenario: SeedScenario): Promise<SeedOutput> => {
+  const { deployments, ethers, network } = hre;
+  const chainId = Number(await hre.getChainId());
+  if (chainId != 31337) throw new Error(`${network.name} is not a local chain`);
+
+  await deployments.run("Mocks", { resetMemory: false, writeDeploymentsToFiles: network.name != "hardhat" });
+  const { execute, read } = deployments;
+  const { deployer } = await hre.getNamedAccounts();
+  const signers = await ethers.getSigners();
+  const addressOf = (account: SeedAccount) => {
+    const signer = signers[account.index];
+    if (!signer) throw new Error(`${account.name}: no account at index ${account.index}`);
+    return signer.address;
+  };
+  const send = (name: string, from: string, method: string, ...args: unknown[]) =>
+    execute(name, { from }, method, ...args);
+
+  const pool = (await deployments.get("MatchPool")).address;
+  if ((await read("MatchPool", "owner")) != deployer) throw new Error("Match Pool is not owned by the deployer");
+  const monitor = await readStorageVariable(hre, "MatchPool", pool, "monitor");
+  await ensure(hre, "MatchPool", monitor, deployer, "setMonitor", [deployer]);
+
+  /****** Funding ******/
+
+  for (const account of scenario.accounts) {
+    const address = addressOf(account);
+    if (account.lp) await send("LPToken", deployer, "mint", address, toWei(account.lp));
+    if (account.stETH) await execute("stETHMock", { from: address, value: toWei(account.stETH) }, "submit", address);
+    if (account.eUSD) await send("EUSDMock", deployer, "transfer", address, toWei(account.eUSD));
+    for (const [token, value] of [
+      ["LPToken", account.stake],
+      ["stETHMock", account.supply],
+    ] as const) {
+      // Accounts funded by the deploy scripts are approved already
+      if (!value || (await read(token, "allowance", address, pool)).gte(toWei(value))) continue;
+      await send(token, address, "approve", pool, toWei(value));
+    }
+  }
+
+  /****** Positions ******/
+
+  for (const account of scenario.accounts) {
+    const address = addressOf(account);
+    if (account.stake) await send("MatchPool", address, "stakeLP", toWei(account.stake));
+    if (account.supply) await send("MatchPool", address, "supplyStETH", toWei(account.supply));
+    if (account.supplyETH) {
+      await execute("MatchPool", { from: address, value: toWei(account.supplyETH) }, "supplyETH");
+    }
+  }
+
+  // Match Pool only mints on its own once eUSD was minted, the monitor starts it at the ideal collateral ratio
+  const mintPool: string = await read("MatchPool", "getMintPool");
+  const price: BigNumber = await read("LybraMintPool", "getAssetPrice");
+  const ideal: BigNumber = await read("MatchPool", "collateralRatioIdeal");
+  const deposited: BigNumber = await read("MatchPool", "totalDeposited", mintPool);
+  const idle = (await read("MatchPool", "totalSupplied", mintPool)).sub(deposited);
+  if (idle.gte(constants.WeiPerEther)) {
+    const minted: BigNumber = await read("MatchPool", "totalMinted", mintPool);
+    const target = deposited.add(idle).mul(price).mul(100).div(ideal);
+    await send("MatchPool", deployer, "monitorDeposit", idle, target.gt(minted) ? target.sub(minted) : 0);
+  }
+
+  const maxBorrowRatio: BigNumber = await read("MatchPool", "maxBorrowRatio");
+  for (const account of scenario.accounts) {
+    if (!account.borrow) continue;
+    const address = addressOf(account);
+    const supplied: BigNumber = await read("MatchPool", "supplied", mintPool, address);
+    const borrowed = (await read("MatchPool", "borrowed", mintPool, address)).principal;
+    const target = getMaxBorrow(supplied, price, maxBorrowRatio, ideal).mul(toWei(account.borrow)).div(toWei(100));
+    if (target.gt(borrowed)) await send("MatchPool", address, "borrowEUSD", target.sub(borrowed));
+  }
+
+  /****** Time ******/
+
+  if (scenario.blocks) {
+    await network.provider.send("hardhat_mine", [toQuantity(scenario.blocks), toQuantity(scenario.interval ?? 12)]);
+  }
+  if (scenario.ethPrice != undefined) await send("LybraMintPool", deployer, "setEtherPrice", toWei(scenario.ethPrice));
+
+  const contracts = Object.fromEntries(
+    Object.entries(await deployments.all()).map(([name, deployment]) => [name, deployment.address]),
+  );
+  const matchPool = new Contract(pool, (await deployments.get("MatchPool")).abi, ethers.provider);
+  const indexes = scenario.accounts.map((account) => account.index);
+  const [deployerKey, ...keys] = getPrivateKeys(hre.config.networks.hardhat.accounts, [0, ...indexes]);
+
+  const accounts: SeededAccount[] = [];
+  for (const [i, account] of scenario.accounts.entries()) {
+    accounts.push(summarize(account.name, await getPosition(matchPool, addressOf(account)), keys[i]));
+  }
+  return {
+    network: network.name,
+    chainId,
+    blockNumber: await ethers.provider.getBlockNumber(),
+    contracts,
+    deployer: summarize("deployer", await getPosition(matchPool, deployer), deployerKey),
+    accounts,
+  };
+};
+
+export const writeSeedOutput = (file: string, output: SeedOutput) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(output, null, "\t"));
+};
@@ -0,0 +1,176 @@
+import { BigNumber, providers, utils } from "ethers";
+import * as fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Read state variables that have no public getter, e.g. { stakeLimit } and { monitor } in Match Pool,
+ * straight from storage. Slots come from the compiler storage layout, which the upgrades plugin
+ * adds to the compiler output selection
+ */
+
+export interface StorageEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+  contract: string;
+}
+
+export interface StorageType {
+  label: string;
+  numberOfBytes: string;
+  encoding: string;
+}
+
+export interface StorageLayout {
+  storage: StorageEntry[];
+  types: Record<string, StorageType>;
+}
+
+export const getStorageLayout = async (hre: HardhatRuntimeEnvironment, name: string): Promise<StorageLayout> => {
+  const artifact = await hre.artifacts.readArtifact(name);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  const output = buildInfo?.output.contracts[artifact.sourceName][artifact.contractName];
+  // Not part of the default output selection, hence not typed
+  const layout = (output as { storageLayout?: StorageLayout } | undefined)?.storageLayout;
+  if (!layout) throw new Error(`No storage layout for ${name}, recompile with the upgrades plugin loaded`);
+
+  return layout;
+};
+
+/**
+ * @notice Reads a value type state variable (uint, bool, address) declared in { name },
+ *  at { blockTag } or the latest block
+ */
+export const readStorageVariable = async (
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  address: string,
+  label: string,
+  blockTag?: providers.BlockTag,
+): Promise<BigNumber | boolean | string> => {
+  const layout = await getStorageLayout(hre, name);
+  const entry = layout.storage.find((item) => item.label == label);
+  if (!entry) throw new Error(`${label} not found in ${name} storage layout`);
+
+  const type = layout.types[entry.type];
+  const word = utils
+    .hexZeroPad(await hre.ethers.provider.getStorageAt(address, BigNumber.from(entry.slot), blockTag), 32)
+    .slice(2);
+  // Packed variables are stored right-aligned from { offset }
+  const end = 64 - entry.offset * 2;
+  const value = "0x" + word.slice(end - Number(type.numberOfBytes) * 2, end);
+
+  if (type.label == "bool") return !BigNumber.from(value).isZero();
+  if (type.label == "address" || type.label.startsWith("contract ")) return utils.getAddress(value);
+  return BigNumber.from(value);
+};
+
+/**
+ * Storage layout checks for upgrades. The layout of every implementation deployed through the
+ * upgrades plugin is kept in its network manifest under .openzeppelin/
+ */
+
+// Manifest names used by the upgrades plugin, any other chain is "unknown-{ chainId }"
+const MANIFEST_NAMES: Record<number, string> = {
+  1: "mainnet",
+  5: "goerli",
+  11155111: "sepolia",
+};
+
+export type StorageChange = "unchanged" | "renamed" | "retyped" | "moved" | "removed" | "added";
+
+export interface StorageReportEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+  change: StorageChange;
+  // Previous label or type, for renamed and retyped entries
+  previous?: string;
+}
+
+export interface StorageLayoutReport {
+  entries: StorageReportEntry[];
+  compatible: boolean;
+}
+
+// Breaks the storage of the proxy
+const INCOMPATIBLE_CHANGES: StorageChange[] = ["retyped", "moved", "removed"];
+
+export const getManifestPath = (chainId: number) => {
+  return `.openzeppelin/${MANIFEST_NAMES[chainId] ?? `unknown-${chainId}`}.json`;
+};
+
+/**
+ * @notice Finds the storage layout recorded for { implementation } in the network manifest
+ */
+export const readRecordedStorageLayout = async (
+  hre: HardhatRuntimeEnvironment,
+  implementation: string,
+): Promise<StorageLayout | undefined> => {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const path = getManifestPath(chainId);
+  if (!fs.existsSync(path)) return undefined;
+
+  const manifest = JSON.parse(fs.readFileSync(path, "utf-8"));
+  for (const impl of Object.values(manifest.impls ?? {}) as { address: string; layout: StorageLayout }[]) {
+    if (impl.address.toLowerCase() == implementation.toLowerCase()) return impl.layout;
+  }
+  return undefined;
+};
+
+const toReportEntry = (entry: StorageEntry, type: string) => ({
+  label: entry.label,
+  slot: entry.slot,
+  offset: entry.offset,
+  type,
+});
+
+/**
+ * @notice Matches every variable of { previous } with the one at the same slot and offset in { next }
+ * @dev Types are compared by their labels, ids contain AST ids that differ between compilations
+ */
+export const compareStorageLayouts = (previous: StorageLayout, next: StorageLayout): StorageLayoutReport => {
+  const typeOf = (layout: StorageLayout, entry: StorageEntry) => layout.types[entry.type]?.label ?? entry.type;
+  const position = (entry: StorageEntry) => `${entry.slot}:${entry.offset}`;
+  const nextByPosition = new Map(next.storage.map((entry) => [position(entry), entry]));
+  const matched = new Set<string>();
+  const entries: StorageReportEntry[] = [];
+
+  for (const entry of previous.storage) {
+    const previousType = typeOf(previous, entry);
+    const current = nextByPosition.get(position(entry));
+
+    if (!current) {
+      const moved = next.storage.find((item) => item.label == entry.label);
+      entries.push({ ...toReportEntry(entry, previousType), change: moved ? "moved" : "removed" });
+      continue;
+    }
+
+    // Another variable inserted or swapped in before it, rather than a rename
+    if (current.label != entry.label && next.storage.some((item) => item.label == entry.label)) {
+      entries.push({ ...toReportEntry(entry, previousType), change: "moved" });
+      continue;
+    }
+
+    matched.add(position(current));
+    const currentType = typeOf(next, current);
+    if (currentType != previousType) {
+      entries.push({ ...toReportEntry(current, currentType), change: "retyped", previous: previousType });
+    } else if (current.label != entry.label) {
+      entries.push({ ...toReportEntry(current, currentType), change: "renamed", previous: entry.label });
+    } else {
+      entries.push({ ...toReportEntry(current, currentType), change: "unchanged" });
+    }
+  }
+
+  for (const entry of next.storage) {
+    if (!matched.has(position(entry))) entries.push({ ...toReportEntry(entry, typeOf(next, entry)), change: "added" });
+  }
+
+  return {
+    entries,
+    compatible: entries.every((entry) => !INCOMPATIBLE_CHANGES.includes(entry.change)),
+  };
+};
@@ -0,0 +1,196 @@
+import { BigNumber, Contract, Signer, constants, utils } from "ethers";
+
+import { getLiquidationParams, scanLiquidations } from "./liquidation";
+import { MonitorMethod, executeRebalance, getVaultState, planRebalance } from "./rebalance";
+
+/**
+ * Price-shock stress runs: moves the stETH price of the mint pool and the LP price of the oracle along
+ * a path, letting { mintEUSD } and the monitor react at each step, and records whether the vault stays
+ * above { collateralRatioLower } and whether any borrower ends up owing more than their supply is worth
+ */
+
+const BASIS_POINTS = 10000;
+
+export interface PriceStep {
+  // Percent of the prices at the start of the path, e.g. 70 -> -30%
+  eth: number;
+  lp: number;
+}
+
+export interface PricePath {
+  name: string;
+  steps: PriceStep[];
+}
+
+export interface StressContracts {
+  matchPool: Contract;
+  // Mocks with owner price setters, i.e. { setEtherPrice } and { setPrice }
+  mintPool: Contract;
+  lpOracle: Contract;
+  // Owner of both mocks and { monitor } of Match Pool
+  signer: Signer;
+  borrowers: string[];
+}
+
+export interface StressStep {
+  step: number;
+  ethPrice: BigNumber;
+  // 8 decimals, as answered by the oracle
+  lpPrice: BigNumber;
+  // Collateral ratios are scaled in 1e18, before and after { mintEUSD } and the monitor
+  collateralRatioBefore: BigNumber;
+  collateralRatio: BigNumber;
+  // Out of 1e20
+  globalBorrowRatio: BigNumber;
+  actions: MonitorMethod[];
+  warnings: string[];
+  // Borrowers past their liquidation threshold
+  liquidatable: string[];
+  // eUSD borrowed above the value of the borrower's supply, summed up
+  badDebt: BigNumber;
+  // eUSD minted above the value of the stETH deposited to Lybra
+  vaultShortfall: BigNumber;
+  breach: boolean;
+}
+
+export interface StressResult {
+  path: string;
+  steps: StressStep[];
+  // First step still below { collateralRatioLower } after the monitor, if any
+  firstBreach?: number;
+  maxBadDebt: BigNumber;
+}
+
+export const crash = (drop: number): PricePath => ({
+  name: `crash -${drop}%`,
+  steps: [{ eth: 100 - drop, lp: 100 - drop }],
+});
+
+export const bleed = (drop: number, steps: number): PricePath => ({
+  name: `bleed -${drop}% in ${steps} steps`,
+  steps: Array.from({ length: steps }, (_, i) => {
+    const percent = 100 - (drop * (i + 1)) / steps;
+    return { eth: percent, lp: percent };
+  }),
+});
+
+export const DEFAULT_PATHS = [crash(10), crash(30), crash(50), bleed(50, 10)];
+
+/**
+ * @notice Parses paths like "crash:30,bleed:50:10" into { crash(30) } and { bleed(50, 10) }
+ */
+export const parsePaths = (spec: string): PricePath[] =>
+  spec.split(",").map((entry) => {
+    const [kind, ...args] = entry.trim().split(":");
+    const values = args.map(Number);
+    if (values.some(isNaN)) throw new Error(`Invalid path: ${entry}`);
+
+    if (kind == "crash" && values.length == 1) return crash(values[0]);
+    if (kind == "bleed" && values.length == 2) return bleed(values[0], values[1]);
+    throw new Error(`Unknown path: ${entry}, expected crash:<drop> or bleed:<drop>:<steps>`);
+  });
+
+// Collateral ratios in 1e18 and borrow ratios out of 1e20 both read as percents in 18 decimals
+const formatRatio = (ratio: BigNumber) => `${ratio.div(BigNumber.from(10).pow(14)).toNumber() / 10000}%`;
+
+const scale = (price: BigNumber, percent: number) =>
+  price.mul(Math.round(percent * (BASIS_POINTS / 100))).div(BASIS_POINTS);
+
+const getBadDebt = async (matchPool: Contract, vault: string, borrowers: string[], price: BigNumber) => {
+  let badDebt = constants.Zero;
+  for (const account of borrowers) {
+    const { principal } = await matchPool.borrowed(vault, account);
+    const value = (await matchPool.supplied(vault, account)).mul(price).div(constants.WeiPerEther);
+    if (principal.gt(value)) badDebt = badDebt.add(principal.sub(value));
+  }
+  return badDebt;
+};
+
+/**
+ * @notice Walks { path } from the current prices, Match Pool state is left at the last step
+ */
+export const runPath = async (contracts: StressContracts, path: PricePath): Promise<StressResult> => {
+  const { matchPool, mintPool, lpOracle, signer, borrowers } = contracts;
+  const vault = mintPool.address;
+  const ethPrice: BigNumber = await mintPool.callStatic.getAssetPrice();
+  const [, lpPrice] = await lpOracle.latestRoundData();
+  const steps: StressStep[] = [];
+
+  for (const [i, step] of path.steps.entries()) {
+    await (await mintPool.connect(signer).setEtherPrice(scale(ethPrice, step.eth))).wait();
+    await (await lpOracle.connect(signer).setPrice(scale(BigNumber.from(lpPrice), step.lp))).wait();
+    const before = await getVaultState(matchPool, mintPool);
+    const warnings: string[] = [];
+
+    try {
+      await (await matchPool.connect(signer).mintEUSD()).wait();
+    } catch (e) {
+      const error = e as Error & { errorName?: string; reason?: string };
+      warnings.push(`mintEUSD reverted: ${error.errorName ?? error.reason ?? error.message}`);
+    }
+    const plan = planRebalance(await getVaultState(matchPool, mintPool));
+    warnings.push(...plan.warnings);
+    try {
+      await executeRebalance(matchPool, signer, plan);
+    } catch (e) {
+      const error = e as Error & { errorName?: string; reason?: string };
+      warnings.push(`Rebalance reverted: ${error.errorName ?? error.reason ?? error.message}`);
+    }
+
+    const after = await getVaultState(matchPool, mintPool);
+    const params = await getLiquidationParams(matchPool);
+    const candidates = await scanLiquidations(matchPool, borrowers, params);
+    const collateralValue = after.deposited.mul(after.price).div(constants.WeiPerEther);
+
+    steps.push({
+      step: i,
+      ethPrice: after.price,
+      lpPrice: scale(BigNumber.from(lpPrice), step.lp),
+      collateralRatioBefore: before.collateralRatio,
+      collateralRatio: after.collateralRatio,
+      globalBorrowRatio: params.globalBorrowRatio,
+      actions: plan.actions.map((action) => action.method),
+      warnings,
+      liquidatable: candidates.filter((candidate) => candidate.underwater).map((candidate) => candidate.account),
+      badDebt: await getBadDebt(matchPool, vault, borrowers, after.price),
+      vaultShortfall: after.minted.gt(collateralValue) ? after.minted.sub(collateralValue) : constants.Zero,
+      breach: after.collateralRatio.lt(after.collateralRatioLower),
+    });
+  }
+
+  return {
+    path: path.name,
+    steps,
+    firstBreach: steps.find((step) => step.breach)?.step,
+    maxBadDebt: steps.reduce((max, step) => (step.badDebt.gt(max) ? step.badDebt : max), constants.Zero),
+  };
+};
+
+/**
+ * @notice Runs every path from the state { setup } resolves to, e.g. a fixture reverting to the same snapshot
+ */
+export const runStress = async (setup: () => Promise<StressContracts>, paths: PricePath[] = DEFAULT_PATHS) => {
+  const results: StressResult[] = [];
+  for (const path of paths) results.push(await runPath(await setup(), path));
+  return results;
+};
+
+/**
+ * @return One row per step of each path, formatted for { console.table }
+ */
+export const formatStressReport = (results: StressResult[]) =>
+  results.flatMap((result) =>
+    result.steps.map((step) => ({
+      path: result.path,
+      step: step.step,
+      ethPrice: utils.formatUnits(step.ethPrice, 18),
+      lpPrice: utils.formatUnits(step.lpPrice, 8),
+      collateralRatio: `${formatRatio(step.collateralRatioBefore)} -> ${formatRatio(step.collateralRatio)}`,
+      globalBorrowRatio: formatRatio(step.globalBorrowRatio),
+      actions: step.actions.join(", "),
+      liquidatable: step.liquidatable.length,
+      badDebt: utils.formatUnits(step.badDebt, 18),
+      vaultShortfall: utils.formatUnits(step.vaultShortfall, 18),
+      breach: step.breach,
+    })),
+  );
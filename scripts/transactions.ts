@@ -0,0 +1,230 @@
+import { BigNumber, Signer, providers, utils } from "ethers";
+import type { Deferrable } from "ethers/lib/utils";
+
+type FeeData = providers.FeeData;
+type Provider = providers.Provider;
+type TransactionReceipt = providers.TransactionReceipt;
+type TransactionRequest = providers.TransactionRequest;
+type TransactionResponse = providers.TransactionResponse;
+
+/**
+ * Signer shared by all tasks: fees come from the provider's EIP-1559 fee data within configurable caps,
+ * nonces are handed out locally so several transactions can be queued without waiting for each other,
+ * and a transaction still pending after { ReplacementOptions.timeout } is replaced with higher fees
+ */
+
+export interface FeeOptions {
+  // Explicit fees, e.g. from the command line, used instead of the provider's
+  maxFeePerGas?: BigNumber;
+  maxPriorityFeePerGas?: BigNumber;
+  // Upper bounds of any fee sent, including replacements
+  maxFeePerGasCap?: BigNumber;
+  maxPriorityFeePerGasCap?: BigNumber;
+}
+
+export interface ReplacementOptions {
+  // Time a transaction may stay pending before being replaced, in ms
+  timeout: number;
+  // Fee increase of each replacement, nodes reject replacements below 10%
+  bumpPercent: number;
+  maxReplacements: number;
+  // Interval between receipt checks, in ms
+  pollingInterval: number;
+}
+
+export const DEFAULT_REPLACEMENT: ReplacementOptions = {
+  timeout: 180_000,
+  bumpPercent: 15,
+  maxReplacements: 3,
+  pollingInterval: 2_000,
+};
+
+type Fees = Pick<TransactionRequest, "gasPrice" | "maxFeePerGas" | "maxPriorityFeePerGas">;
+
+const min = (a: BigNumber, b?: BigNumber) => (b && b.lt(a) ? b : a);
+const max = (a: BigNumber, b?: BigNumber | null) => (b && b.gt(a) ? b : a);
+
+const checkCap = (name: string, fee: BigNumber, cap?: BigNumber) => {
+  if (cap && fee.gt(cap)) {
+    throw new Error(
+      `${name} of ${utils.formatUnits(fee, "gwei")} gwei is over the cap of ${utils.formatUnits(cap, "gwei")}`,
+    );
+  }
+  return fee;
+};
+
+/**
+ * @return Fees to send with: explicit { options } first, then the provider's fee data lowered to the caps.
+ *  Networks without EIP-1559 get a capped gas price instead
+ */
+export const getFees = async (provider: Provider, options: FeeOptions): Promise<FeeData> => {
+  const data = await provider.getFeeData();
+
+  if (!data.maxFeePerGas || !data.maxPriorityFeePerGas) {
+    const gasPrice = options.maxFeePerGas
+      ? checkCap("Gas price", options.maxFeePerGas, options.maxFeePerGasCap)
+      : min(data.gasPrice ?? BigNumber.from(0), options.maxFeePerGasCap);
+    return { ...data, gasPrice, maxFeePerGas: null, maxPriorityFeePerGas: null };
+  }
+
+  const maxFeePerGas = options.maxFeePerGas
+    ? checkCap("Max fee", options.maxFeePerGas, options.maxFeePerGasCap)
+    : min(data.maxFeePerGas, options.maxFeePerGasCap);
+  const maxPriorityFeePerGas = options.maxPriorityFeePerGas
+    ? checkCap("Priority fee", options.maxPriorityFeePerGas, options.maxPriorityFeePerGasCap)
+    : min(data.maxPriorityFeePerGas, options.maxPriorityFeePerGasCap);
+
+  return { ...data, gasPrice: null, maxFeePerGas, maxPriorityFeePerGas: min(maxPriorityFeePerGas, maxFeePerGas) };
+};
+
+/**
+ * @return Fees of { request } raised by { percent }, at least the current ones, throws past the caps
+ */
+export const bumpFees = (request: Fees, current: FeeData, percent: number, options: FeeOptions): Fees => {
+  // Rounded up so small fees still increase
+  const bump = (fee: BigNumber) => {
+    const raised = fee.mul(100 + percent);
+    return raised.add(99).div(100);
+  };
+
+  if (request.gasPrice != undefined) {
+    const gasPrice = max(bump(BigNumber.from(request.gasPrice)), current.gasPrice);
+    return { gasPrice: checkCap("Gas price", gasPrice, options.maxFeePerGasCap) };
+  }
+
+  const maxFeePerGas = max(bump(BigNumber.from(request.maxFeePerGas)), current.maxFeePerGas);
+  const maxPriorityFeePerGas = max(bump(BigNumber.from(request.maxPriorityFeePerGas)), current.maxPriorityFeePerGas);
+  return {
+    maxFeePerGas: checkCap("Max fee", maxFeePerGas, options.maxFeePerGasCap),
+    maxPriorityFeePerGas: checkCap(
+      "Priority fee",
+      min(maxPriorityFeePerGas, maxFeePerGas),
+      options.maxPriorityFeePerGasCap,
+    ),
+  };
+};
+
+export class TxSigner extends Signer {
+  readonly address: string;
+  readonly provider: Provider;
+
+  private nonce?: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param signer Signer with a provider, either a local wallet or an account of the node
+   */
+  constructor(
+    readonly signer: Signer & { address: string },
+    readonly fees: FeeOptions = {},
+    readonly replacement: ReplacementOptions = DEFAULT_REPLACEMENT,
+  ) {
+    super();
+    if (!signer.provider) throw new Error(`Signer ${signer.address} is not connected to a provider`);
+    this.address = signer.address;
+    this.provider = signer.provider;
+  }
+
+  async getAddress() {
+    return this.address;
+  }
+
+  signMessage(message: string | utils.Bytes) {
+    return this.signer.signMessage(message);
+  }
+
+  signTransaction(transaction: Deferrable<TransactionRequest>) {
+    return this.signer.signTransaction(transaction);
+  }
+
+  connect(provider: Provider) {
+    return new TxSigner(this.signer.connect(provider) as Signer & { address: string }, this.fees, this.replacement);
+  }
+
+  // Used by populateTransaction for every transaction sent
+  getFeeData() {
+    return getFees(this.provider, this.fees);
+  }
+
+  /**
+   * @notice Sends one transaction at a time with the next local nonce, so callers can queue several without waiting.
+   *  The returned wait() replaces the transaction if it stays pending too long
+   */
+  sendTransaction(transaction: Deferrable<TransactionRequest>): Promise<TransactionResponse> {
+    const sending = this.queue.then(() => this.send(transaction));
+    this.queue = sending.catch(() => undefined);
+    return sending;
+  }
+
+  private async send(transaction: Deferrable<TransactionRequest>) {
+    const pending = await this.provider.getTransactionCount(this.address, "pending");
+    const nonce =
+      transaction.nonce != undefined
+        ? BigNumber.from(await transaction.nonce).toNumber()
+        : Math.max(pending, this.nonce ?? 0);
+
+    const request = await this.populateTransaction({ ...transaction, nonce });
+    const response = await this.signer.sendTransaction(request);
+    this.nonce = Math.max(this.nonce ?? 0, nonce + 1);
+
+    response.wait = (confirmations?: number) => this.waitOrReplace(response, request, confirmations);
+    return response;
+  }
+
+  private async findReceipt(hashes: string[], timeout: number) {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      for (const hash of hashes) {
+        const receipt = await this.provider.getTransactionReceipt(hash);
+        if (receipt && receipt.blockNumber != null) return receipt;
+      }
+      if (Date.now() >= deadline) return undefined;
+      await new Promise((resolve) => setTimeout(resolve, this.replacement.pollingInterval));
+    }
+  }
+
+  /**
+   * @notice Waits for { response } or any of its replacements, sending a new one with bumped fees on each timeout
+   */
+  async waitOrReplace(
+    response: TransactionResponse,
+    request: TransactionRequest,
+    confirmations = 1,
+  ): Promise<TransactionReceipt> {
+    const hashes = [response.hash];
+    let fees: Fees = request;
+
+    for (let replacements = 0; ; replacements++) {
+      let receipt = await this.findReceipt(hashes, this.replacement.timeout);
+
+      if (!receipt) {
+        if (replacements >= this.replacement.maxReplacements) {
+          const hash = hashes[hashes.length - 1];
+          throw new Error(
+            `Transaction ${hash} with nonce ${request.nonce} still pending after ${replacements} replacement(s)`,
+          );
+        }
+
+        fees = bumpFees(fees, await this.getFeeData(), this.replacement.bumpPercent, this.fees);
+        try {
+          hashes.push((await this.signer.sendTransaction({ ...request, ...fees })).hash);
+          continue;
+        } catch (e) {
+          // One of the previous transactions may have been mined meanwhile
+          receipt = await this.findReceipt(hashes, 0);
+          if (!receipt) throw e;
+        }
+      }
+
+      if (confirmations > 1) await this.provider.waitForTransaction(receipt.transactionHash, confirmations);
+      if (receipt.status == 0) {
+        throw Object.assign(new Error(`Transaction ${receipt.transactionHash} reverted`), {
+          code: utils.Logger.errors.CALL_EXCEPTION,
+          transactionHash: receipt.transactionHash,
+          receipt,
+        });
+      }
+      return receipt;
+    }
+  }
+}
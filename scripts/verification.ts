@@ -0,0 +1,181 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { Deployment, readRegistry } from "./registry";
+
+/**
+ * Source verification of every contract recorded in the registry: plain contracts with their constructor
+ * arguments, upgradeable ones through their implementation with the proxy linked to it afterwards.
+ * The block explorer sits behind { VerificationBackend } so the flow runs against a stub in tests
+ */
+
+export interface VerificationBackend {
+  isVerified(address: string): Promise<boolean>;
+  // { contract } is the fully qualified name, e.g. contracts/mock/LybraStakePool.sol:StakePool
+  verify(address: string, contract: string, constructorArguments: unknown[]): Promise<void>;
+  linkProxy(proxy: string, implementation: string): Promise<void>;
+}
+
+export type VerificationStatus = "verified" | "already verified" | "linked" | "skipped" | "failed";
+
+export interface VerificationResult {
+  name: string;
+  role: "contract" | "implementation" | "proxy";
+  address: string;
+  status: VerificationStatus;
+  message?: string;
+}
+
+export interface VerificationReport {
+  network: string;
+  checkedAt: string;
+  results: VerificationResult[];
+}
+
+/**
+ * @notice Registry names of the contracts passed to the constructor of each mock, in order.
+ *  Used when a deployment was recorded without its arguments, e.g. when imported from the address list only
+ */
+export const CONSTRUCTOR_DEPENDENCIES: Record<string, string[]> = {
+  StakePool: ["LPToken"],
+  LybraConfigurator: ["EUSDMock"],
+  LybraMintPool: ["stETHMock", "EUSDMock", "LybraConfigurator"],
+  MiningIncentive: ["LybraConfigurator", "LPOracle", "LBROracle"],
+};
+
+/**
+ * @return Constructor arguments of { name }, from the registry or rebuilt from { CONSTRUCTOR_DEPENDENCIES }
+ */
+export const getConstructorArguments = (
+  name: string,
+  deployment: Deployment,
+  contracts: Record<string, Deployment>,
+  inputs: number,
+): unknown[] => {
+  if (deployment.args.length == inputs) return deployment.args;
+
+  const dependencies = CONSTRUCTOR_DEPENDENCIES[name];
+  if (deployment.args.length > 0 || !dependencies || dependencies.length != inputs) {
+    throw new Error(`${name} takes ${inputs} constructor argument(s), ${deployment.args.length} recorded`);
+  }
+  return dependencies.map((dependency) => {
+    const address = contracts[dependency]?.address;
+    if (!address) throw new Error(`Constructor argument ${dependency} of ${name} is not in the registry`);
+    return address;
+  });
+};
+
+const verifyAddress = async (
+  backend: VerificationBackend,
+  result: Omit<VerificationResult, "status">,
+  contract: string,
+  args: unknown[],
+): Promise<VerificationResult> => {
+  if (await backend.isVerified(result.address)) return { ...result, status: "already verified" };
+  await backend.verify(result.address, contract, args);
+  return { ...result, status: "verified" };
+};
+
+/**
+ * @notice Verifies { names }, all contracts recorded on { network } by default.
+ *  Failures are reported and do not stop the remaining contracts
+ */
+export const verifyContracts = async (
+  { artifacts }: HardhatRuntimeEnvironment,
+  network: string,
+  backend: VerificationBackend,
+  names?: string[],
+  file?: string,
+): Promise<VerificationReport> => {
+  const contracts = readRegistry(file)[network]?.contracts ?? {};
+  const results: VerificationResult[] = [];
+
+  for (const name of names ?? Object.keys(contracts)) {
+    const deployment = contracts[name];
+    const role = deployment?.implementation ? "implementation" : "contract";
+    const address = deployment?.implementation ?? deployment?.address ?? "";
+
+    if (!deployment) {
+      results.push({ name, role, address, status: "failed", message: `Not recorded on ${network}` });
+      continue;
+    }
+    // Contracts of other projects, e.g. Lybra's own on mainnet, are not ours to verify
+    const contract = (await artifacts.getAllFullyQualifiedNames()).find((fqn) => fqn.endsWith(`:${name}`));
+    if (!contract) {
+      results.push({ name, role, address, status: "skipped", message: "Not compiled in this project" });
+      continue;
+    }
+
+    const { abi } = await artifacts.readArtifact(contract);
+    try {
+      const inputs = abi.find((fragment) => fragment.type == "constructor")?.inputs.length ?? 0;
+      // Implementations are initialized through the proxy, their constructor takes nothing
+      const args = deployment.implementation ? [] : getConstructorArguments(name, deployment, contracts, inputs);
+      results.push(await verifyAddress(backend, { name, role, address }, contract, args));
+    } catch (e) {
+      results.push({ name, role, address, status: "failed", message: (e as Error).message });
+      continue;
+    }
+
+    if (!deployment.implementation) continue;
+    const proxy = { name, role: "proxy" as const, address: deployment.address };
+    try {
+      await backend.linkProxy(deployment.address, deployment.implementation);
+      results.push({ ...proxy, status: "linked" });
+    } catch (e) {
+      results.push({ ...proxy, status: "failed", message: (e as Error).message });
+    }
+  }
+
+  return { network, checkedAt: new Date().toISOString(), results };
+};
+
+/*********************************** Etherscan ********************************************/
+
+const PROXY_POLLING_TIME = 3000;
+const PROXY_POLLING_ATTEMPTS = 10;
+
+/**
+ * @notice Backend verifying through hardhat-verify on the Etherscan instance of the current network,
+ *  proxies being linked through the Etherscan proxy verification endpoint
+ */
+export const createEtherscanBackend = async (hre: HardhatRuntimeEnvironment): Promise<VerificationBackend> => {
+  const { getCurrentChainConfig } = await import("@nomicfoundation/hardhat-verify/dist/src/chain-config");
+  const { Etherscan } = await import("@nomicfoundation/hardhat-verify/dist/src/etherscan");
+  const { sendGetRequest, sendPostRequest } = await import("@nomicfoundation/hardhat-verify/dist/src/undici");
+
+  const { apiKey, customChains } = hre.config.etherscan;
+  const chainConfig = await getCurrentChainConfig(hre.network, customChains);
+  const etherscan = new Etherscan(apiKey, chainConfig);
+  const key = typeof apiKey == "string" ? apiKey : apiKey[chainConfig.network];
+
+  const request = async (parameters: Record<string, string>, body?: Record<string, string>) => {
+    const url = new URL(chainConfig.urls.apiURL);
+    url.search = new URLSearchParams({ apikey: key, module: "contract", ...parameters }).toString();
+    const response = body
+      ? await sendPostRequest(url, new URLSearchParams(body).toString())
+      : await sendGetRequest(url);
+    return (await response.body.json()) as { status: string; result: string };
+  };
+
+  return {
+    isVerified: (address) => etherscan.isVerified(address),
+    verify: async (address, contract, constructorArguments) => {
+      await hre.run("verify:verify", { address, contract, constructorArguments });
+    },
+    linkProxy: async (proxy, implementation) => {
+      const submitted = await request(
+        { action: "verifyproxycontract" },
+        { address: proxy, expectedimplementation: implementation },
+      );
+      if (submitted.status != "1") throw new Error(`Linking proxy ${proxy} failed: ${submitted.result}`);
+
+      for (let attempt = 0; attempt < PROXY_POLLING_ATTEMPTS; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, PROXY_POLLING_TIME));
+        const checked = await request({ action: "checkproxyverification", guid: submitted.result });
+        if (checked.status == "1") return;
+        if (!/pending/i.test(checked.result)) throw new Error(`Linking proxy ${proxy} failed: ${checked.result}`);
+      }
+      throw new Error(`Linking proxy ${proxy} still pending`);
+    },
+  };
+};
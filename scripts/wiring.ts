@@ -0,0 +1,302 @@
+import { Contract, constants, utils } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { readParams } from "./params";
+import { REGISTRY_FILE, getDeployment } from "./registry";
+import { OwnerCall, summarizeCall } from "./safe";
+import { readStorageVariable } from "./storage";
+
+/**
+ * Links between the deployed contracts, as set up by the setters { deployMPFixture } calls, compared
+ * with the registry of the network. Mocks are only checked where the registry holds them, on
+ * networks using Lybra's own contracts their wiring is Lybra's and nothing is proposed to fix it
+ */
+
+// Proxy admins included
+const OWNABLE_ABI = ["function owner() view returns (address)", "function transferOwnership(address newOwner)"];
+const ERC20_ABI = ["function allowance(address, address) view returns (uint256)"];
+
+export type WiringKind = "link" | "owner" | "monitor" | "allowance";
+export type WiringStatus = "ok" | "missing" | "mismatch";
+
+export interface WiringCheck {
+  kind: WiringKind;
+  contract: string;
+  // Getter or variable read
+  name: string;
+  current: string;
+  // Unknown when the registry has no such contract
+  expected?: string;
+  status: WiringStatus;
+  // Owner call setting { expected }, none for links set at deployment or by Lybra
+  fix?: OwnerCall;
+  note?: string;
+}
+
+export interface WiringOptions {
+  // Owner of Match Pool, Reward Manager and their proxy admins, defaults to the owner of Match Pool
+  owner?: string;
+  // Defaults to the one in the network's parameter file, if any
+  monitor?: string;
+  registry?: string;
+}
+
+const same = (a: string | undefined, b: string | undefined) => !!a && !!b && a.toLowerCase() == b.toLowerCase();
+
+const getStatus = (current: string, expected?: string): WiringStatus => {
+  if (current == constants.AddressZero) return "missing";
+  if (expected && !same(current, expected)) return "mismatch";
+  return "ok";
+};
+
+/**
+ * @return One entry per setter, setters fixing several values like { setLybraContracts } only once
+ */
+export const getFixes = (checks: WiringCheck[]) => {
+  const fixes = new Map<string, OwnerCall>();
+  for (const check of checks) {
+    if (check.status != "ok" && check.fix) fixes.set(summarizeCall(check.fix), check.fix);
+  }
+  return [...fixes.values()];
+};
+
+export const checkWiring = async (
+  hre: HardhatRuntimeEnvironment,
+  network: string,
+  options: WiringOptions = {},
+): Promise<WiringCheck[]> => {
+  const { ethers, upgrades } = hre;
+  const file = options.registry ?? REGISTRY_FILE;
+  const addressOf = (...names: string[]) =>
+    names.map((name) => getDeployment(network, name, file)?.address).find((address) => address);
+  const isMock = !!addressOf("EUSDMock");
+
+  const pool = addressOf("MatchPool");
+  const managerAddress = addressOf("RewardManager");
+  if (!pool || !managerAddress) throw new Error(`No MatchPool and RewardManager deployed on ${network}`);
+  // Typed contracts of the artifacts, only read and encoded for
+  const at = async (name: string, address: string) =>
+    new Contract(address, (await hre.artifacts.readArtifact(name)).abi, ethers.provider);
+  const match = await at("MatchPool", pool);
+  const manager = await at("RewardManager", managerAddress);
+
+  const expected = {
+    lp: addressOf("LPToken"),
+    lpOracle: addressOf("LPOracle"),
+    stakePool: addressOf("StakePool"),
+    configurator: addressOf("LybraConfigurator"),
+    mintPool: addressOf("LybraMintPool"),
+    mining: addressOf("MiningIncentive"),
+    eUSD: addressOf("eUSD", "EUSDMock"),
+    stETH: addressOf("stETH", "stETHMock"),
+    mesLBR: addressOf("mesLBR"),
+  };
+
+  const checks: WiringCheck[] = [];
+  const call = (name: string, contract: Contract, method: string, args: unknown[]): OwnerCall => ({
+    contract: name,
+    to: contract.address,
+    contractInterface: contract.interface,
+    method,
+    args,
+  });
+  const link = (
+    contract: string,
+    name: string,
+    current: string,
+    target: string | undefined,
+    fix?: (target: string) => OwnerCall,
+    note?: string,
+  ) => {
+    const status = getStatus(current, target);
+    checks.push({
+      kind: "link",
+      contract,
+      name,
+      current,
+      expected: target,
+      status,
+      fix: target && fix ? fix(target) : undefined,
+      note: status == "ok" ? undefined : note,
+    });
+  };
+
+  /****** Match Pool ******/
+
+  const currentStakePool: string = await match.ethlbrStakePool();
+  const currentConfigurator: string = await match.lybraConfigurator();
+
+  link("MatchPool", "ethlbrLpToken", await match.ethlbrLpToken(), expected.lp, (lp) =>
+    call("MatchPool", match, "setLP", [lp]),
+  );
+  link(
+    "MatchPool",
+    "lpPriceFeed",
+    (await readStorageVariable(hre, "MatchPool", pool, "lpPriceFeed")) as string,
+    expected.lpOracle,
+    (oracle) => call("MatchPool", match, "setLpOracle", [oracle]),
+  );
+  link("MatchPool", "ethlbrStakePool", currentStakePool, expected.stakePool, (stakePool) =>
+    call("MatchPool", match, "setLybraContracts", [stakePool, expected.configurator ?? currentConfigurator]),
+  );
+  link("MatchPool", "lybraConfigurator", currentConfigurator, expected.configurator, (configurator) =>
+    call("MatchPool", match, "setLybraContracts", [expected.stakePool ?? currentStakePool, configurator]),
+  );
+
+  // Mint pools can only be added, and Match Pool mints from the first one
+  const currentMintPool: string = await match.getMintPool();
+  const noMintPool = currentMintPool == constants.AddressZero;
+  link(
+    "MatchPool",
+    "getMintPool",
+    currentMintPool,
+    expected.mintPool,
+    noMintPool ? (mintPool) => call("MatchPool", match, "addMintPool", [mintPool]) : undefined,
+    noMintPool ? undefined : "Only the first mint pool added is used, Match Pool has to be redeployed",
+  );
+  link("MatchPool", "rewardManager", await match.rewardManager(), managerAddress, (address) =>
+    call("MatchPool", match, "setRewardManager", [address]),
+  );
+
+  /****** Reward Manager ******/
+
+  link(
+    "RewardManager",
+    "matchPool",
+    await manager.matchPool(),
+    pool,
+    undefined,
+    "Set at initialization only, Reward Manager has to be redeployed",
+  );
+  link("RewardManager", "dlpRewardPool", await manager.dlpRewardPool(), expected.stakePool, (stakePool) =>
+    call("RewardManager", manager, "setDlpRewardPool", [stakePool]),
+  );
+  const currentMining: string = await manager.miningIncentive();
+  const currentEUSD: string = await manager.eUSD();
+  const miningRewardPools = (mining: string, eUSD: string) =>
+    call("RewardManager", manager, "setMiningRewardPools", [mining, eUSD]);
+  link("RewardManager", "miningIncentive", currentMining, expected.mining, (mining) =>
+    miningRewardPools(mining, expected.eUSD ?? currentEUSD),
+  );
+  link("RewardManager", "eUSD", currentEUSD, expected.eUSD, (eUSD) =>
+    miningRewardPools(expected.mining ?? currentMining, eUSD),
+  );
+  link(
+    "RewardManager",
+    "mesLBR",
+    await manager.mesLBR(),
+    expected.mesLBR,
+    (mesLBR) => call("RewardManager", manager, "setMesLBR", [mesLBR]),
+    expected.mesLBR ? undefined : "No mesLBR in the registry, set it with admin:setMesLBR",
+  );
+  link(
+    "RewardManager",
+    "treasury",
+    await manager.treasury(),
+    undefined,
+    undefined,
+    "Repayments with interest revert without a treasury, set it with config:apply",
+  );
+
+  /****** Lybra ******/
+
+  if (expected.configurator) {
+    const configurator = await at("LybraConfigurator", expected.configurator);
+    link("LybraConfigurator", "getEUSDAddress", await configurator.getEUSDAddress(), expected.eUSD);
+    link(
+      "LybraConfigurator",
+      "eUSDMiningIncentives",
+      await configurator.eUSDMiningIncentives(),
+      expected.mining,
+      isMock ? (mining) => call("LybraConfigurator", configurator, "setMining", [mining]) : undefined,
+    );
+  }
+  if (expected.mintPool) {
+    const mintPool = await at("LybraMintPool", expected.mintPool);
+    link("LybraMintPool", "getAsset", await mintPool.getAsset(), expected.stETH);
+  }
+  if (isMock && expected.eUSD && expected.mintPool) {
+    const eUSD = await at("EUSDMock", expected.eUSD);
+    link("EUSDMock", "mintVault", await eUSD.mintVault(), expected.mintPool, (mintPool) =>
+      call("EUSDMock", eUSD, "setMintVault", [mintPool]),
+    );
+  }
+  if (isMock && expected.mining && expected.mintPool) {
+    const mining = await at("MiningIncentive", expected.mining);
+    link("MiningIncentive", "vault", await mining.vault(), expected.mintPool, (mintPool) =>
+      call("MiningIncentive", mining, "setPool", [mintPool]),
+    );
+  }
+
+  /****** Owners and monitor ******/
+
+  const owner = options.owner ?? ((await match.owner()) as string);
+  const owned = [
+    { name: "MatchPool", contract: new Contract(pool, OWNABLE_ABI, ethers.provider) },
+    { name: "RewardManager", contract: new Contract(managerAddress, OWNABLE_ABI, ethers.provider) },
+  ];
+  for (const [name, address] of [
+    ["MatchPool", pool],
+    ["RewardManager", managerAddress],
+  ]) {
+    const admin: string = await upgrades.erc1967.getAdminAddress(address);
+    const recorded = getDeployment(network, name, file)?.proxyAdmin;
+    if (recorded) link(name, "proxyAdmin", admin, recorded);
+    // Both proxies usually share their admin
+    if (owned.some(({ contract }) => same(contract.address, admin))) continue;
+    owned.push({ name: "ProxyAdmin", contract: new Contract(admin, OWNABLE_ABI, ethers.provider) });
+  }
+  for (const { name, contract } of owned) {
+    const current: string = await contract.owner();
+    checks.push({
+      kind: "owner",
+      contract: name,
+      name: "owner",
+      current,
+      expected: owner,
+      status: getStatus(current, owner),
+      // To be sent by the current owner
+      fix: call(name, contract, "transferOwnership", [owner]),
+    });
+  }
+
+  let monitor = options.monitor;
+  if (!monitor) {
+    try {
+      monitor = readParams(network).MatchPool?.monitor;
+    } catch (e) {
+      // No parameter file for the network
+    }
+  }
+  const currentMonitor = (await readStorageVariable(hre, "MatchPool", pool, "monitor")) as string;
+  const monitorStatus = getStatus(currentMonitor, monitor);
+  checks.push({
+    kind: "monitor",
+    contract: "MatchPool",
+    name: "monitor",
+    current: currentMonitor,
+    expected: monitor,
+    status: monitorStatus,
+    fix: monitor ? call("MatchPool", match, "setMonitor", [monitor]) : undefined,
+    note: monitorStatus == "missing" && !monitor ? "Rebalancing is impossible without a monitor" : undefined,
+  });
+
+  /****** Allowances ******/
+
+  const allowance = async (token: string | undefined, tokenName: string, spender: string | undefined) => {
+    if (!token || !spender) return;
+    const current = await new Contract(token, ERC20_ABI, ethers.provider).allowance(pool, spender);
+    checks.push({
+      kind: "allowance",
+      contract: tokenName,
+      name: `allowance(MatchPool, ${spender})`,
+      current: utils.formatUnits(current, 18),
+      status: current.isZero() ? "missing" : "ok",
+      note: current.isZero() ? "Match Pool approves it on its first stake or deposit" : undefined,
+    });
+  };
+  await allowance(expected.lp, "LPToken", expected.stakePool);
+  await allowance(expected.stETH, "stETH", expected.mintPool);
+
+  return checks;
+};
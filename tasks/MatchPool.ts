@@ -1,75 +1,135 @@
-import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
-
-import { readAddressList } from "../scripts/contractAddress";
-import { getNetwork } from "./helpers";
-
-task("stakeLP")
-  .setAction(async function (_, { ethers }) {
-    const hre = require("hardhat");
-    const network = getNetwork();
-    const addressList = readAddressList()[network];
-
-    const match = await ethers.getContractAt("MatchPool", addressList.MatchPool);
-    const signer = (await ethers.getSigners())[0];
-
-    console.log("Staking...");
-    const amount = ethers.utils.parseUnits("0.41");
-    try {
-      await match.connect(signer).stakeLP(amount);
-      console.log("Staked!");
-    } catch (e) {
-      console.log("\n", e);
-    }
+import { BigNumber, ContractReceipt, ContractTransaction, utils } from "ethers";
+import { types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { MatchClient, RewardPool } from "../scripts/client";
+import { describeError } from "../scripts/errors";
+import { getAddress } from "../scripts/registry";
+import { getNetwork, getSigner, txTask } from "./helpers";
+
+const REWARD_POOLS = ["dlp", "lsd", "all"];
+
+type Snapshot = Record<string, BigNumber>;
+
+// Common options of all user action tasks
+const actionTask = (name: string, description: string) =>
+  txTask(name, description)
+    .addOptionalParam("signer", "Index of the signer to send from", 0, types.int)
+    .addOptionalParam("pool", "Match Pool address, defaults to the one deployed on the network");
+
+const loadClient = async (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+  const address = taskArguments.pool || getAddress(getNetwork(), "MatchPool");
+  return MatchClient.connect(hre, address, await getSigner(hre, taskArguments, taskArguments.signer));
+};
+
+const snapshot = async (client: MatchClient): Promise<Snapshot> => {
+  const { pool, mintPool, lp, stETH, eUSD, signer, account } = client;
+  return {
+    ETH: await signer.getBalance(),
+    LP: await lp.contract.balanceOf(account),
+    stETH: await stETH.contract.balanceOf(account),
+    eUSD: await eUSD.contract.balanceOf(account),
+    staked: await pool.staked(account),
+    supplied: await pool.supplied(mintPool.address, account),
+    borrowed: (await pool.borrowed(mintPool.address, account)).principal,
+  };
+};
+
+const logChanges = (before: Snapshot, after: Snapshot) => {
+  const format = (amount: BigNumber) => utils.formatUnits(amount, 18);
+  for (const key in before) {
+    const delta = after[key].sub(before[key]);
+    if (delta.isZero()) continue;
+    console.log(`  ${key}: ${format(before[key])} -> ${format(after[key])} (${format(delta)})`);
+  }
+};
+
+/**
+ * @notice Sends the transaction and prints the changes in balances and Match Pool positions once mined,
+ *  or why it failed with the task exiting non-zero
+ */
+const sendAction = async (client: MatchClient, label: string, send: () => Promise<ContractTransaction>) => {
+  const before = await snapshot(client);
+
+  console.log(`${label}...`);
+  let receipt: ContractReceipt;
+  try {
+    receipt = await (await send()).wait();
+  } catch (e) {
+    console.error(`${label} failed: ${describeError(client.errors, e)}`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`${label} done in tx ${receipt.transactionHash}`);
+
+  logChanges(before, await snapshot(client));
+};
+
+actionTask("stakeLP", "Stake ETH-LBR LP token")
+  .addParam("amount", "Amount of LP token")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await loadClient(taskArguments, hre);
+    await sendAction(client, "Staking", () => client.stake(taskArguments.amount));
+  });
+
+actionTask("withdrawLP", "Withdraw staked ETH-LBR LP token")
+  .addParam("amount", "Amount of LP token")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await loadClient(taskArguments, hre);
+    await sendAction(client, "Unstaking", () => client.withdrawLP(taskArguments.amount));
+  });
+
+actionTask("supplyETH", "Supply ETH, converted to stETH by Lido")
+  .addParam("amount", "Amount of ETH")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await loadClient(taskArguments, hre);
+    await sendAction(client, "Supplying", () => client.supplyETH(taskArguments.amount));
   });
 
-task("withdrawLP")
-  .setAction(async function (_, { ethers }) {
-    const hre = require("hardhat");
-    const network = getNetwork();
-    const addressList = readAddressList()[network];
-
-    const match = await ethers.getContractAt("MatchPool", addressList.MatchPool);
-    const signer = (await ethers.getSigners())[0];
-
-    console.log("Unstaking...");
-    const amount = ethers.utils.parseUnits("0.41");
-    try {
-      await match.connect(signer).withdrawLP(amount);
-      console.log("Unstaked!");
-    } catch (e) {
-      console.log("\n", e);
-    }
+actionTask("supplyStETH", "Supply stETH")
+  .addParam("amount", "Amount of stETH")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await loadClient(taskArguments, hre);
+    await sendAction(client, "Supplying", () => client.supply(taskArguments.amount));
   });
 
-task("supplyETH")
-  .setAction(async function (_, { ethers }) {
-    const hre = require("hardhat");
-    const network = getNetwork();
-    const addressList = readAddressList()[network];
-
-    const match = await ethers.getContractAt("MatchPool", addressList.MatchPool);
-    const signer = (await ethers.getSigners())[0];
-
-    console.log("Supplying...");
-    const amount = ethers.utils.parseUnits("0.01");
-    try {
-      await match.connect(signer).supplyStETH(amount, {gasPrice: ethers.utils.parseUnits("20"), gasLimit: "400000"});
-      console.log("Supplied!");
-    } catch (e) {
-      console.log("\n", e);
-    }
+actionTask("withdrawStETH", "Withdraw supplied stETH")
+  .addParam("amount", "Amount of stETH")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await loadClient(taskArguments, hre);
+    await sendAction(client, "Withdrawing", () => client.withdraw(taskArguments.amount));
   });
 
-task("getCR")
-  .setAction(async function (_, { ethers }) {
-    const hre = require("hardhat");
-    const network = getNetwork();
-    const addressList = readAddressList()[network];
+actionTask("borrowEUSD", "Borrow eUSD against supplied stETH")
+  .addParam("amount", "Amount of eUSD")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await loadClient(taskArguments, hre);
+    await sendAction(client, "Borrowing", () => client.borrow(taskArguments.amount));
+  });
+
+actionTask("repayEUSD", "Repay borrowed eUSD and interest")
+  .addParam("amount", "Amount of eUSD")
+  .addOptionalParam("account", "Account to repay for, defaults to the signer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await loadClient(taskArguments, hre);
+    const account = taskArguments.account || client.account;
 
-    const match = await ethers.getContractAt("MatchPool", addressList.MatchPool);
-    const pool = await ethers.getContractAt("LybraMintPool", addressList.LybraMintPool);
+    await sendAction(client, "Repaying", () => client.repay(taskArguments.amount, account));
+  });
 
-    console.log(pool.getAssetPrice().call());
+actionTask("liquidate", "Repay eUSD for an unhealthy account and seize its supplied stETH")
+  .addParam("account", "Account to liquidate")
+  .addParam("amount", "Amount of eUSD to repay")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const client = await loadClient(taskArguments, hre);
+    await sendAction(client, "Liquidating", () => client.liquidate(taskArguments.account, taskArguments.amount));
   });
 
+actionTask("claimRewards", "Claim esLBR and eUSD rebase rewards from Reward Manager")
+  .addOptionalParam("reward", `Reward pool to claim from: ${REWARD_POOLS.join(", ")}`, "all")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (!REWARD_POOLS.includes(taskArguments.reward)) throw new Error(`Unknown reward pool: ${taskArguments.reward}`);
+
+    const client = await loadClient(taskArguments, hre);
+    await sendAction(client, "Claiming", () => client.claim(taskArguments.reward as RewardPool));
+  });
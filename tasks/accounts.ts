@@ -1,9 +1,25 @@
 import { task } from "hardhat/config";
 
+import { promptPassword, writeKeystore } from "../scripts/keystore";
+import { getSigners } from "./helpers";
+
 task("accounts", "Prints the list of accounts", async (_taskArgs, hre) => {
-  const accounts = await hre.ethers.getSigners();
+  const accounts = await getSigners(hre);
 
   for (const account of accounts) {
     console.log(account.address);
   }
 });
+
+task("accounts:keystore", "Encrypt a private key into a JSON keystore to use as KEYSTORE instead of PRIVATE_KEY")
+  .addParam("out", "Keystore file to write")
+  .setAction(async function (taskArguments) {
+    const privateKey = process.env.PRIVATE_KEY || (await promptPassword("Private key: "));
+    const password = process.env.KEYSTORE_PASSWORD || (await promptPassword("New keystore password: "));
+    if (!process.env.KEYSTORE_PASSWORD && password != (await promptPassword("Repeat password: "))) {
+      throw new Error("Passwords do not match");
+    }
+
+    const address = await writeKeystore(taskArguments.out, privateKey, password);
+    console.log(`Keystore of ${address} written to ${taskArguments.out}`);
+  });
@@ -0,0 +1,96 @@
+import { Contract } from "ethers";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { getAddress, getDeployment } from "../scripts/registry";
+import { adminTask, getNetwork, getSigner, sendOwnerCall } from "./helpers";
+
+/**
+ * Owner setters wiring Match Pool and Reward Manager to each other and to Lybra.
+ * Addresses default to the ones deployed on the network, all tasks support --propose
+ */
+
+const ownerCall = async (
+  hre: HardhatRuntimeEnvironment,
+  taskArguments: TaskArguments,
+  name: "MatchPool" | "RewardManager",
+  method: string,
+  args: Array<string>,
+) => {
+  const address = getAddress(getNetwork(), name);
+  // Proposing only encodes the call, no need to connect
+  const contract = taskArguments.propose
+    ? new Contract(address, (await hre.artifacts.readArtifact(name)).abi)
+    : await hre.ethers.getContractAt(name, address, await getSigner(hre, taskArguments));
+
+  await sendOwnerCall(hre, taskArguments, name, contract, method, args);
+};
+
+// Address from the task argument, or the one of { name } in the registry
+const addressOf = (value: string | undefined, name: string) => {
+  const address = value || getDeployment(getNetwork(), name)?.address;
+  if (!address) throw new Error(`No ${name} address given or deployed on ${getNetwork()}`);
+  return address;
+};
+
+adminTask("admin:setLP", "Set ETH-LBR LP token of Match Pool")
+  .addOptionalParam("lp", "LP token address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await ownerCall(hre, taskArguments, "MatchPool", "setLP", [addressOf(taskArguments.lp, "LPToken")]);
+  });
+
+adminTask("admin:setLpOracle", "Set ETH-LBR LP price feed of Match Pool")
+  .addOptionalParam("oracle", "LP oracle address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await ownerCall(hre, taskArguments, "MatchPool", "setLpOracle", [addressOf(taskArguments.oracle, "LPOracle")]);
+  });
+
+adminTask("admin:setLybraContracts", "Set Lybra stake pool and configurator of Match Pool")
+  .addOptionalParam("stakePool", "Lybra ETH-LBR stake pool address")
+  .addOptionalParam("configurator", "Lybra configurator address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await ownerCall(hre, taskArguments, "MatchPool", "setLybraContracts", [
+      addressOf(taskArguments.stakePool, "StakePool"),
+      addressOf(taskArguments.configurator, "LybraConfigurator"),
+    ]);
+  });
+
+adminTask("admin:addMintPool", "Add a Lybra mint pool to Match Pool")
+  .addOptionalParam("mintPool", "Lybra mint pool address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await ownerCall(hre, taskArguments, "MatchPool", "addMintPool", [
+      addressOf(taskArguments.mintPool, "LybraMintPool"),
+    ]);
+  });
+
+adminTask("admin:setRewardManager", "Set Reward Manager of Match Pool")
+  .addOptionalParam("manager", "Reward Manager address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await ownerCall(hre, taskArguments, "MatchPool", "setRewardManager", [
+      addressOf(taskArguments.manager, "RewardManager"),
+    ]);
+  });
+
+adminTask("admin:setDlpRewardPool", "Set Lybra dLP reward pool of Reward Manager")
+  .addOptionalParam("pool", "Lybra ETH-LBR stake pool address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await ownerCall(hre, taskArguments, "RewardManager", "setDlpRewardPool", [
+      addressOf(taskArguments.pool, "StakePool"),
+    ]);
+  });
+
+adminTask("admin:setMiningRewardPools", "Set Lybra mining incentive and eUSD of Reward Manager")
+  .addOptionalParam("mining", "Lybra mining incentive address")
+  .addOptionalParam("eusd", "eUSD address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const eUSD = taskArguments.eusd || getDeployment(getNetwork(), "eUSD")?.address;
+    await ownerCall(hre, taskArguments, "RewardManager", "setMiningRewardPools", [
+      addressOf(taskArguments.mining, "MiningIncentive"),
+      addressOf(eUSD, "EUSDMock"),
+    ]);
+  });
+
+adminTask("admin:setMesLBR", "Set mesLBR token of Reward Manager")
+  .addParam("token", "mesLBR address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await ownerCall(hre, taskArguments, "RewardManager", "setMesLBR", [taskArguments.token]);
+  });
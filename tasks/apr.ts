@@ -0,0 +1,133 @@
+import { BigNumber, utils } from "ethers";
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import { RewardCheck, Yield, YieldBreakdown, getAprReport } from "../scripts/apr";
+import { getAddress } from "../scripts/registry";
+import { getNetwork } from "./helpers";
+
+const amount = (value: BigNumber) => utils.formatUnits(value, 18);
+// APRs are out of 1e20
+const percent = (value: BigNumber) => `${utils.formatUnits(value, 18)}%`;
+
+const DAY = 24 * 3600;
+
+const formatCheck = (check: RewardCheck) => ({
+  expected: `${amount(check.expected)} esLBR`,
+  observed: check.observed ? `${amount(check.observed)} esLBR` : "unknown",
+});
+
+const formatYield = (value: Yield, unit: string) => ({
+  perYear: `${amount(value.amount)} ${unit}`,
+  apr: percent(value.apr),
+});
+
+const formatBreakdown = (breakdown: YieldBreakdown) => ({
+  dlp: {
+    stakePool: formatYield(breakdown.dlp.stakePool, "esLBR"),
+    mining: formatYield(breakdown.dlp.mining, "esLBR"),
+    total: percent(breakdown.dlp.total),
+  },
+  lsd: {
+    mining: formatYield(breakdown.lsd.mining, "esLBR"),
+    rebase: formatYield(breakdown.lsd.rebase, "eUSD"),
+    total: percent(breakdown.lsd.total),
+  },
+  treasury: {
+    mining: `${amount(breakdown.treasury.mining)} esLBR`,
+    rebase: `${amount(breakdown.treasury.rebase)} eUSD`,
+  },
+});
+
+task("pool:apr", "Print current and projected APRs of dLP stakers and stETH suppliers with their breakdown")
+  .addOptionalParam("pool", "Match Pool address, defaults to the one deployed on the network")
+  .addOptionalParam("lbrOracle", "LBR price feed, defaults to the one deployed on the network")
+  .addOptionalParam("horizon", "Days to project emissions over", 30, types.int)
+  .addOptionalParam("rebaseWindow", "Blocks to measure the eUSD rebase over, ~1 day by default", 7200, types.int)
+  .addOptionalParam("fromBlock", "Block to start looking for borrow events from", 0, types.int)
+  .addFlag("json", "Print as JSON instead of tables")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const network = getNetwork();
+    const address = taskArguments.pool || getAddress(network, "MatchPool");
+    const match = await ethers.getContractAt("MatchPool", address);
+
+    const report = await getAprReport(hre, match, {
+      lbrOracle: taskArguments.lbrOracle || getAddress(network, "LBROracle"),
+      horizon: taskArguments.horizon * DAY,
+      rebaseWindow: taskArguments.rebaseWindow,
+      fromBlock: taskArguments.fromBlock,
+    });
+    const current = formatBreakdown(report.current);
+    const projected = formatBreakdown(report.projected);
+    const rebase = report.rebasePerYear ? `${amount(report.rebasePerYear)} eUSD` : "unknown";
+    const rewardPerToken = {
+      dlp: formatCheck(report.rewardPerToken.dlp),
+      lsd: formatCheck(report.rewardPerToken.lsd),
+    };
+
+    if (taskArguments.json) {
+      console.log(
+        JSON.stringify(
+          {
+            timestamp: report.timestamp,
+            horizon: report.horizon,
+            prices: {
+              lbr: amount(report.prices.lbr),
+              lp: amount(report.prices.lp),
+              stETH: amount(report.prices.stETH),
+            },
+            staked: amount(report.staked),
+            supplied: amount(report.supplied),
+            emissions: {
+              stakePool: {
+                perSecond: amount(report.emissions.stakePool.perSecond),
+                finishAt: report.emissions.stakePool.finishAt,
+              },
+              mining: {
+                perSecond: amount(report.emissions.mining.perSecond),
+                finishAt: report.emissions.mining.finishAt,
+              },
+            },
+            shares: report.shares,
+            pendingRebase: amount(report.pendingRebase),
+            rebasePerYear: report.rebasePerYear && amount(report.rebasePerYear),
+            current,
+            projected,
+            rewardPerToken,
+          },
+          null,
+          2,
+        ),
+      );
+      return;
+    }
+
+    console.log(`APRs of Match Pool ${address} on ${network}`);
+    console.log(
+      `LBR: $${amount(report.prices.lbr)}, LP: $${amount(report.prices.lp)}, stETH: $${amount(report.prices.stETH)}`,
+    );
+    console.log(`Staked: ${amount(report.staked)} LP, supplied: ${amount(report.supplied)} stETH`);
+    console.log(
+      `Reward shares: ${report.shares.staker}% to dLP stakers, ${report.shares.treasury}% to treasury, ` +
+        `${100 - report.shares.staker - report.shares.treasury}% to stETH suppliers`,
+    );
+    console.log(`Pending rebase: ${amount(report.pendingRebase)} eUSD, rebase per year: ${rebase}`);
+    for (const [name, emission] of Object.entries(report.emissions)) {
+      console.log(`${name} rewards end ${new Date(emission.finishAt * 1000).toISOString()}`);
+    }
+
+    const row = (breakdown: ReturnType<typeof formatBreakdown>) => ({
+      "dLP stakePool": breakdown.dlp.stakePool.apr,
+      "dLP mining": breakdown.dlp.mining.apr,
+      "dLP total": breakdown.dlp.total,
+      "stETH mining": breakdown.lsd.mining.apr,
+      "stETH rebase": breakdown.lsd.rebase.apr,
+      "stETH total": breakdown.lsd.total,
+      "treasury per year": `${breakdown.treasury.mining}, ${breakdown.treasury.rebase}`,
+    });
+    console.table({ current: row(current), [`next ${taskArguments.horizon} days`]: row(projected) });
+    // Large gaps mean the rates above miss something Reward Manager accrues, or accrue it differently
+    console.log("Reward per token per year, from the current rates against Reward Manager's:");
+    console.table({ "dLP stakers": rewardPerToken.dlp, "stETH suppliers": rewardPerToken.lsd });
+  });
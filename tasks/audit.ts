@@ -0,0 +1,68 @@
+import { BigNumber, utils } from "ethers";
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import { DEFAULT_DUST, Reconciliation, getDrift, reconcile } from "../scripts/audit";
+import { DEFAULT_BATCH_SIZE } from "../scripts/indexer";
+import { getAddress } from "../scripts/registry";
+import { getNetwork } from "./helpers";
+
+const amount = (value: BigNumber) => utils.formatUnits(value, 18);
+
+const formatCheck = (check: Reconciliation) => ({
+  name: check.name,
+  recorded: amount(check.recorded),
+  actual: amount(check.actual),
+  difference: amount(check.difference),
+  rebase: amount(check.causes.rebase),
+  rounding: amount(check.causes.rounding),
+  punishment: amount(check.causes.punishment),
+  drift: amount(check.causes.drift),
+});
+
+task("audit:reconcile", "Compare Match Pool accounting with balances held and explain the differences")
+  .addOptionalParam("pool", "Match Pool address, defaults to the one deployed on the network")
+  .addOptionalParam("threshold", "Unexplained drift to fail above, summed over all checks", "0")
+  .addOptionalParam("dust", "Rounding in wei accepted per check", DEFAULT_DUST.toString())
+  .addOptionalParam("fromBlock", "Block to start looking for monitor withdrawals from", 0, types.int)
+  .addOptionalParam("batch", "Blocks per log request", DEFAULT_BATCH_SIZE, types.int)
+  .addFlag("json", "Print as JSON instead of tables")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const network = getNetwork();
+    const address = taskArguments.pool || getAddress(network, "MatchPool");
+    const match = await ethers.getContractAt("MatchPool", address);
+
+    const report = await reconcile(hre, match, {
+      fromBlock: taskArguments.fromBlock,
+      batchSize: taskArguments.batch,
+      dust: BigNumber.from(taskArguments.dust),
+    });
+    const drift = getDrift(report);
+    const threshold = utils.parseUnits(taskArguments.threshold, 18);
+
+    if (taskArguments.json) {
+      console.log(
+        JSON.stringify(
+          {
+            blockNumber: report.blockNumber,
+            mintPool: report.mintPool,
+            checks: report.checks.map(formatCheck),
+            unknownWithdrawals: report.unknownWithdrawals,
+            drift: amount(drift),
+          },
+          null,
+          2,
+        ),
+      );
+    } else {
+      console.log(`Accounting of Match Pool ${address} on ${network} at block ${report.blockNumber}`);
+      console.table(report.checks.map(formatCheck));
+      if (report.unknownWithdrawals.length > 0) {
+        console.log(`Punishment unknown for monitor withdrawals in ${report.unknownWithdrawals.join(", ")}`);
+      }
+      console.log(`Unexplained drift: ${amount(drift)}`);
+    }
+
+    if (drift.gt(threshold)) throw new Error(`Drift of ${amount(drift)} above threshold ${taskArguments.threshold}`);
+  });
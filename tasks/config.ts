@@ -0,0 +1,74 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { PARAMS_FILE, SetterCall, getSetterCalls, readParams, validateParams } from "../scripts/params";
+import { getAddress } from "../scripts/registry";
+import { adminTask, getNetwork, getSigner, sendOwnerCall } from "./helpers";
+
+const loadSetterCalls = async (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+  const network = getNetwork();
+  const params = readParams(network, taskArguments.file);
+  validateParams(params);
+
+  const address = taskArguments.pool || getAddress(network, "MatchPool");
+  const match = await hre.ethers.getContractAt("MatchPool", address);
+  const manager = await hre.ethers.getContractAt("RewardManager", await match.rewardManager());
+
+  return { network, match, manager, calls: await getSetterCalls(hre, match, manager, params) };
+};
+
+const logCalls = (calls: SetterCall[]) => {
+  console.table(
+    calls.flatMap((call) =>
+      call.values.map((value) => ({
+        setter: `${call.contract}.${call.method}`,
+        parameter: value.name,
+        current: value.current,
+        desired: value.desired,
+        changed: value.changed ? "*" : "",
+      })),
+    ),
+  );
+};
+
+task("config:diff", "Compare on-chain risk parameters with the network's parameter file")
+  .addOptionalParam("file", "Parameter file", PARAMS_FILE)
+  .addOptionalParam("pool", "Match Pool address, defaults to the one deployed on the network")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { network, calls } = await loadSetterCalls(taskArguments, hre);
+    const changed = calls.filter((call) => call.changed);
+
+    console.log(`Risk parameters on ${network} against ${taskArguments.file}`);
+    logCalls(calls);
+    console.log(
+      changed.length == 0
+        ? "Up to date"
+        : `${changed.length} setter(s) to send: ${changed.map((call) => call.method).join(", ")}`,
+    );
+  });
+
+adminTask("config:apply", "Send the setters whose parameters differ from the network's parameter file")
+  .addOptionalParam("file", "Parameter file", PARAMS_FILE)
+  .addOptionalParam("signer", "Index of the owner signer", 0, types.int)
+  .addOptionalParam("pool", "Match Pool address, defaults to the one deployed on the network")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { network, match, manager, calls } = await loadSetterCalls(taskArguments, hre);
+    const changed = calls.filter((call) => call.changed);
+    if (changed.length == 0) {
+      console.log(`Risk parameters on ${network} are up to date`);
+      return;
+    }
+
+    const signer = await getSigner(hre, taskArguments, taskArguments.signer);
+
+    logCalls(changed);
+    for (const call of changed) {
+      const contract = (call.contract == "MatchPool" ? match : manager).connect(signer);
+      if (!taskArguments.propose) {
+        const owner = await contract.owner();
+        if (owner != signer.address) throw new Error(`${call.contract} is owned by ${owner}, not ${signer.address}`);
+      }
+
+      await sendOwnerCall(hre, taskArguments, call.contract, contract, call.method, call.args);
+    }
+  });
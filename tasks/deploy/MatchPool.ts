@@ -1,36 +1,35 @@
-import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
 
-import { readAddressList } from "../../scripts/contractAddress";
-import { deployUpgradeable, getNetwork, writeUpgradeableDeployment } from "../helpers";
+import { getAddress } from "../../scripts/registry";
+import { deployUpgradeable, getNetwork, getSigner, txTask, writeUpgradeableDeployment } from "../helpers";
 
-task("deploy:MatchPool", "Deploy MatchPool contract")
-  .setAction(async function (_, { ethers, upgrades }) {
-    const hre = require("hardhat");
+txTask("deploy:MatchPool", "Deploy MatchPool contract")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, upgrades } = hre;
+    const signer = await getSigner(hre, taskArguments);
     const network = getNetwork();
 
     console.log("Deploying...");
 
-    const pool = await deployUpgradeable(ethers, upgrades, "MatchPool", []);
+    const pool = await deployUpgradeable(ethers, upgrades, "MatchPool", [], signer);
 
     console.log(`MatchPool deployed to: ${pool.address} on ${network}`);
 
-    const implementation = await upgrades.erc1967.getImplementationAddress(pool.address);
-    writeUpgradeableDeployment(network, "MatchPool", pool.address, implementation);
+    await writeUpgradeableDeployment(upgrades, network, "MatchPool", pool);
   });
 
-task("deploy:RewardManager", "Deploy Reward Manager contract")
-  .setAction(async function (_, { ethers, upgrades }) {
-    const hre = require("hardhat");
+txTask("deploy:RewardManager", "Deploy Reward Manager contract")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, upgrades } = hre;
+    const signer = await getSigner(hre, taskArguments);
     const network = getNetwork();
-    const addressList = readAddressList()[network];
 
     console.log("Deploying...");
 
-    const manager = await deployUpgradeable(ethers, upgrades, "RewardManager", [addressList.MatchPool]);
+    const args = [getAddress(network, "MatchPool")];
+    const manager = await deployUpgradeable(ethers, upgrades, "RewardManager", args, signer);
 
     console.log(`Reward Manager deployed to: ${manager.address} on ${network}`);
 
-    const implementation = await upgrades.erc1967.getImplementationAddress(manager.address);
-    writeUpgradeableDeployment(network, "RewardManager", manager.address, implementation);
+    await writeUpgradeableDeployment(upgrades, network, "RewardManager", manager);
   });
\ No newline at end of file
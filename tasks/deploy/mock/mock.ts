@@ -1,146 +1,154 @@
-import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
 
-import { readAddressList } from "../../../scripts/contractAddress";
-import { deploy, getNetwork, writeDeployment } from "../../helpers";
+import { getAddress } from "../../../scripts/registry";
+import { deploy, getNetwork, getSigner, txTask, writeDeployment } from "../../helpers";
 
-task("deploy:LPToken", "Deploy mock ETH-LBR LP token")
-  .setAction(async function (_, { ethers, upgrades }) {
-    const hre = require("hardhat");
+txTask("deploy:LPToken", "Deploy mock ETH-LBR LP token")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const signer = await getSigner(hre, taskArguments);
     const network = getNetwork();
 
     console.log("Deploying...");
 
-    const token = await deploy(ethers, "LPToken", []);
+    const token = await deploy(ethers, "LPToken", [], signer);
 
     console.log(`ETH-LBR LP token deployed to: ${token.address} on ${network}`);
 
-    writeDeployment(network, "LPToken", token.address, []);
+    await writeDeployment(network, "LPToken", token, []);
   });
 
-task("deploy:LPOracle", "Deploy mock ETH-LBR LP token oracle")
-  .setAction(async function (_, { ethers, upgrades }) {
-    const hre = require("hardhat");
+txTask("deploy:LPOracle", "Deploy mock ETH-LBR LP token oracle")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const signer = await getSigner(hre, taskArguments);
     const network = getNetwork();
 
     console.log("Deploying...");
 
-    const oracle = await deploy(ethers, "LPOracle", []);
+    const oracle = await deploy(ethers, "LPOracle", [], signer);
 
     console.log(`ETH-LBR LP token oracle deployed to: ${oracle.address} on ${network}`);
 
-    writeDeployment(network, "LPOracle", oracle.address, []);
+    await writeDeployment(network, "LPOracle", oracle, []);
   });
 
-task("deploy:LBROracle", "Deploy mock LBR token oracle")
-  .setAction(async function (_, { ethers, upgrades }) {
-    const hre = require("hardhat");
+txTask("deploy:LBROracle", "Deploy mock LBR token oracle")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const signer = await getSigner(hre, taskArguments);
     const network = getNetwork();
 
     console.log("Deploying...");
 
-    const oracle = await deploy(ethers, "LBROracle", []);
+    const oracle = await deploy(ethers, "LBROracle", [], signer);
 
     console.log(`LBR token oracle deployed to: ${oracle.address} on ${network}`);
 
-    writeDeployment(network, "LBROracle", oracle.address, []);
+    await writeDeployment(network, "LBROracle", oracle, []);
   });
 
-task("deploy:StakePool", "Deploy mock Lybra stake pool contract")
-  .setAction(async function (_, { ethers, upgrades }) {
-    const hre = require("hardhat");
+txTask("deploy:StakePool", "Deploy mock Lybra stake pool contract")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const signer = await getSigner(hre, taskArguments);
     const network = getNetwork();
 
     console.log("Deploying...");
 
-    const args = [readAddressList()[network]["LPToken"]];
+    const args = [getAddress(network, "LPToken")];
 
-    const pool = await deploy(ethers, "StakePool", args);
+    const pool = await deploy(ethers, "StakePool", args, signer);
 
     console.log(`StakePool deployed to: ${pool.address} on ${network}`);
 
-    writeDeployment(network, "StakePool", pool.address, args);
+    await writeDeployment(network, "StakePool", pool, args);
   });
 
-task("deploy:Configurator", "Deploy mock Lybra configurator contract")
-  .setAction(async function (_, { ethers, upgrades }) {
-    const hre = require("hardhat");
+txTask("deploy:Configurator", "Deploy mock Lybra configurator contract")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const signer = await getSigner(hre, taskArguments);
     const network = getNetwork();
 
     console.log("Deploying...");
 
-    const args = [readAddressList()[network].EUSDMock];
-    const configurator = await deploy(ethers, "LybraConfigurator", args);
+    const args = [getAddress(network, "EUSDMock")];
+    const configurator = await deploy(ethers, "LybraConfigurator", args, signer);
 
     console.log(`Lybra configurator deployed to: ${configurator.address} on ${network}`);
 
-    writeDeployment(network, "LybraConfigurator", configurator.address, args);
+    await writeDeployment(network, "LybraConfigurator", configurator, args);
   });
 
-task("deploy:MintPool", "Deploy mock Lybra stETH mint pool contract")
-  .setAction(async function (_, { ethers, upgrades }) {
-    const hre = require("hardhat");
+txTask("deploy:MintPool", "Deploy mock Lybra stETH mint pool contract")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const signer = await getSigner(hre, taskArguments);
     const network = getNetwork();
 
     console.log("Deploying...");
 
     const args = [
-      readAddressList()[network]["stETHMock"],
-      readAddressList()[network]["EUSDMock"]
+      getAddress(network, "stETHMock"),
+      getAddress(network, "EUSDMock"),
+      getAddress(network, "LybraConfigurator")
     ];
 
-    const pool = await deploy(ethers, "LybraMintPool", args);
+    const pool = await deploy(ethers, "LybraMintPool", args, signer);
 
     console.log(`Lybra stETH mint pool deployed to: ${pool.address} on ${network}`);
 
-    writeDeployment(network, "LybraMintPool", pool.address, args);
+    await writeDeployment(network, "LybraMintPool", pool, args);
   });
 
-task("deploy:stETH", "Deploy mock stETH token")
-  .setAction(async function (_, { ethers, upgrades }) {
-    const hre = require("hardhat");
+txTask("deploy:stETH", "Deploy mock stETH token")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const signer = await getSigner(hre, taskArguments);
     const network = getNetwork();
 
     console.log("Deploying...");
 
-    const token = await deploy(ethers, "stETHMock", []);
+    const token = await deploy(ethers, "stETHMock", [], signer);
 
     console.log(`stETH token deployed to: ${token.address} on ${network}`);
 
-    writeDeployment(network, "stETHMock", token.address, []);
+    await writeDeployment(network, "stETHMock", token, []);
   });
 
-task("deploy:eUSD", "Deploy mock Lybra eUSD contract")
-  .setAction(async function (_, { ethers }) {
-    const hre = require("hardhat");
+txTask("deploy:eUSD", "Deploy mock Lybra eUSD contract")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const signer = await getSigner(hre, taskArguments);
     const network = getNetwork();
 
     console.log("Deploying...");
 
     const args = ["0x0000000000000000000000000000000000000000"];
 
-    const token = await deploy(ethers, "EUSDMock", args);
+    const token = await deploy(ethers, "EUSDMock", args, signer);
 
     console.log(`eUSD deployed to: ${token.address} on ${network}`);
 
-    writeDeployment(network, "EUSDMock", token.address, args);
+    await writeDeployment(network, "EUSDMock", token, args);
   });
 
-task("deploy:Mining", "Deploy mock Lybra mining incentive contract")
-  .setAction(async function (_, { ethers }) {
-    const hre = require("hardhat");
+txTask("deploy:Mining", "Deploy mock Lybra mining incentive contract")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const signer = await getSigner(hre, taskArguments);
     const network = getNetwork();
-    const addressList = readAddressList()[network];
 
     console.log("Deploying...");
 
-    const args = [addressList.LybraConfigurator, addressList.LPOracle, addressList.LBROracle];
+    const args = ["LybraConfigurator", "LPOracle", "LBROracle"].map((name) => getAddress(network, name));
 
-    const mining = await deploy(ethers, "MiningIncentive", args);
+    const mining = await deploy(ethers, "MiningIncentive", args, signer);
 
     console.log(`Lybra mining incentive deployed to: ${mining.address} on ${network}`);
 
-    writeDeployment(network, "MiningIncentive", mining.address, args);
+    await writeDeployment(network, "MiningIncentive", mining, args);
   });
 
 
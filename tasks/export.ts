@@ -0,0 +1,32 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import { BUNDLE_DIR, buildBundle, writeBundle } from "../scripts/bundle";
+import { readRegistry } from "../scripts/registry";
+
+task("export:abi", "Export addresses, ABIs, typechain types, events and errors of each network as one bundle")
+  .addOptionalParam("networks", "Comma separated networks, defaults to every network of the registry")
+  .addOptionalParam("out", "Directory to write a bundle per network to", BUNDLE_DIR)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    // Artifacts and typechain types up to date with the sources
+    await hre.run("compile", { quiet: true });
+
+    const networks: string[] = taskArguments.networks
+      ? taskArguments.networks.split(",").map((network: string) => network.trim())
+      : Object.keys(readRegistry());
+
+    const summary = [];
+    for (const network of networks) {
+      const bundle = await buildBundle(hre, network);
+      const files = writeBundle(hre, bundle, taskArguments.out);
+      summary.push({
+        network,
+        chainId: bundle.chainId,
+        version: bundle.version,
+        contracts: Object.keys(bundle.contracts).join(", "),
+        files: files.length,
+      });
+    }
+    console.table(summary);
+    console.log(`Bundles written to ${taskArguments.out}/<network>`);
+  });
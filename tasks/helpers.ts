@@ -1,11 +1,13 @@
-import { Contract, ContractFactory } from "ethers";
+import type { HardhatEthersHelpers } from "@nomiclabs/hardhat-ethers/types";
+import type { HardhatUpgrades } from "@openzeppelin/hardhat-upgrades";
+import { Contract, ContractFactory, ContractReceipt, Signer, Wallet, utils } from "ethers";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
 
-import {
-  readAddressList,
-  readArgs,
-  storeAddressList,
-  storeArgs
-} from "../scripts/contractAddress";
+import { loadKeystore } from "../scripts/keystore";
+import { Deployment, recordDeployment, recordImplementation, recordPendingImplementation } from "../scripts/registry";
+import { proposeCall, summarizeCall } from "../scripts/safe";
+import { FeeOptions, TxSigner } from "../scripts/transactions";
 
 export const getNetwork = () => {
   const hre = require("hardhat");
@@ -14,80 +16,214 @@ export const getNetwork = () => {
   return _network;
 };
 
-/********************************* Store addresses & args *************************************/
-
-export const writeDeployment = (network: string, name: string, _address: string, _args: Array<any>) => {
-  const addressList = readAddressList();
-  addressList[network][name] = _address;
-  storeAddressList(addressList);
+/*********************************** Signers ********************************************/
+
+/**
+ * @notice Task sending transactions, fees can be set with --maxFee and --priorityFee
+ */
+export const txTask = (name: string, description: string) =>
+  task(name, description)
+    .addOptionalParam("maxFee", "Max fee per gas in gwei, defaults to the network's capped at MAX_FEE_GWEI")
+    .addOptionalParam(
+      "priorityFee",
+      "Max priority fee per gas in gwei, defaults to the network's capped at MAX_PRIORITY_FEE_GWEI",
+    );
+
+const parseGwei = (value?: string) => (value ? utils.parseUnits(value, "gwei") : undefined);
+
+export const getFeeOptions = (taskArguments: TaskArguments): FeeOptions => ({
+  maxFeePerGas: parseGwei(taskArguments.maxFee),
+  maxPriorityFeePerGas: parseGwei(taskArguments.priorityFee),
+  maxFeePerGasCap: parseGwei(process.env.MAX_FEE_GWEI),
+  maxPriorityFeePerGasCap: parseGwei(process.env.MAX_PRIORITY_FEE_GWEI),
+});
+
+// One signer per account for the whole run, so that nonces of queued transactions never collide
+const txSigners: Record<string, TxSigner> = {};
+// Decrypted once per run
+let keystoreWallet: Promise<Wallet> | undefined;
+
+/**
+ * @return Account of the KEYSTORE file on remote networks when set, the accounts of the network config otherwise
+ */
+const getAccounts = async ({
+  ethers,
+  network,
+}: HardhatRuntimeEnvironment): Promise<Array<Signer & { address: string }>> => {
+  const keystore = process.env.KEYSTORE;
+  if (!keystore || network.name == "hardhat" || network.name == "localhost") return await ethers.getSigners();
+
+  keystoreWallet = keystoreWallet ?? loadKeystore(keystore, process.env.KEYSTORE_PASSWORD);
+  return [(await keystoreWallet).connect(ethers.provider)];
+};
 
-  const argsList = readArgs();
-  argsList[network][name] = { address: _address, args: _args };
-  storeArgs(argsList);
+/**
+ * @return Every account of the network wrapped in the shared transaction signer
+ */
+export const getSigners = async (hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments = {}) => {
+  const signers = await getAccounts(hre);
+  return signers.map((signer) => {
+    txSigners[signer.address] = txSigners[signer.address] ?? new TxSigner(signer, getFeeOptions(taskArguments));
+    return txSigners[signer.address];
+  });
 };
 
-export const writeUpgradeableDeployment = (network: string, name: string, _address: string, implementation: string) => {
-  const addressList = readAddressList();
-  addressList[network][name] = _address;
-  storeAddressList(addressList);
+export const getSigner = async (hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments = {}, index = 0) => {
+  const signer = (await getSigners(hre, taskArguments))[index];
+  if (!signer) throw new Error(`No signer at index ${index}`);
+  return signer;
+};
 
-  const argsList = readArgs();
-  argsList[network][name] = { address: implementation, args: [] };
-  storeArgs(argsList);
+/*********************************** Owner calls ********************************************/
+
+/**
+ * @notice Task sending owner calls, which with --propose are written to a Safe batch file instead of being sent
+ */
+export const adminTask = (name: string, description: string) =>
+  txTask(name, description).addOptionalParam(
+    "propose",
+    "Append the owner calls to this Safe Transaction Builder batch file instead of sending them",
+  );
+
+/**
+ * @notice Sends { method } of { contract } from its connected signer, or proposes it when the task runs with --propose
+ * @return Receipt once mined, nothing when proposed
+ */
+export const sendOwnerCall = async (
+  { network }: HardhatRuntimeEnvironment,
+  taskArguments: TaskArguments,
+  name: string,
+  contract: Contract,
+  method: string,
+  args: unknown[],
+): Promise<ContractReceipt | undefined> => {
+  const call = { contract: name, to: contract.address, contractInterface: contract.interface, method, args };
+
+  if (taskArguments.propose) {
+    // Chain id from the config keeps proposing offline
+    const chainId = network.config.chainId ?? (await contract.provider.getNetwork()).chainId;
+    proposeCall(taskArguments.propose, chainId, call);
+    console.log(`Proposed ${summarizeCall(call)} in ${taskArguments.propose}`);
+    return undefined;
+  }
+
+  console.log(`Sending ${summarizeCall(call)}...`);
+  const receipt = await (await contract[method](...args)).wait();
+  console.log(`${name}.${method} done in tx ${receipt.transactionHash}`);
+  return receipt;
 };
 
-/**************************************** Deployment ****************************************/
+/********************************* Store deployments *************************************/
 
-export const deploy = async (ethers: HardhatEthersHelpers, artifact: string, params: Array<any>) => {
-  const signers: SignerWithAddress[] = await ethers.getSigners();
+export const getChainId = async (): Promise<number> => {
+  const { network, ethers } = require("hardhat");
+  return network.config.chainId ?? (await ethers.provider.getNetwork()).chainId;
+};
 
-  const factory: ContractFactory = <ContractFactory>await ethers.getContractFactory(artifact);
-  let contract: Contract;
+// Registry entry of a freshly deployed { contract }
+const toDeployment = async (contract: Contract, args: unknown[]): Promise<Deployment> => {
+  const receipt = await contract.deployTransaction.wait();
+  return {
+    address: contract.address,
+    args,
+    txHash: receipt.transactionHash,
+    block: receipt.blockNumber,
+    deployedAt: new Date().toISOString(),
+  };
+};
 
-  if (params.length > 0) contract = await factory.connect(signers[0]).deploy(...params);
-  else contract = await factory.connect(signers[0]).deploy();
+export const writeDeployment = async (network: string, name: string, contract: Contract, args: unknown[]) => {
+  recordDeployment(network, await getChainId(), name, await toDeployment(contract, args));
+};
 
-  return await contract.deployed();
+/**
+ * @notice Records the proxy { contract } with its admin and first implementation
+ */
+export const writeUpgradeableDeployment = async (
+  upgrades: HardhatUpgrades,
+  network: string,
+  name: string,
+  contract: Contract,
+) => {
+  const implementation: string = await upgrades.erc1967.getImplementationAddress(contract.address);
+  recordDeployment(network, await getChainId(), name, {
+    ...(await toDeployment(contract, [])),
+    proxyAdmin: await upgrades.erc1967.getAdminAddress(contract.address),
+    implementation,
+    implementations: [{ address: implementation, recordedAt: new Date().toISOString() }],
+  });
 };
 
-export const deployUpgradeable = async (
-  ethers: HardhatEthersHelpers,
-  upgrades: any,
-  artifact: string,
-  params: Array<any>,
+/**
+ * @notice Records { implementation } as the one the proxy points to,
+ *  { upgradeTx } is added to the latest entry once the proxy is actually upgraded
+ */
+export const writeImplementation = async (
+  network: string,
+  name: string,
+  proxy: string,
+  implementation: string,
+  upgradeTx?: string,
 ) => {
-  const FEE_DATA = {
-    maxFeePerGas: ethers.utils.parseUnits('8', 'gwei'),
-    maxPriorityFeePerGas: ethers.utils.parseUnits('3', 'gwei'),
-  };
+  recordImplementation(network, await getChainId(), name, proxy, implementation, upgradeTx);
+};
 
-  // Wrap the provider so we can override fee data.
-  const provider = new ethers.providers.FallbackProvider([ethers.provider], 1);
-  provider.getFeeData = async () => FEE_DATA;
+/**
+ * @notice Records { implementation } as deployed for an upgrade of the proxy still to be executed
+ */
+export const writePendingImplementation = async (
+  network: string,
+  name: string,
+  proxy: string,
+  implementation: string,
+) => {
+  recordPendingImplementation(network, await getChainId(), name, proxy, implementation);
+};
 
-  // Create the signer for the mnemonic, connected to the provider with hardcoded fee data
-  const signer = new ethers.Wallet(process.env.PRIVATE_KEY).connect(provider);
+/**************************************** Deployment ****************************************/
 
-  const factory: ContractFactory = <ContractFactory>await ethers.getContractFactory(artifact,signer);
-  let contract: Contract = await upgrades.deployProxy(factory, params);
+export const deploy = async (ethers: HardhatEthersHelpers, artifact: string, params: unknown[], signer: Signer) => {
+  const factory: ContractFactory = <ContractFactory>await ethers.getContractFactory(artifact, signer);
+  const contract: Contract = await factory.deploy(...params);
 
   return await contract.deployed();
 };
 
-export const upgrade = async (ethers: HardhatEthersHelpers, upgrades: any, artifact: string, address: string) => {
-  const FEE_DATA = {
-      maxFeePerGas: ethers.utils.parseUnits('22', 'gwei'),
-      maxPriorityFeePerGas: ethers.utils.parseUnits('1', 'gwei'),
-    };
+export const deployUpgradeable = async (
+  ethers: HardhatEthersHelpers,
+  upgrades: HardhatUpgrades,
+  artifact: string,
+  params: unknown[],
+  signer: Signer,
+) => {
+  const factory: ContractFactory = <ContractFactory>await ethers.getContractFactory(artifact, signer);
+  const contract: Contract = await upgrades.deployProxy(factory, params);
 
-    // Wrap the provider so we can override fee data.
-    const provider = new ethers.providers.FallbackProvider([ethers.provider], 1);
-    provider.getFeeData = async () => FEE_DATA;
+  return await contract.deployed();
+};
 
-    // Create the signer for the mnemonic, connected to the provider with hardcoded fee data
-    const signer = new ethers.Wallet(process.env.PRIVATE_KEY).connect(provider);
+export const upgrade = async (
+  ethers: HardhatEthersHelpers,
+  upgrades: HardhatUpgrades,
+  artifact: string,
+  address: string,
+  signer: Signer,
+) => {
+  const factory: ContractFactory = <ContractFactory>await ethers.getContractFactory(artifact, signer);
+  // Address of the new implementation, reused if already deployed, without getTxResponse
+  const implementation = (await upgrades.prepareUpgrade(address, factory)) as string;
+  return implementation;
+};
 
-    const factory: ContractFactory = <ContractFactory>await ethers.getContractFactory(artifact, signer);
-    let contract: Contract = await upgrades.prepareUpgrade(address, factory);
-    return contract;
+/**
+ * @notice Throws if the new implementation of { artifact } is not upgrade safe or not storage compatible with { address }
+ */
+export const validateUpgrade = async (
+  ethers: HardhatEthersHelpers,
+  upgrades: HardhatUpgrades,
+  artifact: string,
+  address: string,
+) => {
+  const factory: ContractFactory = <ContractFactory>await ethers.getContractFactory(artifact);
+  await upgrades.validateUpgrade(address, factory, { kind: "transparent" });
 };
@@ -1,6 +1,7 @@
 // Auxiliary
 const accounts = require("./accounts");
 const verifier = require("./verifier");
+const registry = require("./registry");
 
 // Mock
 const deployMock = require("./deploy/mock/mock");
@@ -9,14 +10,41 @@ const deployMock = require("./deploy/mock/mock");
 const deployMatchPool = require("./deploy/MatchPool");
 const upgradeMatchPool = require("./upgrade/MatchPool");
 const MatchPool = require("./MatchPool");
+const monitor = require("./monitor");
+const status = require("./status");
+const position = require("./position");
+const liquidation = require("./liquidation");
+const config = require("./config");
+const admin = require("./admin");
+const indexer = require("./indexer");
+const apr = require("./apr");
+const interest = require("./interest");
+const audit = require("./audit");
+const wiring = require("./wiring");
+const seed = require("./seed");
+const exportAbi = require("./export");
 
 export {
   accounts,
   verifier,
+  registry,
   //
   deployMock,
   //
   deployMatchPool,
   upgradeMatchPool,
-  MatchPool
+  MatchPool,
+  monitor,
+  status,
+  position,
+  liquidation,
+  config,
+  admin,
+  indexer,
+  apr,
+  interest,
+  audit,
+  wiring,
+  seed,
+  exportAbi,
 };
@@ -0,0 +1,168 @@
+import { BigNumber, utils } from "ethers";
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import {
+  DEFAULT_BATCH_SIZE,
+  EventStore,
+  checkStore,
+  createStore,
+  getAccountHistory,
+  getDailyVolumes,
+  getParameterTimeline,
+  getPunishment,
+  getStorePath,
+  indexEvents,
+  readStore,
+} from "../scripts/indexer";
+import { getAddress, getDeployment } from "../scripts/registry";
+import { getNetwork } from "./helpers";
+
+const amount = (value: BigNumber) => utils.formatUnits(value, 18);
+// Amounts of user events are all in 18 decimals
+const formatArg = (value: string | boolean) =>
+  typeof value == "boolean" || utils.isAddress(value) ? value : amount(BigNumber.from(value));
+
+const loadStore = (taskArguments: TaskArguments): EventStore => {
+  const file = taskArguments.store || getStorePath(getNetwork());
+  const store = readStore(file);
+  if (!store) throw new Error(`No event store at ${file}, run index:sync first`);
+  return store;
+};
+
+// Options of all query tasks
+const queryTask = (name: string, description: string) =>
+  task(name, description)
+    .addOptionalParam("store", "Event store, defaults to index/<network>.json")
+    .addFlag("json", "Print as JSON instead of tables");
+
+task(
+  "index:sync",
+  "Index Match Pool and Reward Manager events into the local event store, resuming from its checkpoint",
+)
+  .addOptionalParam("pool", "Match Pool address, defaults to the one deployed on the network")
+  .addOptionalParam("store", "Event store, defaults to index/<network>.json")
+  .addOptionalParam(
+    "from",
+    "First block of a new store, defaults to the Match Pool deployment block",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("batch", "Blocks per log request", DEFAULT_BATCH_SIZE, types.int)
+  .addOptionalParam("confirmations", "Blocks to stay behind the head, as they may still be reorged", 0, types.int)
+  .addFlag("reset", "Discard the store and index again from the first block")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const network = getNetwork();
+    const file = taskArguments.store || getStorePath(network);
+    const address = taskArguments.pool || getAddress(network, "MatchPool");
+
+    const match = await ethers.getContractAt("MatchPool", address);
+    const contracts = {
+      MatchPool: match,
+      RewardManager: await ethers.getContractAt("RewardManager", await match.rewardManager()),
+    };
+
+    let store = taskArguments.reset ? undefined : readStore(file);
+    if (store) {
+      await checkStore(store, contracts);
+    } else {
+      const { chainId } = await ethers.provider.getNetwork();
+      const deployment = taskArguments.pool ? undefined : getDeployment(network, "MatchPool");
+      const fromBlock = taskArguments.from ?? deployment?.block ?? 0;
+      store = createStore(network, chainId, fromBlock);
+    }
+
+    const toBlock = (await ethers.provider.getBlockNumber()) - taskArguments.confirmations;
+    if (toBlock <= store.checkpoint) {
+      console.log(`Already indexed up to block ${store.checkpoint}`);
+      return;
+    }
+
+    console.log(`Indexing blocks ${store.checkpoint + 1} to ${toBlock} into ${file}`);
+    const indexed = await indexEvents(contracts, store, file, {
+      toBlock,
+      batchSize: taskArguments.batch,
+      onBatch: (from, to, events) => console.log(`  ${from} - ${to}: ${events.length} event(s)`),
+    });
+    console.log(`Indexed ${indexed} event(s), ${store.events.length} in store`);
+  });
+
+queryTask("index:history", "Print the Match Pool history of an account from the event store")
+  .addParam("account", "Account address")
+  .setAction(async function (taskArguments: TaskArguments) {
+    const history = getAccountHistory(loadStore(taskArguments), taskArguments.account);
+
+    if (taskArguments.json) {
+      console.log(JSON.stringify(history, null, 2));
+      return;
+    }
+    console.log(`History of ${taskArguments.account}`);
+    console.table(
+      history.map((event) => ({
+        date: new Date(event.timestamp * 1000).toISOString(),
+        block: event.blockNumber,
+        event: event.name,
+        ...Object.fromEntries(Object.entries(event.args).map(([name, value]) => [name, formatArg(value)])),
+      })),
+    );
+  });
+
+queryTask(
+  "index:volumes",
+  "Print daily volumes of stakes, supplies, borrows, repayments, liquidations and claims",
+).setAction(async function (taskArguments: TaskArguments) {
+  const volumes = getDailyVolumes(loadStore(taskArguments));
+  const rows = Object.fromEntries(
+    Object.entries(volumes).map(([day, events]) => [
+      day,
+      Object.fromEntries(Object.entries(events).map(([name, value]) => [name, amount(value)])),
+    ]),
+  );
+
+  if (taskArguments.json) {
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+  console.log("Daily volumes");
+  console.table(rows);
+});
+
+queryTask("index:punishment", "Print stETH lost to Lybra withdrawal punishment, in total and per account").setAction(
+  async function (taskArguments: TaskArguments) {
+    const { total, accounts } = getPunishment(loadStore(taskArguments));
+    const perAccount = Object.fromEntries(Object.entries(accounts).map(([account, value]) => [account, amount(value)]));
+
+    if (taskArguments.json) {
+      console.log(JSON.stringify({ total: amount(total), accounts: perAccount }, null, 2));
+      return;
+    }
+    console.log(`Total punishment: ${amount(total)} stETH`);
+    console.table(perAccount);
+  },
+);
+
+queryTask("index:params", "Print every parameter change of Match Pool and Reward Manager").setAction(async function (
+  taskArguments: TaskArguments,
+) {
+  const timeline = getParameterTimeline(loadStore(taskArguments));
+
+  if (taskArguments.json) {
+    console.log(JSON.stringify(timeline, null, 2));
+    return;
+  }
+  console.log("Parameter changes");
+  console.table(
+    timeline.map((event) => ({
+      date: new Date(event.timestamp * 1000).toISOString(),
+      block: event.blockNumber,
+      contract: event.contract,
+      event: event.name,
+      // Raw values, scaled as in the setters
+      values: Object.entries(event.args)
+        .map(([name, value]) => `${name}=${value}`)
+        .join(" "),
+      transaction: event.transactionHash,
+    })),
+  );
+});
@@ -0,0 +1,121 @@
+import { BigNumber, utils } from "ethers";
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import {
+  InterestParams,
+  InterestProjection,
+  getRatePerSec,
+  loadInterestParams,
+  loadInterestState,
+  projectInterest,
+  simulateParams,
+} from "../scripts/interest";
+import { getAddress } from "../scripts/registry";
+import { getNetwork } from "./helpers";
+
+const amount = (value: BigNumber) => utils.formatUnits(value, 18);
+// Borrow ratios are out of 1e20
+const percent = (value: BigNumber) => `${utils.formatUnits(value, 18)}%`;
+
+const DAY = 24 * 3600;
+const YEAR = 365 * DAY;
+
+const formatParams = (params: InterestParams) => ({
+  borrowRatePerYear: percent(params.borrowRatePerSec.mul(YEAR).mul(100)),
+  maxBorrowRatio: percent(params.maxBorrowRatio),
+  globalBorrowRatioThreshold: percent(params.globalBorrowRatioThreshold),
+});
+
+const formatProjection = (projection: InterestProjection) => ({
+  params: formatParams(projection.params),
+  globalBorrowRatio: percent(projection.globalBorrowRatio),
+  chargingNewBorrows: projection.chargingNewBorrows,
+  totalOwed: amount(projection.totalOwed),
+  totalProjected: amount(projection.totalProjected),
+  revenuePerYear: amount(projection.revenuePerYear),
+  borrowers: projection.borrowers.map((borrower) => ({
+    account: borrower.account,
+    principal: amount(borrower.principal),
+    interestAmount: amount(borrower.interestAmount),
+    owed: amount(borrower.owed),
+    projected: amount(borrower.projected),
+  })),
+});
+
+const printProjection = (title: string, projection: InterestProjection) => {
+  const formatted = formatProjection(projection);
+  console.log(title);
+  console.table({ ...formatted.params, globalBorrowRatio: formatted.globalBorrowRatio });
+  if (formatted.borrowers.length > 0) console.table(formatted.borrowers);
+  console.log(
+    `Owed to treasury: ${formatted.totalOwed} eUSD, accruing over horizon: ${formatted.totalProjected} eUSD, ` +
+      `per year: ${formatted.revenuePerYear} eUSD`,
+  );
+  console.log(`New borrows ${projection.chargingNewBorrows ? "are" : "are not"} charged interest`);
+};
+
+task("interest:project", "Project borrow interest owed to the treasury, optionally under new borrow params")
+  .addOptionalParam("pool", "Match Pool address, defaults to the one deployed on the network")
+  .addOptionalParam("horizon", "Days to project interest over", 30, types.int)
+  .addOptionalParam("rate", "Proposed borrow rate per year in percent, as for setBorrowRate")
+  .addOptionalParam("maxBorrowRatio", "Proposed max. borrow ratio in percent, as for setBorrowRatio")
+  .addOptionalParam("threshold", "Proposed global borrow ratio charging interest in percent, as for setBorrowRatio")
+  .addOptionalParam("fromBlock", "Block to start looking for borrow events from", 0, types.int)
+  .addFlag("json", "Print as JSON instead of tables")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const network = getNetwork();
+    const address = taskArguments.pool || getAddress(network, "MatchPool");
+    const match = await ethers.getContractAt("MatchPool", address);
+
+    const horizon = taskArguments.horizon * DAY;
+    const state = await loadInterestState(match, taskArguments.fromBlock);
+    const current = await loadInterestParams(match);
+
+    const proposed: Partial<InterestParams> = {};
+    // Scaled by 1e18, 1e18 -> 100% per year
+    if (taskArguments.rate) proposed.borrowRatePerSec = getRatePerSec(utils.parseUnits(taskArguments.rate, 16));
+    if (taskArguments.maxBorrowRatio) proposed.maxBorrowRatio = utils.parseUnits(taskArguments.maxBorrowRatio, 18);
+    if (taskArguments.threshold) proposed.globalBorrowRatioThreshold = utils.parseUnits(taskArguments.threshold, 18);
+
+    if (Object.keys(proposed).length == 0) {
+      const projection = projectInterest(state, current, horizon);
+      if (taskArguments.json) {
+        console.log(JSON.stringify({ timestamp: state.timestamp, horizon, ...formatProjection(projection) }, null, 2));
+        return;
+      }
+      printProjection(
+        `Borrow interest of Match Pool ${address} on ${network}, next ${taskArguments.horizon} days`,
+        projection,
+      );
+      return;
+    }
+
+    const simulation = simulateParams(state, current, proposed, horizon);
+    if (taskArguments.json) {
+      console.log(
+        JSON.stringify(
+          {
+            timestamp: state.timestamp,
+            horizon,
+            current: formatProjection(simulation.current),
+            proposed: formatProjection(simulation.proposed),
+            revenueChange: amount(simulation.revenueChange),
+            startPaying: simulation.startPaying,
+            chargedOnNextBorrow: simulation.chargedOnNextBorrow,
+          },
+          null,
+          2,
+        ),
+      );
+      return;
+    }
+
+    console.log(`Borrow interest of Match Pool ${address} on ${network}, next ${taskArguments.horizon} days`);
+    printProjection("Current params", simulation.current);
+    printProjection("Proposed params", simulation.proposed);
+    console.log(`Revenue change over horizon: ${amount(simulation.revenueChange)} eUSD`);
+    console.log(`Start paying interest: ${simulation.startPaying.join(", ") || "none"}`);
+    console.log(`Charged on their next borrow: ${simulation.chargedOnNextBorrow.join(", ") || "none"}`);
+  });
@@ -0,0 +1,74 @@
+import { BigNumber, utils } from "ethers";
+import { types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import { executeLiquidations, getBorrowers, getLiquidationParams, scanLiquidations } from "../scripts/liquidation";
+import { getAddress } from "../scripts/registry";
+import { getNetwork, getSigner, txTask } from "./helpers";
+
+const amount = (value: BigNumber) => utils.formatUnits(value, 18);
+const percent = (value: BigNumber) => `${utils.formatUnits(value, 18)}%`;
+
+txTask("liquidation:scan", "List borrowers that can be liquidated, and liquidate them with --execute")
+  .addFlag("execute", "Liquidate every account found, approving eUSD if needed")
+  .addFlag("force", "With --execute, also liquidate accounts above water that liquidate() lets through")
+  .addOptionalParam("fromBlock", "Block to start looking for borrow events from", 0, types.int)
+  .addOptionalParam("signer", "Index of the signer liquidating", 0, types.int)
+  .addOptionalParam("liquidator", "Account whose principal liquidate() checks, defaults to the signer")
+  .addOptionalParam("pool", "Match Pool address, defaults to the one deployed on the network")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const network = getNetwork();
+    const address = taskArguments.pool || getAddress(network, "MatchPool");
+    const match = await ethers.getContractAt("MatchPool", address);
+
+    // liquidate() checks the principal of the liquidator, not of the account
+    const signer = taskArguments.execute ? await getSigner(hre, taskArguments, taskArguments.signer) : undefined;
+    const liquidator = signer ? await signer.getAddress() : taskArguments.liquidator;
+
+    const borrowers = await getBorrowers(match, taskArguments.fromBlock);
+    const params = await getLiquidationParams(match);
+    const candidates = await scanLiquidations(match, borrowers, params, liquidator);
+
+    console.log(`${borrowers.length} borrower(s) found in Match Pool ${address} on ${network}`);
+    console.log(
+      `Asset price: ${amount(params.price)}, global borrow ratio: ${percent(params.globalBorrowRatio)}, ` +
+        `close factor: ${percent(params.closeFactor)}, discount: ${percent(params.liquidationDiscount)}`,
+    );
+    if (candidates.length == 0) {
+      console.log("No account can be liquidated");
+      return;
+    }
+
+    console.table(
+      candidates.map((candidate) => ({
+        account: candidate.account,
+        supplied: amount(candidate.supplied),
+        borrowed: amount(candidate.principal),
+        liquidationThreshold: amount(candidate.liquidationThreshold),
+        underwater: candidate.underwater,
+        liquidatorPrincipal: amount(candidate.liquidatorPrincipal),
+        liquidatable: candidate.liquidatable,
+        maxRepay: amount(candidate.maxRepay),
+        seizeAmount: amount(candidate.seizeAmount),
+      })),
+    );
+    const mismatches = candidates.filter((candidate) => candidate.underwater != candidate.liquidatable);
+    if (mismatches.length > 0) {
+      console.log(`${mismatches.length} account(s) where liquidate() disagrees with the account's own principal`);
+    }
+    if (!signer) return;
+
+    const results = await executeLiquidations(match, signer, candidates, params, taskArguments.force);
+    for (const result of results) {
+      if (result.error) {
+        console.log(`Skipped ${result.account}: ${result.error}`);
+        continue;
+      }
+      console.log(
+        `Liquidated ${result.account} repaying ${amount(result.repayAmount)} eUSD in tx ${
+          result.receipt?.transactionHash
+        }`,
+      );
+    }
+  });
@@ -0,0 +1,96 @@
+import { BigNumber } from "ethers";
+import { types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import {
+  RebalancePlan,
+  RebalancePreference,
+  executeRebalance,
+  getVaultState,
+  planRebalance,
+} from "../scripts/rebalance";
+import { getAddress } from "../scripts/registry";
+import { getNetwork, getSigner, txTask } from "./helpers";
+
+const POLL_INTERVAL_MS = 12_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const formatRatio = (ratio: BigNumber) => `${ratio.div(BigNumber.from(10).pow(14)).toNumber() / 10000}%`;
+
+const logPlan = (plan: RebalancePlan, format: (amount: BigNumber) => string) => {
+  const { state } = plan;
+  console.log(`\nVault: ${state.vault}`);
+  console.log("Asset price:      ", format(state.price));
+  console.log("Total supplied:   ", format(state.supplied));
+  console.log("Total deposited:  ", format(state.deposited));
+  console.log("Total minted:     ", format(state.minted));
+  console.log("eUSD held:        ", format(state.eUSDBalance));
+  console.log(
+    `Collateral ratio:  ${formatRatio(state.collateralRatio)} ` +
+      `(band ${formatRatio(state.collateralRatioLower)} - ${formatRatio(state.collateralRatioUpper)}, ` +
+      `ideal ${formatRatio(state.collateralRatioIdeal)})`,
+  );
+
+  if (plan.actions.length == 0) {
+    console.log("Within band, nothing to do");
+    return;
+  }
+
+  for (const action of plan.actions) console.log(`  -> ${action.method}(${action.args.map(format).join(", ")})`);
+  for (const warning of plan.warnings) console.log(`  ! ${warning}`);
+  console.log(`Collateral ratio after: ${formatRatio(plan.collateralRatioAfter)}`);
+};
+
+txTask("monitor:rebalance", "Keep the Lybra vault collateral ratio within band through the monitor calls")
+  .addFlag("execute", "Send the planned transactions instead of a dry run")
+  .addFlag("loop", "Keep checking every --interval blocks")
+  .addOptionalParam("interval", "Number of blocks between checks in loop mode", 10, types.int)
+  .addOptionalParam("prefer", "When over-collateralized, either 'mint' eUSD or 'withdraw' stETH", "mint")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const network = getNetwork();
+
+    const prefer: RebalancePreference = taskArguments.prefer;
+    if (prefer != "mint" && prefer != "withdraw") throw new Error(`Unknown preference: ${prefer}`);
+
+    const match = await ethers.getContractAt("MatchPool", getAddress(network, "MatchPool"));
+    const mintPool = await ethers.getContractAt("LybraMintPool", await match.getMintPool());
+    const signer = await getSigner(hre, taskArguments);
+    const format = (amount: BigNumber) => ethers.utils.formatUnits(amount, 18);
+
+    const rebalance = async () => {
+      const plan = planRebalance(await getVaultState(match, mintPool), prefer);
+      logPlan(plan, format);
+
+      if (plan.actions.length == 0) return;
+      if (!taskArguments.execute) {
+        console.log("Dry run, pass --execute to send");
+        return;
+      }
+
+      const receipts = await executeRebalance(match, signer, plan);
+      for (const receipt of receipts) console.log(`Sent: ${receipt.transactionHash}`);
+      console.log("Rebalanced!");
+    };
+
+    if (!taskArguments.loop) {
+      await rebalance();
+      return;
+    }
+
+    let lastBlock = -Infinity;
+    for (;;) {
+      const block = await ethers.provider.getBlockNumber();
+      if (block >= lastBlock + taskArguments.interval) {
+        console.log(`\nBlock ${block}`);
+        try {
+          await rebalance();
+        } catch (e) {
+          console.log("\n", e);
+        }
+        lastBlock = block;
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+  });
@@ -0,0 +1,73 @@
+import { BigNumber, utils } from "ethers";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import { getPosition } from "../scripts/position";
+import { getAddress } from "../scripts/registry";
+import { getNetwork } from "./helpers";
+
+const amount = (value: BigNumber) => utils.formatUnits(value, 18);
+
+task("position", "Print the Match Pool position of an account")
+  .addParam("account", "Account to inspect")
+  .addOptionalParam("liquidator", "Account liquidate() would be called from, defaults to the signer")
+  .addFlag("json", "Print as JSON instead of tables")
+  .addOptionalParam("pool", "Match Pool address, defaults to the one deployed on the network")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const network = getNetwork();
+    const address = taskArguments.pool || getAddress(network, "MatchPool");
+    const match = await ethers.getContractAt("MatchPool", address);
+    const account = ethers.utils.getAddress(taskArguments.account);
+
+    const liquidator = taskArguments.liquidator && ethers.utils.getAddress(taskArguments.liquidator);
+
+    const position = await getPosition(match, account, liquidator);
+    const { borrowed } = position;
+
+    const supplied = Object.fromEntries(position.supplied.map((item) => [item.mintPool, amount(item.amount)]));
+    const borrow = {
+      mintPool: position.vault,
+      assetPrice: amount(position.price),
+      principal: amount(borrowed.principal),
+      interestAmount: amount(borrowed.interestAmount),
+      accInterest: amount(borrowed.accInterest),
+      pendingInterest: amount(position.pendingInterest),
+      interestTimestamp: borrowed.interestTimestamp.isZero()
+        ? "-"
+        : new Date(borrowed.interestTimestamp.toNumber() * 1000).toISOString(),
+    };
+    const health = {
+      withdrawable: amount(position.withdrawable),
+      maxBorrow: amount(position.maxBorrow),
+      borrowCapacity: amount(position.borrowCapacity),
+      liquidationThreshold: amount(position.liquidationThreshold),
+      distanceToLiquidation: amount(position.distanceToLiquidation),
+      underwater: position.underwater,
+      // liquidate() compares the principal of the liquidator with the threshold of the account
+      liquidator: position.liquidator,
+      liquidatorPrincipal: amount(position.liquidatorPrincipal),
+      liquidatable: position.liquidatable,
+    };
+    const rewards = {
+      dlp: amount(position.rewards.dlp),
+      lsd: amount(position.rewards.lsd),
+    };
+
+    if (taskArguments.json) {
+      const staked = amount(position.staked);
+      console.log(JSON.stringify({ network, account, staked, supplied, borrow, health, rewards }, null, 2));
+      return;
+    }
+
+    console.log(`Position of ${account} in Match Pool ${address} on ${network}`);
+    console.log(`\nStaked LP: ${amount(position.staked)}`);
+    console.log("\nSupplied stETH");
+    console.table(supplied);
+    console.log("\nBorrowed eUSD");
+    console.table(borrow);
+    console.log("\nHealth");
+    console.table(health);
+    console.log("\nPending esLBR rewards");
+    console.table(rewards);
+  });
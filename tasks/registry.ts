@@ -0,0 +1,50 @@
+import { providers } from "ethers";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import {
+  LEGACY_FILES,
+  REGISTRY_FILE,
+  migrateLegacy,
+  readImplementationSlot,
+  readRegistry,
+  writeRegistry,
+} from "../scripts/registry";
+
+task("registry:migrate", "Import info/address.json, verify.json and implementations.json into the deployment registry")
+  .addOptionalParam("address", "Address list to import", LEGACY_FILES.address)
+  .addOptionalParam("verify", "Verification arguments to import", LEGACY_FILES.verify)
+  .addOptionalParam("implementations", "Implementation history to import", LEGACY_FILES.implementations)
+  .setAction(async function (taskArguments: TaskArguments, { config }) {
+    // Chain ids of the configured networks, localhost being the hardhat node
+    const chainIds: Record<string, number> = { localhost: config.networks.hardhat.chainId };
+    for (const [name, network] of Object.entries(config.networks)) {
+      if (network.chainId != undefined) chainIds[name] = network.chainId;
+    }
+
+    // Implementation slots are read from each network's RPC, proxies of unreachable ones are imported without
+    const readImplementation = async (network: string, proxy: string) => {
+      const networkConfig = config.networks[network];
+      if (!networkConfig || !("url" in networkConfig)) return undefined;
+      try {
+        return await readImplementationSlot(new providers.JsonRpcProvider(networkConfig.url), proxy);
+      } catch (e) {
+        console.log(`Could not read the implementation of ${proxy} on ${network}: ${(e as Error).message}`);
+        return undefined;
+      }
+    };
+
+    const registry = readRegistry();
+    const files = {
+      address: taskArguments.address,
+      verify: taskArguments.verify,
+      implementations: taskArguments.implementations,
+    };
+    const imported = await migrateLegacy(registry, chainIds, files, readImplementation);
+    writeRegistry(registry);
+
+    for (const [network, names] of Object.entries(imported)) {
+      console.log(`${network}: ${names.length > 0 ? names.join(", ") : "nothing new"}`);
+    }
+    console.log(`Registry written to ${REGISTRY_FILE}`);
+  });
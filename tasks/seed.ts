@@ -0,0 +1,36 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import * as path from "path";
+
+import { SCENARIO_FILE, readScenario, seed, writeSeedOutput } from "../scripts/seed";
+
+task("node:seed", "Deploy the mock stack to a local node and open the positions of a scenario for the frontend")
+  .addOptionalParam("scenario", "Scenario file", SCENARIO_FILE)
+  .addOptionalParam("out", "File to write addresses and account keys to, defaults to deployments/<network>/seed.json")
+  .addFlag("json", "Print as JSON instead of tables")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const output = await seed(hre, readScenario(taskArguments.scenario));
+    const file = taskArguments.out || path.join("deployments", hre.network.name, "seed.json");
+    writeSeedOutput(file, output);
+
+    if (taskArguments.json) {
+      console.log(JSON.stringify(output, null, 2));
+      return;
+    }
+    console.log(`Seeded ${output.network} at block ${output.blockNumber}`);
+    console.table(output.contracts);
+    console.table(
+      [output.deployer, ...output.accounts].map((account) => ({
+        name: account.name,
+        address: account.address,
+        staked: account.staked,
+        supplied: account.supplied,
+        borrowed: account.borrowed,
+        interestAmount: account.interestAmount,
+        distanceToLiquidation: account.distanceToLiquidation,
+        dlpRewards: account.rewards.dlp,
+        lsdRewards: account.rewards.lsd,
+      })),
+    );
+    console.log(`Addresses and account keys written to ${file}`);
+  });
@@ -0,0 +1,141 @@
+import { BigNumber, constants, utils } from "ethers";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import { getAddress } from "../scripts/registry";
+import { readStorageVariable } from "../scripts/storage";
+import { getNetwork } from "./helpers";
+
+type Section = Record<string, string | boolean>;
+
+const YEAR = 365 * 24 * 3600;
+
+const amount = (value: BigNumber) => utils.formatUnits(value, 18);
+// Ratios scaled in 1e18 per percent, i.e. 200e18 -> 200% or 80e18 (out of 1e20) -> 80%
+const percent = (value: BigNumber) => `${utils.formatUnits(value, 18)}%`;
+// dlp ratios are out of 10000
+const basisPoints = (value: BigNumber) => `${value.toNumber() / 100}%`;
+
+task("pool:status", "Print Match Pool and Reward Manager state on the current network")
+  .addFlag("json", "Print as JSON instead of tables")
+  .addOptionalParam("pool", "Match Pool address, defaults to the one deployed on the network")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const network = getNetwork();
+    const address = taskArguments.pool || getAddress(network, "MatchPool");
+    const match = await ethers.getContractAt("MatchPool", address);
+
+    const totalStaked: BigNumber = await match.totalStaked();
+    const maxBorrowRatio: BigNumber = await match.maxBorrowRatio();
+    const collateralRatioIdeal: BigNumber = await match.collateralRatioIdeal();
+
+    const mintPools: Section[] = [];
+    let supplyValue = constants.Zero;
+    for (let i = 0; ; ++i) {
+      let vault: string;
+      try {
+        vault = await match.mintPools(i);
+      } catch (e) {
+        break;
+      }
+
+      const mintPool = await ethers.getContractAt("LybraMintPool", vault);
+      const price: BigNumber = await mintPool.callStatic.getAssetPrice();
+      const supplied: BigNumber = await match.totalSupplied(vault);
+      const deposited: BigNumber = await match.totalDeposited(vault);
+      const minted: BigNumber = await match.totalMinted(vault);
+      const borrowed: BigNumber = await match.totalBorrowed(vault);
+
+      const maxBorrow = supplied.mul(price).mul(maxBorrowRatio).div(collateralRatioIdeal).div(constants.WeiPerEther);
+      // Only the first mint pool counts towards { supplyLimit }
+      if (i == 0) supplyValue = supplied.mul(price).div(constants.WeiPerEther);
+
+      mintPools.push({
+        mintPool: vault,
+        assetPrice: amount(price),
+        totalStaked: amount(totalStaked),
+        totalSupplied: amount(supplied),
+        totalDeposited: amount(deposited),
+        totalMinted: amount(minted),
+        totalBorrowed: amount(borrowed),
+        idleStETH: amount(supplied.sub(deposited)),
+        collateralRatio: minted.isZero() ? "-" : percent(deposited.mul(price).mul(100).div(minted)),
+        globalBorrowRatio: maxBorrow.isZero() ? "-" : percent(borrowed.mul(utils.parseUnits("1", 20)).div(maxBorrow)),
+      });
+    }
+
+    const stakeLimit = (await readStorageVariable(hre, "MatchPool", address, "stakeLimit")) as BigNumber;
+    const supplyLimit = (await readStorageVariable(hre, "MatchPool", address, "supplyLimit")) as BigNumber;
+    const limits: Section = {
+      stakeLimit: stakeLimit.isZero() ? "none" : amount(stakeLimit),
+      stakeValue: amount(await match.getLpValue(totalStaked)),
+      supplyLimit: supplyLimit.isZero() ? "none" : amount(supplyLimit),
+      supplyValue: amount(supplyValue),
+    };
+
+    const paused: Section = {
+      stakePaused: await match.stakePaused(),
+      withdrawPaused: await match.withdrawPaused(),
+      borrowPaused: await match.borrowPaused(),
+    };
+
+    const risk: Section = {
+      dlpRatioLower: basisPoints(await match.dlpRatioLower()),
+      dlpRatioIdeal: basisPoints(await match.dlpRatioIdeal()),
+      dlpRatioUpper: basisPoints(await match.dlpRatioUpper()),
+      collateralRatioLower: percent(await match.collateralRatioLower()),
+      collateralRatioIdeal: percent(collateralRatioIdeal),
+      collateralRatioUpper: percent(await match.collateralRatioUpper()),
+      borrowRatePerYear: percent((await match.borrowRatePerSec()).mul(YEAR).mul(100)),
+      maxBorrowRatio: percent(maxBorrowRatio),
+      globalBorrowRatioThreshold: percent(await match.globalBorrowRatioThreshold()),
+      globalBorrowRatioLiquidation: percent(await match.globalBorrowRatioLiuquidation()),
+      liquidationDiscount: percent(await match.liquidationDiscount()),
+      closeFactor: percent(await match.closeFactor()),
+      liquidationDiscountNormal: percent(await match.liquidationDiscountNormal()),
+      closeFactorNormal: percent(await match.closeFactorNormal()),
+      monitor: (await readStorageVariable(hre, "MatchPool", address, "monitor")) as string,
+    };
+
+    const manager = await ethers.getContractAt("RewardManager", await match.rewardManager());
+    const dlpRewardPool = await manager.dlpRewardPool();
+    const miningIncentive = await manager.miningIncentive();
+    const eUSD = await manager.eUSD();
+
+    const earnedSinceLastUpdate = async (rewardPool: string) => {
+      if (rewardPool == constants.AddressZero) return "-";
+      const [earned] = await manager.earnedSinceLastUpdate(rewardPool);
+      return amount(earned);
+    };
+
+    const rewards: Section = {
+      rewardManager: manager.address,
+      treasury: await manager.treasury(),
+      treasuryShare: `${await readStorageVariable(hre, "RewardManager", manager.address, "treasuryShare")}%`,
+      stakerShare: `${await readStorageVariable(hre, "RewardManager", manager.address, "stakerShare")}%`,
+      dlpRewardPerTokenStored: amount(await manager.rewardPerTokenStored(dlpRewardPool)),
+      dlpEarnedSinceLastUpdate: await earnedSinceLastUpdate(dlpRewardPool),
+      lsdRewardPerTokenStored: amount(await manager.rewardPerTokenStored(miningIncentive)),
+      lsdEarnedSinceLastUpdate: await earnedSinceLastUpdate(miningIncentive),
+      eUSDRewardPerTokenStored: amount(await manager.rewardPerTokenStored(eUSD)),
+    };
+
+    if (taskArguments.json) {
+      console.log(JSON.stringify({ network, matchPool: address, mintPools, limits, paused, risk, rewards }, null, 2));
+      return;
+    }
+
+    console.log(`Match Pool ${address} on ${network}`);
+    for (const mintPool of mintPools) {
+      console.log("\nMint pool");
+      console.table(mintPool);
+    }
+    console.log("\nLimits (USD value)");
+    console.table(limits);
+    console.log("\nPaused");
+    console.table(paused);
+    console.log("\nRisk parameters");
+    console.table(risk);
+    console.log("\nReward Manager");
+    console.table(rewards);
+  });
@@ -1,31 +1,115 @@
-import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
 
-import { readAddressList, readArgs, storeArgs } from "../../scripts/contractAddress";
-import { upgrade, getNetwork, validateUpgrade } from "../helpers";
+import { getDeployment } from "../../scripts/registry";
+import {
+  StorageLayout,
+  compareStorageLayouts,
+  getStorageLayout,
+  readRecordedStorageLayout,
+} from "../../scripts/storage";
+import {
+  adminTask,
+  getNetwork,
+  getSigner,
+  getSigners,
+  sendOwnerCall,
+  upgrade,
+  validateUpgrade,
+  writeImplementation,
+  writePendingImplementation,
+} from "../helpers";
 
-task("upgrade:MatchPool", "Deploy new Match Pool implementation contract")
-  .setAction(async function (_, { ethers, upgrades }) {
-    const hre = require("hardhat");
-    const network = getNetwork();
-    const addressList = readAddressList()[network];
+const PROXY_ADMIN_ABI = [
+  "function owner() view returns (address)",
+  "function upgrade(address proxy, address implementation)",
+];
 
-    console.log("Upgrading...");
+/**
+ * @notice Checks the new implementation against the recorded one, deploys it and prints the proxy admin call
+ *  upgrading the proxy. With { execute } the call is sent and the implementation slot checked afterwards,
+ *  with { propose } it is added to a Safe batch for the multisig owning the proxy admin
+ */
+const upgradeProxy = async (name: string, taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+  const { ethers, upgrades } = hre;
+  const network = getNetwork();
+  const deployment = getDeployment(network, name);
+  const proxy: string = taskArguments.proxy || deployment?.address;
+  if (!proxy) throw new Error(`No ${name} proxy given or deployed on ${network}`);
+  // Implementations of a proxy other than the registered one are not recorded
+  const tracked = !deployment || deployment.address.toLowerCase() == proxy.toLowerCase();
 
-    const res = await upgrade(ethers, upgrades, "MatchPool", addressList.MatchPool);
+  const current = await upgrades.erc1967.getImplementationAddress(proxy);
+  const recorded = (tracked && deployment?.implementation) || current;
 
-    console.log(`New Match Pool implementation deployed on ${network} at ${res}`);
-  });
+  console.log(`${name} proxy ${proxy} on ${network}, current implementation: ${current}`);
+
+  let previous: StorageLayout | undefined = await readRecordedStorageLayout(hre, recorded);
+  if (!previous && recorded != current) {
+    console.log(`No storage layout recorded for ${recorded}, comparing against ${current}`);
+    previous = await readRecordedStorageLayout(hre, current);
+  }
+  if (!previous) throw new Error(`No storage layout recorded for the implementation of ${proxy}`);
+
+  const report = compareStorageLayouts(previous, await getStorageLayout(hre, name));
+  const changes = report.entries.filter((entry) => entry.change != "unchanged");
+  console.log("\nStorage layout");
+  if (changes.length > 0) console.table(changes);
+  if (!report.compatible) throw new Error("New storage layout is not compatible with the recorded one");
+  console.log(`${report.entries.filter((entry) => entry.change == "unchanged").length} variable(s) unchanged`);
+
+  await validateUpgrade(ethers, upgrades, name, proxy);
+
+  console.log("\nDeploying implementation...");
+  const implementation: string = await upgrade(ethers, upgrades, name, proxy, await getSigner(hre, taskArguments));
+  console.log(`New ${name} implementation deployed on ${network} at ${implementation}`);
+
+  if (implementation.toLowerCase() == current.toLowerCase()) {
+    if (tracked) await writeImplementation(network, name, proxy, implementation);
+    console.log("Proxy already points to this implementation");
+    return;
+  }
+  // Current only once the proxy admin call is mined
+  if (tracked) await writePendingImplementation(network, name, proxy, implementation);
 
-task("upgrade:RewardManager", "Deploy new Reward Manager implementation contract")
-  .setAction(async function (_, { ethers, upgrades }) {
-    const hre = require("hardhat");
-    const network = getNetwork();
-    const addressList = readAddressList()[network];
+  const admin = new ethers.Contract(await upgrades.erc1967.getAdminAddress(proxy), PROXY_ADMIN_ABI, ethers.provider);
+  const owner = await admin.owner();
+  const data = admin.interface.encodeFunctionData("upgrade", [proxy, implementation]);
+  console.log("\nProxy admin call");
+  console.table({ from: owner, to: admin.address, value: "0", data });
 
-    console.log("Upgrading...");
+  if (taskArguments.propose) {
+    await sendOwnerCall(hre, taskArguments, "ProxyAdmin", admin, "upgrade", [proxy, implementation]);
+    return;
+  }
+  if (!taskArguments.execute) return;
 
-    const res = await upgrade(ethers, upgrades, "RewardManager", addressList.RewardManager);
+  const signer = (await getSigners(hre, taskArguments)).find((item) => item.address == owner);
+  if (!signer) throw new Error(`Proxy admin is owned by ${owner}, which is not one of the signers`);
 
-    console.log(`New Reward Manager implementation deployed on ${network} at ${res}`);
-  });
\ No newline at end of file
+  const receipt = await sendOwnerCall(hre, taskArguments, "ProxyAdmin", admin.connect(signer), "upgrade", [
+    proxy,
+    implementation,
+  ]);
+  if (!receipt) return;
+
+  const upgraded = await upgrades.erc1967.getImplementationAddress(proxy);
+  if (upgraded.toLowerCase() != implementation.toLowerCase()) {
+    throw new Error(`Implementation slot of ${proxy} holds ${upgraded} instead of ${implementation}`);
+  }
+  if (tracked) await writeImplementation(network, name, proxy, implementation, receipt.transactionHash);
+  console.log(`${name} upgraded in tx ${receipt.transactionHash}, implementation slot confirmed`);
+};
+
+adminTask("upgrade:MatchPool", "Deploy new Match Pool implementation contract")
+  .addFlag("execute", "Upgrade the proxy through its proxy admin, signer has to own the proxy admin")
+  .addOptionalParam("proxy", "Proxy address, defaults to the one deployed on the network")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await upgradeProxy("MatchPool", taskArguments, hre);
+  });
+
+adminTask("upgrade:RewardManager", "Deploy new Reward Manager implementation contract")
+  .addFlag("execute", "Upgrade the proxy through its proxy admin, signer has to own the proxy admin")
+  .addOptionalParam("proxy", "Proxy address, defaults to the one deployed on the network")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await upgradeProxy("RewardManager", taskArguments, hre);
+  });
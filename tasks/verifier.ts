@@ -1,45 +1,43 @@
+import * as fs from "fs";
 import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
+import * as path from "path";
 
-import { readArgs } from "../scripts/contractAddress";
+import { VerificationReport, createEtherscanBackend, verifyContracts } from "../scripts/verification";
 import { getNetwork } from "./helpers";
 
+const logReport = (report: VerificationReport) => {
+  console.table(report.results);
+  const failed = report.results.filter((result) => result.status == "failed");
+  if (failed.length > 0) console.log(`${failed.length} verification(s) failed`);
+};
+
 task("verifier", "Verify contract")
   .addParam("name", "Name of contract")
-  .setAction(async function (taskArguments: TaskArguments) {
-    const network = await getNetwork();
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const network = getNetwork();
     if (network === "localhost") {
       console.log("Cannot verify on localhost");
       return;
     }
-    const argsList = readArgs();
 
-    for (let name in argsList[network]) {
-      if (taskArguments.name === name) {
-        try {
-          if (argsList[network][name].args.length > 0) {
-            await hre.run("verify:verify", {
-              address: argsList[network][name].address,
-              constructorArguments: argsList[network][name].args,
-            });
-          } else {
-            await hre.run("verify:verify", {
-              address: argsList[network][name].address,
-            });
-          }
-        } catch (e) {
-          const array = e.message.split(" ");
-          if (array.includes("Verified") || array.includes("verified")) {
-            console.log("Already verified");
-          } else {
-            console.log(e);
-            console.log(`Check manually at https://${network}.etherscan.io/address/${argsList[network][name].address}`);
-          }
-        }
+    logReport(await verifyContracts(hre, network, await createEtherscanBackend(hre), [taskArguments.name]));
+  });
 
-        return;
-      }
+task("verify:all", "Verify every contract recorded on the network and link the proxies to their implementation")
+  .addOptionalParam("report", "Status report file, defaults to info/verification/<network>.json")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const network = getNetwork();
+    if (network === "localhost") {
+      console.log("Cannot verify on localhost");
+      return;
     }
 
-    console.log("Contract not found");
+    const report = await verifyContracts(hre, network, await createEtherscanBackend(hre));
+    logReport(report);
+
+    const file = taskArguments.report || path.join("info", "verification", `${network}.json`);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(report, null, "\t"));
+    console.log(`Report written to ${file}`);
   });
@@ -0,0 +1,47 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import { proposeCall, summarizeCall } from "../scripts/safe";
+import { WiringCheck, checkWiring, getFixes } from "../scripts/wiring";
+import { getChainId, getNetwork } from "./helpers";
+
+const formatCheck = (check: WiringCheck) => ({
+  kind: check.kind,
+  contract: check.contract,
+  name: check.name,
+  current: check.current,
+  expected: check.expected ?? "-",
+  status: check.status,
+  note: check.note ?? "",
+});
+
+task("wiring:check", "Compare the addresses, owners, monitor and allowances set on-chain with the network's registry")
+  .addOptionalParam("owner", "Expected owner of the contracts and proxy admins, defaults to the owner of Match Pool")
+  .addOptionalParam("monitor", "Expected monitor, defaults to the one in the network's parameter file")
+  .addOptionalParam("propose", "Append the setter calls fixing the wiring to this Safe Transaction Builder batch file")
+  .addFlag("json", "Print as JSON instead of tables")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const network = getNetwork();
+    const checks = await checkWiring(hre, network, { owner: taskArguments.owner, monitor: taskArguments.monitor });
+    const fixes = getFixes(checks);
+
+    if (taskArguments.json) {
+      console.log(JSON.stringify({ checks: checks.map(formatCheck), fixes: fixes.map(summarizeCall) }, null, 2));
+    } else {
+      console.log(`Wiring of Match Pool on ${network}`);
+      console.table(checks.map(formatCheck));
+
+      const problems = checks.filter((check) => check.status != "ok");
+      console.log(problems.length == 0 ? "All wired" : `${problems.length} problem(s) found`);
+      if (fixes.length > 0) {
+        console.log("\nSetter calls to send");
+        for (const fix of fixes) console.log(`  ${summarizeCall(fix)}`);
+      }
+    }
+
+    if (taskArguments.propose && fixes.length > 0) {
+      const chainId = await getChainId();
+      for (const fix of fixes) proposeCall(taskArguments.propose, chainId, fix);
+      console.log(`Proposed ${fixes.length} call(s) in ${taskArguments.propose}`);
+    }
+  });
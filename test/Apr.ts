@@ -0,0 +1,119 @@
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { annualize, getApr, getAprReport, getRewardRate } from "../scripts/apr";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { deploy, toWei } from "./utils";
+
+const DAY = 24 * 3600;
+
+describe("APR", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool, manager } = await this.loadFixture(deployMPFixture);
+    this.matchPool = matchPool;
+    this.manager = manager;
+    this.lbrOracle = await deploy("LBROracle", []);
+
+    await matchPool.setMonitor(this.signers.admin.address);
+    await matchPool.stakeLP(toWei("10"));
+    await matchPool.supplyStETH(toWei("2"));
+    await matchPool.monitorDeposit(toWei("2"), toWei("1600"));
+    await matchPool.borrowEUSD(toWei("100"));
+  });
+
+  it("should split emissions between dLP stakers, stETH suppliers and the treasury", async function () {
+    await this.manager.setMiningRewardShares(10, 20);
+    const report = await getAprReport(hre, this.matchPool, {
+      lbrOracle: this.lbrOracle.address,
+      horizon: 30 * DAY,
+      rebaseWindow: 0,
+    });
+
+    expect(report.prices.lbr).to.equal(toWei("0.92"));
+    expect(report.shares).to.deep.equal({ treasury: 10, staker: 20 });
+    // Only staker of the stake pool and only borrower of the mint pool
+    expect(report.emissions.stakePool.perSecond).to.equal(toWei("938").div(604800));
+    expect(report.emissions.mining.perSecond).to.equal(toWei("938").div(604800));
+
+    const { dlp, lsd, treasury } = report.current;
+    const mining = report.emissions.mining.perSecond.mul(365 * DAY);
+    expect(dlp.mining.amount).to.equal(mining.mul(20).div(100));
+    expect(treasury.mining).to.equal(mining.mul(10).div(100));
+    expect(lsd.mining.amount).to.equal(mining.sub(dlp.mining.amount).sub(treasury.mining));
+
+    const stakedValue = toWei("10").mul(report.prices.lp).div(toWei("1"));
+    expect(dlp.stakePool.apr).to.equal(getApr(dlp.stakePool.amount, toWei("0.92"), stakedValue));
+    expect(dlp.total).to.equal(dlp.stakePool.apr.add(dlp.mining.apr));
+    // No rebase measured
+    expect(report.rebasePerYear).to.equal(undefined);
+    expect(lsd.total).to.equal(lsd.mining.apr);
+
+    // Reward periods of 7 days end within the horizon
+    const projected = report.projected.dlp.stakePool.amount;
+    expect(projected).to.equal(annualize(report.emissions.stakePool, report.timestamp, 30 * DAY));
+    expect(projected).to.be.lt(dlp.stakePool.amount.div(4));
+  });
+
+  it("should give the rebase of borrowers' supply to the treasury", async function () {
+    const bob = this.matchPool.connect(this.signers.bob);
+    await bob.stakeLP(toWei("10"));
+    await bob.supplyETH({ value: toWei("2") });
+
+    const from = await ethers.provider.getBlockNumber();
+    // Rebase of the idle eUSD
+    await (
+      await ethers.getContractAt("EUSDMock", await this.manager.eUSD())
+    ).transfer(this.matchPool.address, toWei("10"));
+    const to = await ethers.provider.getBlockNumber();
+
+    const report = await getAprReport(hre, this.matchPool, {
+      lbrOracle: this.lbrOracle.address,
+      horizon: 30 * DAY,
+      rebaseWindow: to - from,
+    });
+    const elapsed = (await ethers.provider.getBlock(to)).timestamp - (await ethers.provider.getBlock(from)).timestamp;
+    // eUSD balances are rounded down from shares
+    expect(report.pendingRebase).to.be.closeTo(toWei("10"), 1);
+    const perYear = report.pendingRebase.mul(365 * DAY).div(elapsed);
+    expect(report.rebasePerYear).to.equal(perYear);
+
+    // Half of the supply is from a borrower
+    const { lsd, treasury } = report.current;
+    expect(treasury.rebase).to.equal(perYear.div(2));
+    expect(lsd.rebase.amount).to.equal(perYear.sub(treasury.rebase));
+    expect(lsd.rebase.apr).to.equal(getApr(perYear, toWei("1"), toWei("4").mul(report.prices.stETH).div(toWei("1"))));
+  });
+
+  it("should match the reward per token accrued by Reward Manager", async function () {
+    await this.manager.setMiningRewardShares(10, 20);
+    const from = await ethers.provider.getBlockNumber();
+    await mine(10, { interval: 3600 });
+    const to = await ethers.provider.getBlockNumber();
+
+    const report = await getAprReport(hre, this.matchPool, {
+      lbrOracle: this.lbrOracle.address,
+      horizon: 30 * DAY,
+      rebaseWindow: to - from,
+    });
+    // Boost of 100e18 out of 1e20 in the mocks
+    expect(getRewardRate(toWei("938"), toWei("1"), toWei("1"), toWei("100"))).to.equal(toWei("938"));
+    expect(getRewardRate(toWei("938"), toWei("1"), toWei("1"), toWei("150"))).to.equal(toWei("1407"));
+
+    const { dlp, lsd } = report.rewardPerToken;
+    const { current } = report;
+    expect(dlp.expected).to.equal(
+      current.dlp.stakePool.amount.add(current.dlp.mining.amount).mul(toWei("1")).div(toWei("10")),
+    );
+    expect(lsd.expected).to.equal(current.lsd.mining.amount.mul(toWei("1")).div(toWei("2")));
+    // Rounded down once per second of rewards
+    expect(dlp.observed).to.be.closeTo(dlp.expected, dlp.expected.div(1e6));
+    expect(lsd.observed).to.be.closeTo(lsd.expected, lsd.expected.div(1e6));
+  });
+});
@@ -0,0 +1,71 @@
+import { loadFixture, setStorageAt, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { explainDifference, getDrift, reconcile } from "../scripts/audit";
+import { getStorageLayout } from "../scripts/storage";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+const DAY = 24 * 3600;
+
+describe("Reconciliation", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool, manager } = await this.loadFixture(deployMPFixture);
+    this.matchPool = matchPool;
+    this.eUSD = await ethers.getContractAt("EUSDMock", await manager.eUSD());
+
+    await matchPool.setMonitor(this.signers.admin.address);
+    await matchPool.stakeLP(toWei("10"));
+    await matchPool.supplyStETH(toWei("10"));
+    await matchPool.monitorDeposit(toWei("5"), toWei("4000"));
+    await matchPool.borrowEUSD(toWei("100"));
+  });
+
+  it("should explain differences as rebase, rounding and punishment", async function () {
+    // Rebase of the idle eUSD
+    await this.eUSD.transfer(this.matchPool.address, toWei("10"));
+    // Within 3 days of the deposit, Lybra keeps 0.1%
+    await this.matchPool.monitorWithdraw(toWei("1"));
+    await time.increase(DAY);
+
+    const report = await reconcile(hre, this.matchPool);
+    const checks = Object.fromEntries(report.checks.map((check) => [check.name, check]));
+    expect(getDrift(report)).to.equal(0);
+    expect(report.unknownWithdrawals).to.be.empty;
+    // Same block, with the withdrawal found one block at a time
+    expect(await reconcile(hre, this.matchPool, { batchSize: 1 })).to.deep.equal(report);
+
+    const idleStETH = checks["idle stETH"];
+    expect(idleStETH.causes.punishment).to.equal(toWei("-0.001"));
+    // stETH rebase since the supply
+    expect(idleStETH.causes.rebase).to.be.gt(0);
+    expect(idleStETH.difference).to.equal(idleStETH.causes.rebase.add(idleStETH.causes.punishment));
+
+    expect(checks["idle eUSD"].causes.rebase).to.be.closeTo(toWei("10"), 10);
+    for (const name of ["stETH deposited to Lybra", "eUSD minted from Lybra", "LP staked"]) {
+      expect(checks[name].difference).to.equal(0);
+    }
+
+    expect(explainDifference(toWei("-1").div(1e12), true, toWei("1").div(1e12)).rounding).to.equal(-1e6);
+    expect(explainDifference(toWei("-1"), true, toWei("1").div(1e12)).drift).to.equal(toWei("-1"));
+    expect(explainDifference(toWei("1"), false, toWei("1")).drift).to.equal(toWei("1"));
+  });
+
+  it("should report accounting drift", async function () {
+    const layout = await getStorageLayout(hre, "MatchPool");
+    const totalStaked = layout.storage.find((entry) => entry.label == "totalStaked");
+    await setStorageAt(this.matchPool.address, Number(totalStaked?.slot), toWei("11"));
+
+    const report = await reconcile(hre, this.matchPool);
+    const lpStaked = report.checks.find((check) => check.name == "LP staked");
+    expect(lpStaked?.causes.drift).to.equal(toWei("-1"));
+    expect(getDrift(report)).to.equal(toWei("1"));
+  });
+});
@@ -0,0 +1,67 @@
+import { expect } from "chai";
+import { utils } from "ethers";
+import * as fs from "fs";
+import hre from "hardhat";
+import * as os from "os";
+import * as path from "path";
+
+import { buildBundle, writeBundle } from "../scripts/bundle";
+import { readRegistry } from "../scripts/registry";
+
+const OTHER = "0x000000000000000000000000000000000000dEaD";
+
+describe("Contract bundle", function () {
+  beforeEach(async function () {
+    this.dir = fs.mkdtempSync(path.join(os.tmpdir(), "bundle-"));
+    this.registry = path.join(this.dir, "deployments.json");
+    fs.writeFileSync(this.registry, JSON.stringify(readRegistry()));
+  });
+
+  it("should bundle the mocks with their full ABIs, events and errors", async function () {
+    const bundle = await buildBundle(hre, "sepolia", this.registry);
+    const { MatchPool, stETH } = bundle.contracts;
+
+    expect(MatchPool.address).to.equal(readRegistry(this.registry).sepolia.contracts.MatchPool.address);
+    expect(MatchPool.implementation).to.not.be.undefined;
+    expect(MatchPool.events).to.deep.include({
+      name: "LpStaked",
+      signature: "LpStaked(address,uint256)",
+      topic: utils.id("LpStaked(address,uint256)"),
+    });
+    expect(MatchPool.errors.map((error) => error.signature)).to.include("ExceedAmountAllowed(uint256,uint256)");
+    expect(bundle.errors.map((error) => error.selector)).to.include(
+      utils.id("ExceedAmountAllowed(uint256,uint256)").slice(0, 10),
+    );
+    expect(stETH.artifacts).to.deep.equal(["contracts/mock/stETHMock.sol:stETHMock"]);
+    expect(stETH.types).to.deep.equal([path.join("contracts", "mock", "StETHMock.ts")]);
+  });
+
+  it("should bundle the interfaces Match Pool calls on production networks", async function () {
+    const { contracts } = await buildBundle(hre, "mainnet", this.registry);
+
+    expect(contracts.LybraMintPool.artifacts).to.deep.equal(["contracts/interfaces/LybraInterfaces.sol:IMintPool"]);
+    const stETH = new utils.Interface(contracts.stETH.abi);
+    expect(stETH.getFunction("submit")).to.not.be.undefined;
+    expect(stETH.getFunction("transfer")).to.not.be.undefined;
+    expect(contracts.stETH.types).to.have.length(2);
+  });
+
+  it("should write the bundle with a version following its content", async function () {
+    const bundle = await buildBundle(hre, "sepolia", this.registry);
+    const out = path.join(this.dir, "abi");
+    const files = writeBundle(hre, bundle, out);
+
+    expect(files).to.include(path.join(out, "sepolia", "types", "common.ts"));
+    const index = fs.readFileSync(path.join(out, "sepolia", "index.ts"), "utf-8");
+    expect(index).to.include('export type { MatchPool } from "./types/contracts/MatchPool";');
+    expect(JSON.parse(fs.readFileSync(path.join(out, "sepolia", "bundle.json"), "utf-8")).version).to.equal(
+      bundle.version,
+    );
+
+    expect((await buildBundle(hre, "sepolia", this.registry)).version).to.equal(bundle.version);
+    const registry = readRegistry(this.registry);
+    registry.sepolia.contracts.MatchPool.address = OTHER;
+    fs.writeFileSync(this.registry, JSON.stringify(registry));
+    expect((await buildBundle(hre, "sepolia", this.registry)).version).to.not.equal(bundle.version);
+  });
+});
@@ -0,0 +1,46 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import hre, { deployments, ethers } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+
+import { checkWiring } from "../scripts/wiring";
+import { deployStackFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+describe("Deploy scripts", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+  });
+
+  beforeEach(async function () {
+    const { matchPool } = await deployStackFixture();
+    this.matchPool = matchPool;
+  });
+
+  it("should deploy the wired and funded stack", async function () {
+    const contracts = Object.fromEntries(
+      Object.entries(await deployments.all()).map(([name, { address }]) => [name, { address, args: [] }]),
+    );
+    const registry = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "deploy-")), "deployments.json");
+    fs.writeFileSync(registry, JSON.stringify({ localhost: { chainId: 31337, contracts } }));
+
+    const checks = await checkWiring(hre, "localhost", { registry });
+    expect(checks.filter((check) => check.kind == "link" && check.status == "mismatch")).to.be.empty;
+
+    const { admin, bob } = this.signers;
+    await this.matchPool.setMonitor(admin.address);
+    await this.matchPool.connect(bob).stakeLP(toWei("10"));
+    await this.matchPool.supplyStETH(toWei("10"));
+    await this.matchPool.monitorDeposit(toWei("10"), toWei("4000"));
+    await this.matchPool.borrowEUSD(toWei("100"));
+    expect(await this.matchPool.totalStaked()).to.equal(toWei("10"));
+  });
+
+  it("should send nothing when run again", async function () {
+    const block = await ethers.provider.getBlockNumber();
+    await deployments.run(undefined, { resetMemory: false, writeDeploymentsToFiles: false });
+    expect(await ethers.provider.getBlockNumber()).to.equal(block);
+  });
+});
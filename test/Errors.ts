@@ -0,0 +1,55 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { ContractError, decodeError, describeError, loadErrorInterface, simulate } from "../scripts/errors";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+describe("Errors", function () {
+  before(async function () {
+    this.errors = await loadErrorInterface(hre);
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool, manager } = await this.loadFixture(deployMPFixture);
+    this.matchPool = matchPool;
+    this.manager = manager;
+  });
+
+  it("should decode custom errors with amounts of the reverting function", async function () {
+    const data = this.errors.encodeErrorResult("ExceedAmountAllowed", [toWei("5"), toWei("3.2")]);
+    expect(decodeError(this.errors, data, "withdrawStETH")?.message).to.equal(
+      "ExceedAmountAllowed: requested 5.0 stETH, withdrawable 3.2 stETH",
+    );
+    expect(decodeError(this.errors, data)?.message).to.equal(`ExceedAmountAllowed(${toWei("5")}, ${toWei("3.2")})`);
+
+    const panic =
+      ethers.utils.id("Panic(uint256)").slice(0, 10) +
+      ethers.utils.defaultAbiCoder.encode(["uint256"], [0x11]).slice(2);
+    expect(decodeError(this.errors, panic)?.message).to.equal("Panic: arithmetic underflow or overflow");
+    expect(decodeError(this.errors, "0x12345678")).to.equal(undefined);
+  });
+
+  it("should simulate and decode errors raised by other contracts", async function () {
+    await this.matchPool.stakeLP(toWei("1"));
+    await this.matchPool.supplyStETH(toWei("1"));
+
+    try {
+      await simulate(this.errors, this.matchPool, "withdrawStETH", [toWei("2")]);
+      expect.fail("should reject");
+    } catch (error) {
+      expect((error as ContractError).errorName).to.equal("ExceedAmountAllowed");
+      expect((error as Error).message).to.equal("ExceedAmountAllowed: requested 2.0 stETH, withdrawable 1.0 stETH");
+    }
+
+    // Not part of the Match Pool ABI
+    try {
+      await this.manager.callStatic.getAllRewards();
+      expect.fail("should reject");
+    } catch (error) {
+      expect(describeError(this.errors, error)).to.equal("RewardNotOpen");
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import * as fs from "fs";
+import { ethers } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  checkStore,
+  createStore,
+  getAccountHistory,
+  getDailyVolumes,
+  getParameterTimeline,
+  getPunishment,
+  indexEvents,
+  readStore,
+} from "../scripts/indexer";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+describe("Event indexer", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool, manager } = await this.loadFixture(deployMPFixture);
+    this.matchPool = matchPool;
+    this.contracts = { MatchPool: matchPool, RewardManager: manager };
+    this.file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "index-")), "hardhat.json");
+
+    const { chainId } = await ethers.provider.getNetwork();
+    this.store = createStore("hardhat", chainId, 0);
+  });
+
+  const index = async function (this: Mocha.Context) {
+    const toBlock = await ethers.provider.getBlockNumber();
+    return indexEvents(this.contracts, this.store, this.file, { toBlock, batchSize: 50 });
+  };
+
+  it("should resume from the checkpoint of the store", async function () {
+    await this.matchPool.stakeLP(toWei("10"));
+    await index.call(this);
+    const checkpoint = this.store.checkpoint;
+
+    await this.matchPool.connect(this.signers.bob).stakeLP(toWei("5"));
+    await this.matchPool.withdrawLP(toWei("4"));
+    await this.matchPool.setBorrowRate(toWei("8"));
+
+    const store = readStore(this.file);
+    if (!store) expect.fail("store not written");
+    await checkStore(store, this.contracts);
+    this.store = store;
+    expect(await index.call(this)).to.equal(3);
+    expect(this.store.checkpoint).to.be.gt(checkpoint);
+
+    const stakes = store.events.filter((event) => event.name == "LpStaked");
+    expect(stakes.map((event) => event.args.amount)).to.deep.equal([toWei("10").toString(), toWei("5").toString()]);
+  });
+
+  it("should answer history, volume, punishment and parameter queries", async function () {
+    await this.matchPool.stakeLP(toWei("10"));
+    await this.matchPool.withdrawLP(toWei("4"));
+    await this.matchPool.supplyStETH(toWei("2"));
+    await this.matchPool.withdrawStETH(toWei("1"));
+    await this.matchPool.connect(this.signers.bob).stakeLP(toWei("5"));
+    await this.matchPool.setStakeLimit(toWei("100000"));
+    await index.call(this);
+
+    const history = getAccountHistory(this.store, this.signers.admin.address);
+    expect(history.map((event) => event.name)).to.deep.equal([
+      "LpStaked",
+      "LpWithdrew",
+      "stETHSupplied",
+      "stETHWithdrew",
+    ]);
+
+    const [volumes] = Object.values(getDailyVolumes(this.store));
+    expect(volumes.LpStaked).to.equal(toWei("15"));
+    expect(volumes.LpWithdrew).to.equal(toWei("4"));
+    // Idle stETH, nothing withdrawn from Lybra
+    expect(getPunishment(this.store).total).to.equal(0);
+
+    const changes = getParameterTimeline(this.store).map((event) => event.name);
+    expect(changes).to.include("StakeLimitChanged");
+    expect(changes[changes.length - 1]).to.equal("StakeLimitChanged");
+  });
+
+  it("should refuse a store of another chain state", async function () {
+    await index.call(this);
+    this.store.checkpointHash = ethers.constants.HashZero;
+
+    try {
+      await checkStore(this.store, this.contracts);
+      expect.fail("should reject");
+    } catch (error) {
+      expect((error as Error).message).to.contain("--reset");
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  getRatePerSec,
+  loadInterestParams,
+  loadInterestState,
+  projectInterest,
+  simulateParams,
+} from "../scripts/interest";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+const DAY = 24 * 3600;
+
+describe("Borrow interest", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool } = await this.loadFixture(deployMPFixture);
+    this.matchPool = matchPool;
+
+    // 10% per year, max. borrow ratio 85%, interest charged from 75% global borrow ratio
+    await matchPool.setMonitor(this.signers.admin.address);
+    await matchPool.supplyStETH(toWei("10"));
+    await matchPool.monitorDeposit(toWei("10"), toWei("8000"));
+    await matchPool.connect(this.signers.bob).supplyETH({ value: toWei("1") });
+    // Global max. borrow: 11 * 1600 * 85% / 200% = 7480 eUSD, 5000 eUSD is below the threshold
+    await matchPool.borrowEUSD(toWei("5000"));
+  });
+
+  it("should project interest of borrowers charged", async function () {
+    const { admin, bob } = this.signers;
+    // Takes the global borrow ratio to 75.5%
+    await this.matchPool.connect(bob).borrowEUSD(toWei("650"));
+    const { interestTimestamp } = await this.matchPool.borrowed(await this.matchPool.getMintPool(), bob.address);
+    await time.increase(DAY);
+
+    const state = await loadInterestState(this.matchPool);
+    const params = await loadInterestParams(this.matchPool);
+    const projection = projectInterest(state, params, 30 * DAY);
+    const ratePerSec = getRatePerSec(toWei("0.1"));
+    expect(params.borrowRatePerSec).to.equal(ratePerSec);
+    expect(projection.chargingNewBorrows).to.equal(true);
+
+    const [adminInterest, bobInterest] = projection.borrowers;
+    expect(adminInterest.account).to.equal(admin.address);
+    expect(adminInterest.interestAmount).to.equal(0);
+    expect(adminInterest.projected).to.equal(0);
+    expect(bobInterest.interestAmount).to.equal(toWei("650"));
+    expect(bobInterest.owed).to.equal(
+      toWei("650")
+        .mul(ratePerSec)
+        .mul(state.timestamp - interestTimestamp.toNumber())
+        .div(toWei("1")),
+    );
+    expect(bobInterest.projected).to.equal(
+      toWei("650")
+        .mul(ratePerSec)
+        .mul(30 * DAY)
+        .div(toWei("1")),
+    );
+    expect(projection.totalOwed).to.equal(bobInterest.owed);
+    expect(projection.revenuePerYear).to.be.closeTo(toWei("65"), toWei("0.001"));
+
+    // Same as the contract charges on the next borrow or repayment
+    await time.increase(DAY);
+    expect(await this.matchPool.getAccInterest(bob.address)).to.equal(
+      projectInterest(await loadInterestState(this.matchPool), params, 0).borrowers[1].owed,
+    );
+  });
+
+  it("should simulate borrow rate and ratio changes", async function () {
+    const { admin, bob } = this.signers;
+    let state = await loadInterestState(this.matchPool);
+    const params = await loadInterestParams(this.matchPool);
+
+    // 66.8% global borrow ratio, only borrows after lowering the threshold are charged
+    let simulation = simulateParams(state, params, { globalBorrowRatioThreshold: toWei("60") }, 30 * DAY);
+    expect(simulation.current.chargingNewBorrows).to.equal(false);
+    expect(simulation.proposed.chargingNewBorrows).to.equal(true);
+    expect(simulation.chargedOnNextBorrow).to.deep.equal([admin.address]);
+    expect(simulation.startPaying).to.be.empty;
+    expect(simulation.revenueChange).to.equal(0);
+
+    // A higher max. borrow ratio lowers the global borrow ratio
+    simulation = simulateParams(state, params, { maxBorrowRatio: toWei("95") }, 30 * DAY);
+    expect(simulation.proposed.globalBorrowRatio).to.be.lt(simulation.current.globalBorrowRatio);
+    expect(simulation.chargedOnNextBorrow).to.be.empty;
+
+    await this.matchPool.setBorrowRate(0);
+    await this.matchPool.connect(bob).borrowEUSD(toWei("650"));
+    await time.increase(DAY);
+    state = await loadInterestState(this.matchPool);
+
+    // Interest not settled yet accrues at the new rate from the last borrow
+    simulation = simulateParams(
+      state,
+      await loadInterestParams(this.matchPool),
+      { borrowRatePerSec: getRatePerSec(toWei("0.2")) },
+      30 * DAY,
+    );
+    expect(simulation.current.totalOwed).to.equal(0);
+    expect(simulation.proposed.totalOwed).to.be.gt(0);
+    expect(simulation.startPaying).to.deep.equal([bob.address]);
+    expect(simulation.revenueChange).to.equal(simulation.proposed.borrowers[1].projected);
+  });
+});
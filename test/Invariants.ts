@@ -0,0 +1,247 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { BigNumber, Contract, constants } from "ethers";
+import { ethers } from "hardhat";
+
+import { getLiquidationParams } from "../scripts/liquidation";
+import { RATIO_PRECISION, getMaxBorrow, getWithdrawable } from "../scripts/position";
+import { executeRebalance, getVaultState, planRebalance } from "../scripts/rebalance";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { Random, createRandom, getFuzzOptions, shrink } from "./fuzz";
+import { approveTokens, mintTokens, toWei } from "./utils";
+
+type ActionKind =
+  | "stake"
+  | "withdrawLP"
+  | "supply"
+  | "withdrawStETH"
+  | "borrow"
+  | "repay"
+  | "liquidate"
+  | "rebalance"
+  | "price"
+  | "wait";
+
+interface Action {
+  kind: ActionKind;
+  actor: number;
+  // Account liquidated
+  target: number;
+  // Basis points of the most the action allows, above 10000 exceeds it. Percent of
+  // the starting price for price moves, seconds / 36 for time jumps
+  ratio: number;
+}
+
+interface FuzzContext {
+  matchPool: Contract;
+  stakePool: Contract;
+  mintPool: Contract;
+  stETH: Contract;
+  lp: Contract;
+  eUSD: Contract;
+  signers: SignerWithAddress[];
+  // Starting price of stETH, price moves are relative to it
+  price: BigNumber;
+}
+
+const ACTORS = 4;
+const KINDS: ActionKind[] = [
+  "stake",
+  "withdrawLP",
+  "supply",
+  "withdrawStETH",
+  "borrow",
+  "repay",
+  "liquidate",
+  "rebalance",
+  "price",
+  "wait",
+];
+// Share-based eUSD and stETH balances round down by a few wei
+const DUST = 1000;
+
+async function deployFuzzFixture(): Promise<FuzzContext> {
+  const { matchPool, stakePool, mintPool, stETH, manager } = await deployMPFixture();
+  const signers = (await ethers.getSigners()).slice(0, ACTORS);
+  const lp: Contract = await ethers.getContractAt("LPToken", await matchPool.ethlbrLpToken());
+  const eUSD: Contract = await ethers.getContractAt("EUSDMock", await manager.eUSD());
+
+  await mintTokens(
+    lp,
+    signers.slice(2).map((signer) => signer.address),
+    [toWei("1000")],
+  );
+  await approveTokens(lp, signers.slice(2), matchPool.address, [toWei("100000")]);
+  await approveTokens(eUSD, signers.slice(2), matchPool.address, [toWei("100000")]);
+  await matchPool.setMonitor(signers[0].address);
+
+  return { matchPool, stakePool, mintPool, stETH, lp, eUSD, signers, price: await mintPool.getAssetPrice() };
+}
+
+const generate = (random: Random, steps: number): Action[] =>
+  Array.from({ length: steps }, () => {
+    const kind = random.pick(KINDS);
+    return {
+      kind,
+      actor: random.int(0, ACTORS - 1),
+      target: random.int(0, ACTORS - 1),
+      ratio: kind == "price" ? random.int(70, 130) : random.int(0, 12000),
+    };
+  });
+
+// Rounder ratios, a step back to the starting price and shorter time jumps
+const simplify = (action: Action): Action[] => {
+  const simpler = action.kind == "price" ? [100] : action.kind == "wait" ? [1] : [10000, 5000];
+  return simpler.filter((ratio) => ratio != action.ratio).map((ratio) => ({ ...action, ratio }));
+};
+
+const share = (amount: BigNumber, ratio: number) => amount.mul(ratio).div(10000);
+
+/**
+ * @return Whether the action went through, contract reverts are expected for out of range amounts
+ */
+const execute = async (context: FuzzContext, action: Action) => {
+  const { matchPool, mintPool, lp, eUSD, signers } = context;
+  const signer = signers[action.actor];
+  const pool: Contract = matchPool.connect(signer);
+  const vault = mintPool.address;
+  const price: BigNumber = await mintPool.getAssetPrice();
+  const [maxBorrowRatio, ideal] = await Promise.all([matchPool.maxBorrowRatio(), matchPool.collateralRatioIdeal()]);
+  const supplied: BigNumber = await matchPool.supplied(vault, signer.address);
+  const { principal } = await matchPool.borrowed(vault, signer.address);
+
+  try {
+    switch (action.kind) {
+      case "stake":
+        await pool.stakeLP(share(await lp.balanceOf(signer.address), action.ratio));
+        break;
+      case "withdrawLP":
+        await pool.withdrawLP(share(await matchPool.staked(signer.address), action.ratio));
+        break;
+      case "supply":
+        await pool.supplyETH({ value: share(toWei("10"), action.ratio) });
+        break;
+      case "withdrawStETH":
+        await pool.withdrawStETH(
+          share(getWithdrawable(supplied, principal, price, maxBorrowRatio, ideal), action.ratio),
+        );
+        break;
+      case "borrow": {
+        const maxBorrow = getMaxBorrow(supplied, price, maxBorrowRatio, ideal);
+        await pool.borrowEUSD(share(maxBorrow.gt(principal) ? maxBorrow.sub(principal) : constants.Zero, action.ratio));
+        break;
+      }
+      case "repay": {
+        const balance: BigNumber = await eUSD.balanceOf(signer.address);
+        const amount = share(principal, action.ratio);
+        await pool.repayEUSD(signer.address, amount.lt(balance) ? amount : balance);
+        break;
+      }
+      case "liquidate": {
+        const target = signers[action.target].address;
+        const { closeFactor } = await getLiquidationParams(matchPool);
+        const debt: BigNumber = (await matchPool.borrowed(vault, target)).principal;
+        await pool.liquidate(target, share(debt.mul(closeFactor).div(RATIO_PRECISION), action.ratio));
+        break;
+      }
+      case "rebalance":
+        await executeRebalance(matchPool, signers[0], planRebalance(await getVaultState(matchPool, mintPool)));
+        break;
+      case "price":
+        await mintPool.setEtherPrice(context.price.mul(action.ratio).div(100));
+        break;
+      case "wait":
+        await time.increase(action.ratio * 36 + 1);
+        break;
+    }
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * @return Description of the first invariant broken, if any
+ */
+const checkInvariants = async (context: FuzzContext, action: Action, succeeded: boolean) => {
+  const { matchPool, stakePool, mintPool, stETH, eUSD, signers } = context;
+  const vault = mintPool.address;
+  const [totalStaked, totalSupplied, totalDeposited, totalMinted, totalBorrowed] = await Promise.all([
+    matchPool.totalStaked(),
+    matchPool.totalSupplied(vault),
+    matchPool.totalDeposited(vault),
+    matchPool.totalMinted(vault),
+    matchPool.totalBorrowed(vault),
+  ]);
+
+  let sumStaked = constants.Zero;
+  let sumSupplied = constants.Zero;
+  for (const signer of signers) {
+    sumStaked = sumStaked.add(await matchPool.staked(signer.address));
+    sumSupplied = sumSupplied.add(await matchPool.supplied(vault, signer.address));
+  }
+
+  if (!sumSupplied.eq(totalSupplied)) return `sum of supplied ${sumSupplied} != totalSupplied ${totalSupplied}`;
+  if (!sumStaked.eq(totalStaked)) return `sum of staked ${sumStaked} != totalStaked ${totalStaked}`;
+  if (totalBorrowed.gt(totalMinted)) return `totalBorrowed ${totalBorrowed} > totalMinted ${totalMinted}`;
+  if (totalDeposited.gt(totalSupplied)) return `totalDeposited ${totalDeposited} > totalSupplied ${totalSupplied}`;
+
+  const lpStaked: BigNumber = await stakePool.balanceOf(matchPool.address);
+  if (!lpStaked.eq(totalStaked)) return `LP in stake pool ${lpStaked} != totalStaked ${totalStaked}`;
+  const deposited: BigNumber = await mintPool.depositedAsset(matchPool.address);
+  if (!deposited.eq(totalDeposited)) return `stETH in Lybra ${deposited} != totalDeposited ${totalDeposited}`;
+  const minted: BigNumber = await mintPool.getBorrowedOf(matchPool.address);
+  if (!minted.eq(totalMinted)) return `eUSD minted in Lybra ${minted} != totalMinted ${totalMinted}`;
+
+  const idle = totalSupplied.sub(totalDeposited);
+  const stETHBalance: BigNumber = await stETH.balanceOf(matchPool.address);
+  if (stETHBalance.add(DUST).lt(idle)) return `stETH balance ${stETHBalance} < idle ${idle}`;
+  const lent = totalMinted.sub(totalBorrowed);
+  const eUSDBalance: BigNumber = await eUSD.balanceOf(matchPool.address);
+  if (eUSDBalance.add(DUST).lt(lent)) return `eUSD balance ${eUSDBalance} < not lent ${lent}`;
+
+  // Price moves push borrowers past it, that is what liquidations are for
+  if (succeeded && (action.kind == "borrow" || action.kind == "withdrawStETH")) {
+    const account = signers[action.actor].address;
+    const price = await mintPool.getAssetPrice();
+    const supplied = await matchPool.supplied(vault, account);
+    const { principal } = await matchPool.borrowed(vault, account);
+    const maxBorrow = getMaxBorrow(
+      supplied,
+      price,
+      await matchPool.maxBorrowRatio(),
+      await matchPool.collateralRatioIdeal(),
+    );
+    if (principal.gt(maxBorrow.add(DUST))) return `borrowed ${principal} of ${account} > max. borrow ${maxBorrow}`;
+  }
+};
+
+const replay = async (actions: Action[]) => {
+  const context = await loadFixture(deployFuzzFixture);
+  for (const [step, action] of actions.entries()) {
+    const succeeded = await execute(context, action);
+    const message = await checkInvariants(context, action, succeeded);
+    if (message) return { step, message };
+  }
+};
+
+describe("Match Pool invariants", function () {
+  it("should keep accounting consistent over random action sequences", async function () {
+    this.timeout(1_200_000);
+    const options = getFuzzOptions({ runs: 3, steps: 40 });
+
+    for (let run = 0; run < options.runs; run++) {
+      const seed = options.seed + run;
+      const actions = generate(createRandom(seed), options.steps);
+      const failure = await replay(actions);
+      if (!failure) continue;
+
+      const shrunk = await shrink(actions, failure, replay, simplify);
+      expect.fail(
+        `Invariant broken, replay with FUZZ_SEED=${seed}: ${shrunk.message} after step ${shrunk.step} of\n` +
+          JSON.stringify(shrunk.actions, null, 2),
+      );
+    }
+  });
+});
@@ -0,0 +1,39 @@
+import { expect } from "chai";
+import { Wallet } from "ethers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { loadKeystore, writeKeystore } from "../scripts/keystore";
+
+describe("Keystore", function () {
+  before(async function () {
+    this.wallet = Wallet.createRandom();
+    this.file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "keystore-")), "deployer.json");
+    await writeKeystore(this.file, this.wallet.privateKey, "password");
+  });
+
+  it("should decrypt the keystore with its password", async function () {
+    const wallet = await loadKeystore(this.file, "password");
+    expect(wallet.address).to.equal(this.wallet.address);
+  });
+
+  it("should reject a wrong password", async function () {
+    try {
+      await loadKeystore(this.file, "wrong");
+      expect.fail("should reject");
+    } catch (error) {
+      expect((error as Error).message).to.contain("invalid password");
+    }
+  });
+
+  it("should not overwrite an existing keystore", async function () {
+    try {
+      await writeKeystore(this.file, Wallet.createRandom().privateKey, "password");
+      expect.fail("should reject");
+    } catch (error) {
+      expect((error as Error).message).to.contain("already exists");
+    }
+    expect((await loadKeystore(this.file, "password")).address).to.equal(this.wallet.address);
+  });
+});
@@ -0,0 +1,125 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { executeLiquidations, getBorrowers, getLiquidationParams, scanLiquidations } from "../scripts/liquidation";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+describe("Liquidation scanner", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool, mintPool } = await this.loadFixture(deployMPFixture);
+    this.matchPool = matchPool;
+    this.mintPool = mintPool;
+
+    await this.matchPool.setMonitor(this.signers.admin.address);
+    await this.matchPool.stakeLP(toWei("1"));
+    await this.matchPool.supplyStETH(toWei("1"));
+    await this.matchPool.connect(this.signers.bob).supplyETH({ value: toWei("1") });
+    // Deposited: 2 stETH, minted: 1600 eUSD
+    await this.matchPool.monitorDeposit(toWei("2"), toWei("1600"));
+    // Max. borrow of each: 1 * 1600 * 85% / 200% = 680 eUSD
+    await this.matchPool.borrowEUSD(toWei("680"));
+    await this.matchPool.connect(this.signers.bob).borrowEUSD(toWei("600"));
+  });
+
+  it("should find borrowers from events", async function () {
+    const borrowers = await getBorrowers(this.matchPool);
+    expect(borrowers).to.have.members([this.signers.admin.address, this.signers.bob.address]);
+    // One block per log request
+    expect(await getBorrowers(this.matchPool, 0, 1)).to.have.members(borrowers);
+  });
+
+  it("should not list healthy borrowers", async function () {
+    const params = await getLiquidationParams(this.matchPool);
+    const candidates = await scanLiquidations(this.matchPool, await getBorrowers(this.matchPool), params);
+    expect(candidates).to.be.empty;
+  });
+
+  it("should list and liquidate borrowers past liquidation threshold", async function () {
+    // Liquidation threshold: 1 * 1000 / 200% = 500 eUSD
+    await this.mintPool.setEtherPrice(toWei("1000"));
+
+    const params = await getLiquidationParams(this.matchPool);
+    // Global borrow ratio: 1280 / 850 > 50%, normal params apply
+    expect(params.closeFactor).to.equal(toWei("50"));
+    expect(params.liquidationDiscount).to.equal(toWei("110"));
+
+    const candidates = await scanLiquidations(this.matchPool, await getBorrowers(this.matchPool), params);
+    const bob = candidates.find((candidate) => candidate.account == this.signers.bob.address);
+    expect(candidates).to.have.length(2);
+    expect(bob).to.include({ underwater: true, liquidatable: true });
+    // Out of the principal of admin, the liquidator: 680 * 50%
+    expect(bob?.maxRepay).to.equal(toWei("340"));
+    expect(bob?.seizeAmount).to.equal(toWei("0.374"));
+
+    const results = await executeLiquidations(this.matchPool, this.signers.admin, candidates, params);
+    expect(results.filter((result) => result.receipt).map((result) => result.account)).to.deep.equal([
+      this.signers.bob.address,
+    ]);
+    expect((await this.matchPool.borrowed(this.mintPool.address, this.signers.bob.address)).principal).to.equal(
+      toWei("260"),
+    );
+    expect(await this.matchPool.supplied(this.mintPool.address, this.signers.bob.address)).to.equal(toWei("0.626"));
+  });
+
+  it("should flag borrowers the liquidator cannot liquidate", async function () {
+    const { admin, bob } = this.signers;
+    const carol = (await ethers.getSigners())[2];
+    await this.mintPool.setEtherPrice(toWei("1000"));
+    const params = await getLiquidationParams(this.matchPool);
+
+    // Carol has not borrowed, liquidate() considers every account healthy
+    const candidates = await scanLiquidations(this.matchPool, [admin.address, bob.address], params, carol.address);
+    expect(candidates.map((candidate) => candidate.underwater)).to.deep.equal([true, true]);
+    expect(candidates.map((candidate) => candidate.liquidatable)).to.deep.equal([false, false]);
+    expect(candidates[0].maxRepay).to.equal(0);
+
+    const results = await executeLiquidations(this.matchPool, carol, candidates, params);
+    expect(results.map((result) => result.error)).to.deep.equal([
+      "Liquidator's principal under the threshold",
+      "Liquidator's principal under the threshold",
+    ]);
+  });
+
+  it("should skip accounts above water unless forced", async function () {
+    const { admin, bob } = this.signers;
+    // Threshold of bob: 1 * 1359 / 200% = 679.5 eUSD, under the principal of admin but above the one of bob
+    await this.mintPool.setEtherPrice(toWei("1359"));
+    const params = await getLiquidationParams(this.matchPool);
+    const candidates = await scanLiquidations(this.matchPool, [bob.address], params);
+    expect(candidates).to.have.length(1);
+    expect(candidates[0]).to.include({ underwater: false, liquidatable: true });
+
+    let results = await executeLiquidations(this.matchPool, admin, candidates, params);
+    expect(results.map((result) => result.error)).to.deep.equal(["Account above water"]);
+    expect((await this.matchPool.borrowed(this.mintPool.address, bob.address)).principal).to.equal(toWei("600"));
+
+    results = await executeLiquidations(this.matchPool, admin, candidates, params, true);
+    expect(results[0].receipt).to.not.be.undefined;
+    expect((await this.matchPool.borrowed(this.mintPool.address, bob.address)).principal).to.equal(
+      toWei("600").sub(candidates[0].maxRepay),
+    );
+  });
+
+  it("should repay no more than the principal of the account", async function () {
+    const { admin, bob } = this.signers;
+    await this.matchPool.connect(bob).repayEUSD(bob.address, toWei("500"));
+    // Threshold of bob: 1 * 150 / 200% = 75 eUSD
+    await this.mintPool.setEtherPrice(toWei("150"));
+    const params = await getLiquidationParams(this.matchPool);
+    const candidates = await scanLiquidations(this.matchPool, [bob.address], params);
+    // Close factor of the 680 eUSD of admin is above the 100 eUSD of bob
+    expect(candidates[0].maxRepay).to.equal(toWei("100"));
+
+    const [result] = await executeLiquidations(this.matchPool, admin, candidates, params);
+    expect(result.repayAmount).to.equal(toWei("100"));
+    expect((await this.matchPool.borrowed(this.mintPool.address, bob.address)).principal).to.equal(0);
+  });
+});
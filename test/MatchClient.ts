@@ -0,0 +1,78 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { MatchClient } from "../scripts/client";
+import { ContractError } from "../scripts/errors";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+describe("Match client", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool, mintPool } = await this.loadFixture(deployMPFixture);
+    this.matchPool = matchPool;
+    this.mintPool = mintPool;
+    this.client = await MatchClient.connect(hre, matchPool.address, this.signers.admin);
+  });
+
+  const expectPreflight = async (action: Promise<unknown>, errorName: string) => {
+    try {
+      await action;
+      expect.fail("should reject");
+    } catch (error) {
+      expect((error as ContractError).errorName).to.equal(errorName);
+    }
+  };
+
+  it("should approve what it spends and read decimal positions", async function () {
+    const bob = await MatchClient.connect(hre, this.matchPool.address, this.signers.bob);
+    // Approved by the fixture otherwise
+    await bob.lp.contract.approve(this.matchPool.address, 0);
+
+    await (await bob.stake("10.5")).wait();
+    await (await bob.supplyETH("2")).wait();
+
+    await this.matchPool.setMonitor(this.signers.admin.address);
+    await this.matchPool.monitorDeposit(toWei("2"), toWei("1600"));
+    await (await bob.borrow("100")).wait();
+
+    const position = await bob.getPosition();
+    expect(position).to.include({ staked: "10.5", supplied: "2.0", borrowed: "100.0", liquidatable: false });
+    // 2 * 1600 * 85% / 200%
+    expect(position.maxBorrow).to.equal("1360.0");
+    expect(position.collateralRatio).to.equal("3200.0");
+
+    const pool = await this.client.getPool();
+    expect(pool).to.include({ totalSupplied: "2.0", totalMinted: "1600.0", available: "1500.0", stakePaused: false });
+    expect(pool.stakeLimit).to.equal("60000.0");
+  });
+
+  it("should not send transactions that would revert", async function () {
+    const nonce = await this.signers.admin.getTransactionCount();
+
+    await this.matchPool.setStakePaused(true);
+    await expectPreflight(this.client.stake("1"), "StakePaused");
+    await this.matchPool.setStakePaused(false);
+    // Value of the LP token is set by the mock oracle
+    await this.matchPool.setStakeLimit(1);
+    await expectPreflight(this.client.stake("1"), "ExceedLimit");
+
+    await this.matchPool.setSupplyLimit(toWei("1000"));
+    await expectPreflight(this.client.supply("1"), "ExceedLimit");
+
+    await this.matchPool.setBorrowPaused(true);
+    await expectPreflight(this.client.borrow("1"), "BorrowPaused");
+    await this.matchPool.setBorrowPaused(false);
+    await expectPreflight(this.client.borrow("1"), "ExceedAmountAllowed");
+    await expectPreflight(this.client.withdraw("1"), "ExceedAmountAllowed");
+
+    // Only the owner calls above were sent
+    expect(await this.signers.admin.getTransactionCount()).to.equal(nonce + 6);
+  });
+});
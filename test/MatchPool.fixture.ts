@@ -1,7 +1,7 @@
 import { BigNumber } from "@ethersproject/bignumber";
-import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/dist/src/signer-with-address";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { deployments, ethers } from "hardhat";
 
 import { deploy, deployUpgradeable, mintTokens, approveTokens, toWei } from "./utils";
 
@@ -45,5 +45,21 @@ export async function deployMPFixture() {
   await approveTokens(stETH, [admin], matchPool.address, [toWei("100000")]);
   await approveTokens(eUSD, [admin, bob], matchPool.address, [toWei("100000")]);
 
-  return { matchPool, stakePool, mining, mintPool, stETH, manager };
-}
\ No newline at end of file
+  return { matchPool, stakePool, mining, mintPool, stETH, manager, lpOracle };
+}
+
+// Same stack from the deploy scripts, snapshotted by hardhat-deploy
+export const deployStackFixture = deployments.createFixture(async ({ deployments }) => {
+  await deployments.fixture();
+  const at = async (name: string) => ethers.getContractAt(name, (await deployments.get(name)).address);
+
+  return {
+    matchPool: await at("MatchPool"),
+    stakePool: await at("StakePool"),
+    mining: await at("MiningIncentive"),
+    mintPool: await at("LybraMintPool"),
+    stETH: await at("stETHMock"),
+    manager: await at("RewardManager"),
+    lpOracle: await at("LPOracle"),
+  };
+});
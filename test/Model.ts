@@ -0,0 +1,157 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import hre, { ethers } from "hardhat";
+
+import { MatchClient } from "../scripts/client";
+import { ContractError } from "../scripts/errors";
+import {
+  ModelResult,
+  ModelState,
+  borrow,
+  liquidate,
+  loadModelConfig,
+  loadModelState,
+  repay,
+  supply,
+  withdrawStETH,
+} from "../scripts/model";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+// BigNumbers as strings for deep equality, eUSD balance aside as its shares round down
+const toStrings = ({ eUSDBalance: _, ...state }: ModelState) =>
+  JSON.parse(
+    JSON.stringify(state, (key, value) => (value?.type == "BigNumber" ? BigNumber.from(value).toString() : value)),
+  );
+
+describe("Reference model", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+    this.accounts = signers.slice(0, 3).map((signer) => signer.address);
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool, mintPool } = await this.loadFixture(deployMPFixture);
+    this.matchPool = matchPool;
+    this.mintPool = mintPool;
+    this.config = await loadModelConfig(matchPool);
+    await matchPool.setMonitor(this.signers.admin.address);
+  });
+
+  /**
+   * @notice Sends { action } after running { model } on the state before it, and checks the state after matches
+   */
+  const step = async function (
+    this: Mocha.Context,
+    model: (state: ModelState) => ModelResult,
+    action: () => Promise<unknown>,
+  ) {
+    const predicted = model(await loadModelState(this.matchPool, this.accounts));
+    await action();
+    const actual = await loadModelState(this.matchPool, this.accounts);
+    expect(toStrings(actual)).to.deep.equal(toStrings(predicted.state));
+    expect(actual.eUSDBalance).to.be.closeTo(predicted.state.eUSDBalance, 10);
+    return predicted.effects;
+  };
+
+  it("should follow deposits, mints and burns of the contract", async function () {
+    const { admin, bob } = this.signers;
+    const carol = (await ethers.getSigners())[2];
+    const bobPool = this.matchPool.connect(bob);
+
+    // Nothing minted yet, supplying alone never deposits
+    let effects = await step.call(
+      this,
+      (state) => supply(state, this.config, admin.address, toWei("10")),
+      () => this.matchPool.supplyStETH(toWei("10")),
+    );
+    expect(effects.deposited).to.equal(0);
+    // Deposited: 10 stETH, minted: 8000 eUSD
+    await this.matchPool.monitorDeposit(toWei("10"), toWei("8000"));
+    await this.mintPool.setEtherPrice(toWei("1800"));
+
+    // Over-collateralized, less than 1 stETH idle mints without depositing
+    effects = await step.call(
+      this,
+      (state) => supply(state, this.config, bob.address, toWei("0.5")),
+      () => bobPool.supplyETH({ value: toWei("0.5") }),
+    );
+    expect(effects.minted).to.equal(toWei("1000"));
+    expect(effects.deposited).to.equal(0);
+
+    // At 200%, depositing the idle stETH allows minting more
+    effects = await step.call(
+      this,
+      (state) => supply(state, this.config, bob.address, toWei("2")),
+      () => bobPool.supplyETH({ value: toWei("2") }),
+    );
+    expect(effects.deposited).to.equal(toWei("2.5"));
+
+    await step.call(
+      this,
+      (state) => borrow(state, this.config, admin.address, toWei("3000")),
+      () => this.matchPool.borrowEUSD(toWei("3000")),
+    );
+    await step.call(
+      this,
+      (state) => borrow(state, this.config, bob.address, toWei("1500")),
+      () => bobPool.borrowEUSD(toWei("1500")),
+    );
+
+    // No idle stETH, withdrawing from Lybra takes the vault below 200%, burn first and punished after a deposit
+    effects = await step.call(
+      this,
+      (state) => withdrawStETH(state, this.config, admin.address, toWei("1")),
+      () => this.matchPool.withdrawStETH(toWei("1")),
+    );
+    expect(effects.burnt).to.be.gt(0);
+    expect(effects.punishment).to.equal(toWei("0.001"));
+    expect(effects.received).to.equal(toWei("0.999"));
+
+    await time.increase(3 * 24 * 3600);
+    effects = await step.call(
+      this,
+      (state) => withdrawStETH(state, this.config, admin.address, toWei("1")),
+      () => this.matchPool.withdrawStETH(toWei("1")),
+    );
+    expect(effects.punishment).to.equal(0);
+
+    await step.call(
+      this,
+      (state) => repay(state, this.config, admin.address, toWei("1000")),
+      () => this.matchPool.repayEUSD(admin.address, toWei("1000")),
+    );
+
+    // Bob's principal is over Carol's liquidation threshold of 900 eUSD. Repaying more than Carol's
+    // principal would send the rest to the treasury, unset in the fixture
+    await this.matchPool.connect(carol).supplyETH({ value: toWei("1") });
+    await this.matchPool.connect(carol).borrowEUSD(toWei("100"));
+    effects = await step.call(
+      this,
+      (state) => liquidate(state, this.config, bob.address, carol.address, toWei("100")),
+      () => bobPool.liquidate(carol.address, toWei("100")),
+    );
+    expect(effects.seized).to.be.gt(0);
+  });
+
+  it("should preview supplies and withdrawals of a client", async function () {
+    const client = await MatchClient.connect(hre, this.matchPool.address, this.signers.admin);
+    await this.matchPool.supplyStETH(toWei("2"));
+    await this.matchPool.monitorDeposit(toWei("2"), toWei("1600"));
+
+    const preview = await client.previewWithdraw("1");
+    expect(preview.effects.received).to.equal(preview.effects.withdrawn.sub(preview.effects.punishment));
+    expect(preview.effects.burnt).to.equal(toWei("800"));
+    expect(preview.state.totalDeposited).to.equal(toWei("1"));
+
+    try {
+      await client.previewWithdraw("3");
+      expect.fail("should reject");
+    } catch (error) {
+      expect((error as ContractError).errorName).to.equal("ExceedAmountAllowed");
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { RiskParams, getSetterCalls, readParams, validateParams } from "../scripts/params";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+// Values set by MatchPool.initialize()
+const DEFAULTS: RiskParams = {
+  MatchPool: {
+    dlpRatio: { lower: 2.75, ideal: 3, upper: 3.25 },
+    collateralRatio: { lower: 190, ideal: 200, upper: 210 },
+    borrowRatePerYear: 10,
+    borrowRatio: { max: 85, globalThreshold: 75, globalLiquidation: 50 },
+    liquidation: { discount: 105, closeFactor: 20 },
+    liquidationNormal: { discount: 110, closeFactor: 50 },
+    stakeLimit: 60000,
+    supplyLimit: 4000000,
+  },
+};
+
+const getErrors = (params: RiskParams) => {
+  try {
+    validateParams(params);
+  } catch (e) {
+    return (e as Error).message.split("\n  ").slice(1);
+  }
+  return [];
+};
+
+describe("Risk parameters", function () {
+  it("should accept valid parameters", function () {
+    expect(getErrors(DEFAULTS)).to.be.empty;
+    expect(getErrors({ RewardManager: { rewardShares: { treasury: 10, staker: 90 } } })).to.be.empty;
+  });
+
+  it("should reject values out of range", function () {
+    expect(
+      getErrors({
+        MatchPool: {
+          dlpRatio: { lower: 3.25, ideal: 3, upper: 2.75 },
+          collateralRatio: { lower: 90, ideal: 200, upper: 210 },
+          borrowRatio: { max: 100, globalThreshold: 75, globalLiquidation: 120 },
+          liquidation: { discount: 95, closeFactor: 20 },
+          stakeLimit: -1,
+          monitor: "0x1234",
+        },
+        RewardManager: { rewardShares: { treasury: 60, staker: 50 } },
+      }),
+    ).to.deep.equal([
+      "dlpRatio: lower < ideal < upper is required",
+      "collateralRatio.lower: 90 is not within [100, Infinity]",
+      "borrowRatio.max: has to be below 100",
+      "borrowRatio.globalLiquidation: 120 is not within [0, 100]",
+      "liquidation.discount: 95 is not within [100, 200]",
+      "stakeLimit: -1 is not within [0, Infinity]",
+      "monitor: 0x1234 is not an address",
+      "rewardShares: treasury + staker has to be within [0, 100]",
+    ]);
+  });
+
+  it("should reject values with more decimals than their contract unit first", function () {
+    expect(
+      getErrors({
+        MatchPool: {
+          // Also out of order, only reported once precise enough
+          dlpRatio: { lower: 3.125, ideal: 3, upper: 3.25 },
+          borrowRatePerYear: "0.00000000000000001",
+          stakeLimit: "many",
+        },
+      }),
+    ).to.deep.equal([
+      "dlpRatio.lower: 3.125 is not a number with at most 2 decimals",
+      "borrowRatePerYear: 0.00000000000000001 is not a number with at most 16 decimals",
+      "stakeLimit: many is not a number with at most 18 decimals",
+    ]);
+  });
+
+  it("should refuse networks without parameters", function () {
+    expect(readParams("localhost").MatchPool).to.deep.equal(DEFAULTS.MatchPool);
+    expect(() => readParams("mainnet")).to.throw(
+      'No parameters for mainnet in info/params.json, only for localhost. Add a "mainnet" entry',
+    );
+  });
+
+  describe("Setter calls", function () {
+    beforeEach(async function () {
+      const { matchPool, manager } = await loadFixture(deployMPFixture);
+      this.matchPool = matchPool;
+      this.manager = manager;
+    });
+
+    it("should not change parameters at their current value", async function () {
+      const calls = await getSetterCalls(hre, this.matchPool, this.manager, DEFAULTS);
+      expect(calls.map((call) => call.method)).to.deep.equal([
+        "setDlpRatioRange",
+        "setCollateralRatioRange",
+        "setBorrowRate",
+        "setBorrowRatio",
+        "setLiquidationParams",
+        "setLiquidationParamsNormal",
+        "setStakeLimit",
+        "setSupplyLimit",
+      ]);
+      expect(calls.filter((call) => call.changed)).to.be.empty;
+    });
+
+    it("should send every value of a setter with one of them changed", async function () {
+      const [admin, bob] = await ethers.getSigners();
+      await this.matchPool.setMonitor(admin.address);
+      await this.manager.setMiningRewardShares(20, 0);
+      const calls = await getSetterCalls(hre, this.matchPool, this.manager, {
+        MatchPool: {
+          dlpRatio: { lower: 2.5, ideal: 3, upper: 3.25 },
+          stakeLimit: 100000,
+          monitor: bob.address.toLowerCase(),
+        },
+        RewardManager: { rewardShares: { treasury: 10, staker: 0 } },
+      });
+
+      const [dlpRatio, stakeLimit, monitor, shares] = calls;
+      // setDlpRatioRange(lower, upper, ideal)
+      expect(dlpRatio.args).to.deep.equal([250, 325, 300].map((value) => ethers.BigNumber.from(value)));
+      expect(dlpRatio.values.map((value) => value.changed)).to.deep.equal([true, false, false]);
+      expect(dlpRatio.values[0]).to.include({ current: "2.75", desired: "2.5" });
+      // USD scaled in 1e18
+      expect(stakeLimit.args).to.deep.equal([toWei("100000")]);
+      expect(stakeLimit.values[0]).to.include({ current: "60000.0", desired: "100000.0", changed: true });
+      expect(monitor).to.include({ changed: true });
+      expect(monitor.args).to.deep.equal([bob.address]);
+      expect(shares.values.map((value) => value.changed)).to.deep.equal([true, false]);
+    });
+  });
+});
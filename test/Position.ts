@@ -0,0 +1,86 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { loadErrorInterface, simulate } from "../scripts/errors";
+import { getLiquidationThreshold, getPosition, getWithdrawable } from "../scripts/position";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+describe("Position", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+    this.carol = signers[2];
+    this.errors = await loadErrorInterface(hre);
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool, mintPool } = await this.loadFixture(deployMPFixture);
+    this.matchPool = matchPool;
+    this.mintPool = mintPool;
+
+    await this.matchPool.setMonitor(this.signers.admin.address);
+    await this.matchPool.stakeLP(toWei("1"));
+    await this.matchPool.supplyStETH(toWei("1"));
+    await this.matchPool.connect(this.signers.bob).supplyETH({ value: toWei("1") });
+    await this.matchPool.monitorDeposit(toWei("2"), toWei("1600"));
+    await this.matchPool.borrowEUSD(toWei("680"));
+    await this.matchPool.connect(this.signers.bob).borrowEUSD(toWei("600"));
+  });
+
+  it("should only allow withdrawing up to the withdrawable amount", async function () {
+    const { bob } = this.signers;
+    const pool = this.matchPool.connect(bob);
+    const position = await getPosition(pool, bob.address);
+    const withdrawable = getWithdrawable(toWei("1"), toWei("600"), toWei("1600"), toWei("85"), toWei("200"));
+    expect(position.withdrawable).to.equal(withdrawable);
+
+    try {
+      await simulate(this.errors, pool, "withdrawStETH", [withdrawable.add(1)]);
+      expect.fail("should reject");
+    } catch (e) {
+      const { errorName, errorArgs } = e as { errorName: string; errorArgs: unknown[] };
+      expect(errorName).to.equal("ExceedAmountAllowed");
+      expect(errorArgs).to.deep.equal([withdrawable.add(1), withdrawable]);
+    }
+    await pool.withdrawStETH(withdrawable);
+    expect(await this.matchPool.supplied(this.mintPool.address, bob.address)).to.equal(toWei("1").sub(withdrawable));
+  });
+
+  it("should check the principal of the liquidator against the liquidation threshold", async function () {
+    const { admin, bob } = this.signers;
+    const { carol } = this;
+    // Threshold of bob: 1 * 1360 / 200% = 680 eUSD, the principal of admin
+    await this.mintPool.setEtherPrice(toWei("1360"));
+    let position = await getPosition(this.matchPool, bob.address);
+    expect(position.liquidationThreshold).to.equal(getLiquidationThreshold(toWei("1"), toWei("1360"), toWei("200")));
+    expect(position.liquidationThreshold).to.equal(toWei("680"));
+    expect(position).to.include({ liquidator: admin.address, underwater: false, liquidatable: false });
+
+    try {
+      await simulate(this.errors, this.matchPool, "liquidate", [bob.address, toWei("1")]);
+      expect.fail("should reject");
+    } catch (e) {
+      expect((e as Error).message).to.equal("HealthyAccount");
+    }
+
+    // Bob is still above water, but admin borrowed more than the threshold of bob
+    await this.mintPool.setEtherPrice(toWei("1359"));
+    position = await getPosition(this.matchPool, bob.address);
+    expect(position).to.include({ underwater: false, liquidatable: true });
+    await simulate(this.errors, this.matchPool, "liquidate", [bob.address, toWei("1")]);
+
+    // Bob under water, but carol has not borrowed anything
+    await this.mintPool.setEtherPrice(toWei("1000"));
+    position = await getPosition(this.matchPool, bob.address, carol.address);
+    expect(position).to.include({ liquidator: carol.address, underwater: true, liquidatable: false });
+    try {
+      await simulate(this.errors, this.matchPool.connect(carol), "liquidate", [bob.address, toWei("1")]);
+      expect.fail("should reject");
+    } catch (e) {
+      expect((e as Error).message).to.equal("HealthyAccount");
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { ContractError } from "../scripts/errors";
+import { executeRebalance, getVaultState, planRebalance } from "../scripts/rebalance";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+describe("Monitor rebalance", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool, mintPool } = await this.loadFixture(deployMPFixture);
+    this.matchPool = matchPool;
+    this.mintPool = mintPool;
+
+    await this.matchPool.setMonitor(this.signers.admin.address);
+    // dLP value $86
+    await this.matchPool.stakeLP(toWei("1"));
+    // stETH total value: $1600
+    await this.matchPool.supplyStETH(toWei("1"));
+  });
+
+  it("should deposit idle stETH and mint when nothing is minted", async function () {
+    const plan = planRebalance(await getVaultState(this.matchPool, this.mintPool));
+    expect(plan.actions.map((action) => action.method)).to.deep.equal(["monitorDeposit"]);
+    expect(plan.actions[0].args).to.deep.equal([toWei("1"), toWei("800")]);
+
+    await executeRebalance(this.matchPool, this.signers.admin, plan);
+    const state = await getVaultState(this.matchPool, this.mintPool);
+    expect(state.deposited).to.equal(toWei("1"));
+    expect(state.minted).to.equal(toWei("800"));
+  });
+
+  context("with eUSD minted", async function () {
+    beforeEach(async function () {
+      // Deposited: 1 stETH, minted: 800 eUSD, collateral ratio: 200%
+      const plan = planRebalance(await getVaultState(this.matchPool, this.mintPool));
+      await executeRebalance(this.matchPool, this.signers.admin, plan);
+    });
+
+    it("should do nothing within band", async function () {
+      await this.mintPool.setEtherPrice(toWei("1650"));
+
+      const plan = planRebalance(await getVaultState(this.matchPool, this.mintPool));
+      expect(plan.actions).to.be.empty;
+    });
+
+    it("should burn eUSD when under-collateralized", async function () {
+      // Collateral ratio: 1400 / 800 = 175%
+      await this.mintPool.setEtherPrice(toWei("1400"));
+
+      const plan = planRebalance(await getVaultState(this.matchPool, this.mintPool));
+      expect(plan.actions.map((action) => action.method)).to.deep.equal(["monitorBurn"]);
+      expect(plan.actions[0].args[0]).to.equal(toWei("100"));
+
+      await executeRebalance(this.matchPool, this.signers.admin, plan);
+      const state = await getVaultState(this.matchPool, this.mintPool);
+      expect(state.minted).to.equal(toWei("700"));
+      expect(state.collateralRatio).to.equal(toWei("200"));
+    });
+
+    it("should mint eUSD when over-collateralized", async function () {
+      // Collateral ratio: 1800 / 800 = 225%
+      await this.mintPool.setEtherPrice(toWei("1800"));
+
+      const plan = planRebalance(await getVaultState(this.matchPool, this.mintPool));
+      expect(plan.actions.map((action) => action.method)).to.deep.equal(["monitorMint"]);
+
+      await executeRebalance(this.matchPool, this.signers.admin, plan);
+      const state = await getVaultState(this.matchPool, this.mintPool);
+      expect(state.minted).to.equal(toWei("900"));
+      expect(state.collateralRatio).to.equal(toWei("200"));
+    });
+
+    it("should withdraw stETH when over-collateralized and preferred", async function () {
+      await this.matchPool.supplyStETH(toWei("0.5"));
+      // Collateral ratio: 2000 / 800 = 250%
+      await this.mintPool.setEtherPrice(toWei("2000"));
+
+      const plan = planRebalance(await getVaultState(this.matchPool, this.mintPool), "withdraw");
+      expect(plan.actions.map((action) => action.method)).to.deep.equal(["monitorWithdraw"]);
+      expect(plan.actions[0].args[0]).to.equal(toWei("0.2"));
+      expect(plan.collateralRatioAfter).to.equal(toWei("200"));
+    });
+
+    it("should revert when not sent by monitor", async function () {
+      await this.mintPool.setEtherPrice(toWei("1400"));
+
+      const plan = planRebalance(await getVaultState(this.matchPool, this.mintPool));
+      try {
+        await executeRebalance(this.matchPool, this.signers.bob, plan);
+        expect.fail("should reject");
+      } catch (e) {
+        expect((e as ContractError).errorName).to.equal("Unauthorized");
+      }
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  Registry,
+  getAddress,
+  migrateLegacy,
+  readRegistry,
+  recordDeployment,
+  recordImplementation,
+  recordPendingImplementation,
+} from "../scripts/registry";
+
+const PROXY = "0x04b9ce11da7323aEf03f6e6c16C0b93cFB44C55c";
+const IMPLEMENTATION = "0x55025Dc32cEA61d2013d25A2da2316F3c0d94a92";
+const NEW_IMPLEMENTATION = "0x1bE94d910B4489Ad8Cfc1536947f19699271E033";
+const LP_TOKEN = "0x3A0eF60e803aae8e94f741E7F61c7CBe9501e569";
+const STAKE_POOL = "0x87D4938b55331E86aB2BaadeeC7f01592482Cb23";
+const REWARD_MANAGER = "0x1A389Fa735a001a4F42f241007150e660d166f5a";
+
+describe("Deployment registry", function () {
+  beforeEach(function () {
+    this.dir = fs.mkdtempSync(path.join(os.tmpdir(), "registry-"));
+    this.file = path.join(this.dir, "deployments.json");
+    this.write = (name: string, json: unknown) => {
+      const file = path.join(this.dir, name);
+      fs.writeFileSync(file, JSON.stringify(json));
+      return file;
+    };
+  });
+
+  it("should create missing networks and leave no temporary file", async function () {
+    recordDeployment("sepolia", 11155111, "LPToken", { address: LP_TOKEN, args: [], block: 1 }, this.file);
+    recordDeployment("mainnet", 1, "LPToken", { address: LP_TOKEN, args: [] }, this.file);
+
+    const registry = readRegistry(this.file);
+    expect(registry.sepolia.chainId).to.equal(11155111);
+    expect(registry.sepolia.contracts.LPToken.block).to.equal(1);
+    expect(getAddress("mainnet", "LPToken", this.file)).to.equal(LP_TOKEN);
+    expect(fs.readdirSync(this.dir)).to.deep.equal(["deployments.json"]);
+  });
+
+  it("should not mix chains under a network", async function () {
+    recordDeployment("sepolia", 11155111, "LPToken", { address: LP_TOKEN, args: [] }, this.file);
+    expect(() => recordDeployment("sepolia", 5, "LPToken", { address: LP_TOKEN, args: [] }, this.file)).to.throw(
+      "not 5",
+    );
+    expect(() => getAddress("sepolia", "StakePool", this.file)).to.throw("No StakePool deployed on sepolia");
+  });
+
+  it("should keep the implementation history of proxies", async function () {
+    recordImplementation("mainnet", 1, "MatchPool", PROXY, IMPLEMENTATION, undefined, this.file);
+    recordImplementation("mainnet", 1, "MatchPool", PROXY, NEW_IMPLEMENTATION, undefined, this.file);
+    const deployment = recordImplementation("mainnet", 1, "MatchPool", PROXY, NEW_IMPLEMENTATION, "0x01", this.file);
+
+    expect(deployment.address).to.equal(PROXY);
+    expect(deployment.implementation).to.equal(NEW_IMPLEMENTATION);
+    expect(deployment.implementations?.map((record) => record.address)).to.deep.equal([
+      IMPLEMENTATION,
+      NEW_IMPLEMENTATION,
+    ]);
+    expect(deployment.implementations?.[1].upgradeTx).to.equal("0x01");
+    expect(() =>
+      recordImplementation("mainnet", 1, "MatchPool", LP_TOKEN, IMPLEMENTATION, undefined, this.file),
+    ).to.throw("not " + LP_TOKEN);
+  });
+
+  it("should keep the current implementation until the upgrade is executed", async function () {
+    recordImplementation("mainnet", 1, "MatchPool", PROXY, IMPLEMENTATION, undefined, this.file);
+    let deployment = recordPendingImplementation("mainnet", 1, "MatchPool", PROXY, NEW_IMPLEMENTATION, this.file);
+    expect(deployment).to.include({ implementation: IMPLEMENTATION, pendingImplementation: NEW_IMPLEMENTATION });
+    expect(deployment.implementations?.[1].address).to.equal(NEW_IMPLEMENTATION);
+    expect(deployment.implementations?.[1].upgradeTx).to.be.undefined;
+    // Already current
+    deployment = recordPendingImplementation("mainnet", 1, "MatchPool", PROXY, IMPLEMENTATION, this.file);
+    expect(deployment.pendingImplementation).to.equal(NEW_IMPLEMENTATION);
+
+    deployment = recordImplementation("mainnet", 1, "MatchPool", PROXY, NEW_IMPLEMENTATION, "0x01", this.file);
+    expect(deployment.implementation).to.equal(NEW_IMPLEMENTATION);
+    expect(deployment.pendingImplementation).to.be.undefined;
+    expect(deployment.implementations).to.have.length(2);
+    expect(deployment.implementations?.[1].upgradeTx).to.equal("0x01");
+  });
+
+  it("should import the legacy address and verification files", async function () {
+    const files = {
+      address: this.write("address.json", { sepolia: { MatchPool: PROXY, StakePool: STAKE_POOL } }),
+      verify: this.write("verify.json", {
+        sepolia: {
+          MatchPool: { address: IMPLEMENTATION, args: [] },
+          StakePool: { address: STAKE_POOL, args: [LP_TOKEN] },
+        },
+      }),
+      implementations: path.join(this.dir, "missing.json"),
+    };
+    const registry: Registry = {};
+
+    expect(await migrateLegacy(registry, { sepolia: 11155111 }, files)).to.deep.equal({
+      sepolia: ["MatchPool", "StakePool"],
+    });
+    expect(registry.sepolia.contracts.MatchPool).to.deep.equal({
+      address: PROXY,
+      args: [],
+      implementation: IMPLEMENTATION,
+      implementations: [{ address: IMPLEMENTATION }],
+    });
+    expect(registry.sepolia.contracts.StakePool).to.deep.equal({ address: STAKE_POOL, args: [LP_TOKEN] });
+
+    // Contracts already in the registry are kept
+    expect(await migrateLegacy(registry, { sepolia: 11155111 }, files)).to.deep.equal({ sepolia: [] });
+  });
+
+  it("should record proxies with the implementation of their slot", async function () {
+    const files = {
+      address: this.write("address.json", { sepolia: { RewardManager: REWARD_MANAGER } }),
+      // Initializer arguments recorded under the proxy address
+      verify: this.write("verify.json", { sepolia: { RewardManager: { address: REWARD_MANAGER, args: [PROXY] } } }),
+      implementations: this.write("implementations.json", {
+        sepolia: { RewardManager: { proxy: REWARD_MANAGER, history: [] } },
+      }),
+    };
+    const registry: Registry = {};
+
+    // Slot not readable
+    await migrateLegacy(registry, { sepolia: 11155111 }, files);
+    expect(registry.sepolia.contracts.RewardManager).to.deep.equal({
+      address: REWARD_MANAGER,
+      args: [],
+      implementations: [],
+    });
+
+    // Imported again while its implementation is missing
+    const readImplementation = async (network: string, proxy: string) =>
+      network == "sepolia" && proxy == REWARD_MANAGER ? NEW_IMPLEMENTATION : undefined;
+    expect(await migrateLegacy(registry, { sepolia: 11155111 }, files, readImplementation)).to.deep.equal({
+      sepolia: ["RewardManager"],
+    });
+    expect(registry.sepolia.contracts.RewardManager).to.deep.equal({
+      address: REWARD_MANAGER,
+      args: [],
+      implementation: NEW_IMPLEMENTATION,
+      implementations: [{ address: NEW_IMPLEMENTATION }],
+    });
+    expect(await migrateLegacy(registry, { sepolia: 11155111 }, files, readImplementation)).to.deep.equal({
+      sepolia: [],
+    });
+  });
+});
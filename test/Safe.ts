@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import { utils } from "ethers";
+import * as fs from "fs";
+import { artifacts } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+
+import { OwnerCall, SafeBatch, calculateChecksum, proposeCall, readBatch, summarizeCall } from "../scripts/safe";
+
+const MATCH_POOL = "0x04b9ce11da7323aEf03f6e6c16C0b93cFB44C55c";
+const LP_TOKEN = "0x3A0eF60e803aae8e94f741E7F61c7CBe9501e569";
+const MINT_POOL = "0xa980d4c0C2E48d305b582AA439a3575e3de06f0E";
+
+describe("Safe batches", function () {
+  before(async function () {
+    this.matchPool = new utils.Interface((await artifacts.readArtifact("MatchPool")).abi);
+  });
+
+  beforeEach(function () {
+    this.file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "safe-")), "batch.json");
+    this.call = (method: string, args: unknown[]): OwnerCall => ({
+      contract: "MatchPool",
+      to: MATCH_POOL,
+      contractInterface: this.matchPool,
+      method,
+      args,
+    });
+  });
+
+  it("should encode owner calls with decoded inputs", async function () {
+    const batch = proposeCall(this.file, 1, this.call("setLP", [LP_TOKEN]));
+    const [transaction] = batch.transactions;
+
+    expect(batch.chainId).to.equal("1");
+    expect(transaction.to).to.equal(MATCH_POOL);
+    expect(transaction.value).to.equal("0");
+    expect(transaction.contractMethod.name).to.equal("setLP");
+    expect(transaction.contractInputsValues).to.deep.equal({ _ethlbrLpToken: LP_TOKEN });
+    expect(this.matchPool.decodeFunctionData("setLP", transaction.data)[0]).to.equal(LP_TOKEN);
+  });
+
+  it("should summarize owner calls", async function () {
+    const summary = summarizeCall(this.call("setBorrowRatio", [utils.parseUnits("85", 18), 75, 50]));
+    expect(summary).to.equal(
+      `MatchPool.setBorrowRatio(_individual: 85000000000000000000, _global: 75, _liquidation: 50) at ${MATCH_POOL}`,
+    );
+  });
+
+  it("should append calls of several tasks to the same batch", async function () {
+    proposeCall(this.file, 1, this.call("setLP", [LP_TOKEN]));
+    proposeCall(this.file, 1, this.call("addMintPool", [MINT_POOL]));
+
+    const batch = readBatch(this.file) as SafeBatch;
+    expect(batch.transactions.map((transaction) => transaction.contractMethod.name)).to.deep.equal([
+      "setLP",
+      "addMintPool",
+    ]);
+    expect(batch.meta.description.split("\n")).to.have.length(2);
+    expect(batch.meta.checksum).to.equal(calculateChecksum(batch));
+  });
+
+  it("should not mix chains in a batch", async function () {
+    proposeCall(this.file, 1, this.call("setLP", [LP_TOKEN]));
+    expect(() => proposeCall(this.file, 11155111, this.call("setLP", [LP_TOKEN]))).to.throw("not 11155111");
+  });
+
+  it("should checksum the batch without its name", async function () {
+    const batch = proposeCall(this.file, 1, this.call("setLP", [LP_TOKEN]));
+    const checksum = calculateChecksum(batch);
+
+    expect(calculateChecksum({ ...batch, meta: { ...batch.meta, name: "Renamed" } })).to.equal(checksum);
+    batch.transactions[0].value = "1";
+    expect(calculateChecksum(batch)).to.not.equal(checksum);
+  });
+});
@@ -0,0 +1,60 @@
+import { expect } from "chai";
+import { Wallet } from "ethers";
+import * as fs from "fs";
+import hre from "hardhat";
+import * as os from "os";
+import * as path from "path";
+
+import { readScenario, seed } from "../scripts/seed";
+import { deployStackFixture } from "./MatchPool.fixture";
+
+describe("Seeding", function () {
+  beforeEach(async function () {
+    await deployStackFixture();
+    this.file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "seed-")), "seed.json");
+  });
+
+  it("should open the positions of the scenario and accrue rewards", async function () {
+    fs.writeFileSync(
+      this.file,
+      JSON.stringify({
+        blocks: 10,
+        interval: 3600,
+        ethPrice: 1450,
+        accounts: [
+          { name: "staker", index: 2, lp: 100, stake: 100 },
+          { name: "borrower", index: 3, supplyETH: 5, borrow: 50 },
+          { name: "charged", index: 4, stETH: 5, supply: 5, borrow: 100 },
+        ],
+      }),
+    );
+    const output = await seed(hre, readScenario(this.file));
+    const accounts = Object.fromEntries(output.accounts.map((account) => [account.name, account]));
+
+    expect(accounts.staker.staked).to.equal("100.0");
+    expect(Number(accounts.staker.rewards.dlp)).to.be.gt(0);
+    // 5 stETH * 1600 * 85% / 200% * 50%
+    expect(accounts.borrower.borrowed).to.equal("1700.0");
+    expect(accounts.borrower.interestAmount).to.equal("0.0");
+    // Borrowing everything brings the global borrow ratio to 75%
+    expect(accounts.charged.interestAmount).to.equal("3400.0");
+    expect(Number(accounts.charged.rewards.lsd)).to.be.gt(0);
+    // 5 stETH * 1450 / 200%
+    expect(accounts.charged.distanceToLiquidation).to.equal("225.0");
+
+    for (const account of [output.deployer, ...output.accounts]) {
+      expect(new Wallet(account.privateKey ?? "").address).to.equal(account.address);
+    }
+    expect(output.contracts.MatchPool).to.equal((await hre.deployments.get("MatchPool")).address);
+  });
+
+  it("should reject scenarios using the deployer account", async function () {
+    fs.writeFileSync(this.file, JSON.stringify({ accounts: [{ name: "deployer", index: 0 }] }));
+    try {
+      readScenario(this.file);
+      expect.fail("should reject");
+    } catch (e) {
+      expect((e as Error).message).to.include("index 0 is the deployer");
+    }
+  });
+});
@@ -0,0 +1,193 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import { StorageEntry, StorageLayout, compareStorageLayouts, readStorageVariable } from "../scripts/storage";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+const entry = (label: string, slot: number, type: string, offset = 0): StorageEntry => ({
+  label,
+  slot: String(slot),
+  offset,
+  type,
+  contract: "MatchPool",
+});
+
+const TYPES = {
+  t_uint256: { label: "uint256", numberOfBytes: "32", encoding: "inplace" },
+  t_int256: { label: "int256", numberOfBytes: "32", encoding: "inplace" },
+  t_bool: { label: "bool", numberOfBytes: "1", encoding: "inplace" },
+  "t_contract(IMintPool)1234": { label: "contract IMintPool", numberOfBytes: "20", encoding: "inplace" },
+  // Same type compiled again
+  "t_contract(IMintPool)5678": { label: "contract IMintPool", numberOfBytes: "20", encoding: "inplace" },
+};
+
+const layout = (...storage: StorageEntry[]): StorageLayout => ({ storage, types: TYPES });
+
+const PREVIOUS = layout(
+  entry("totalStaked", 0, "t_uint256"),
+  entry("mintPool", 1, "t_contract(IMintPool)1234"),
+  entry("paused", 1, "t_bool", 20),
+  entry("supplyLimit", 2, "t_uint256"),
+);
+
+const compare = (...storage: StorageEntry[]) => {
+  const report = compareStorageLayouts(PREVIOUS, layout(...storage));
+  return { ...report, changes: report.entries.map((item) => `${item.label}: ${item.change}`) };
+};
+
+describe("Storage layout comparison", function () {
+  it("should accept an unchanged layout, even with other type ids", function () {
+    const report = compare(
+      entry("totalStaked", 0, "t_uint256"),
+      entry("mintPool", 1, "t_contract(IMintPool)5678"),
+      entry("paused", 1, "t_bool", 20),
+      entry("supplyLimit", 2, "t_uint256"),
+    );
+    expect(report.compatible).to.equal(true);
+    expect(report.changes).to.deep.equal([
+      "totalStaked: unchanged",
+      "mintPool: unchanged",
+      "paused: unchanged",
+      "supplyLimit: unchanged",
+    ]);
+  });
+
+  it("should accept appended and renamed variables", function () {
+    const report = compare(
+      entry("totalStaked", 0, "t_uint256"),
+      entry("mintPool", 1, "t_contract(IMintPool)1234"),
+      entry("stakePaused", 1, "t_bool", 20),
+      entry("supplyLimit", 2, "t_uint256"),
+      entry("stakeLimit", 3, "t_uint256"),
+    );
+    expect(report.compatible).to.equal(true);
+    expect(report.changes).to.deep.equal([
+      "totalStaked: unchanged",
+      "mintPool: unchanged",
+      "stakePaused: renamed",
+      "supplyLimit: unchanged",
+      "stakeLimit: added",
+    ]);
+    expect(report.entries[2].previous).to.equal("paused");
+  });
+
+  it("should reject retyped, moved and removed variables", function () {
+    let report = compare(
+      entry("totalStaked", 0, "t_int256"),
+      entry("mintPool", 1, "t_contract(IMintPool)1234"),
+      entry("paused", 1, "t_bool", 20),
+      entry("supplyLimit", 2, "t_uint256"),
+    );
+    expect(report.compatible).to.equal(false);
+    expect(report.entries[0]).to.include({ change: "retyped", type: "int256", previous: "uint256" });
+
+    report = compare(
+      entry("totalStaked", 0, "t_uint256"),
+      entry("mintPool", 1, "t_contract(IMintPool)1234"),
+      entry("supplyLimit", 2, "t_uint256"),
+      entry("paused", 3, "t_bool"),
+    );
+    expect(report.compatible).to.equal(false);
+    expect(report.changes).to.deep.equal([
+      "totalStaked: unchanged",
+      "mintPool: unchanged",
+      "paused: moved",
+      "supplyLimit: unchanged",
+      "paused: added",
+    ]);
+
+    // Inserted before variables of the same type
+    report = compare(
+      entry("stakeLimit", 0, "t_uint256"),
+      entry("totalStaked", 1, "t_uint256"),
+      entry("mintPool", 2, "t_contract(IMintPool)1234"),
+      entry("paused", 2, "t_bool", 20),
+      entry("supplyLimit", 3, "t_uint256"),
+    );
+    expect(report.compatible).to.equal(false);
+    expect(report.changes).to.deep.equal([
+      "totalStaked: moved",
+      "mintPool: moved",
+      "paused: moved",
+      "supplyLimit: moved",
+      "stakeLimit: added",
+      "totalStaked: added",
+      "mintPool: added",
+      "paused: added",
+      "supplyLimit: added",
+    ]);
+
+    report = compare(entry("totalStaked", 0, "t_uint256"), entry("mintPool", 1, "t_contract(IMintPool)1234"));
+    expect(report.compatible).to.equal(false);
+    expect(report.changes.slice(2)).to.deep.equal(["paused: removed", "supplyLimit: removed"]);
+  });
+});
+
+describe("Storage", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool, manager } = await this.loadFixture(deployMPFixture);
+    this.matchPool = matchPool;
+    this.manager = manager;
+
+    await matchPool.setStakeLimit(toWei("60000"));
+    await matchPool.setMonitor(this.signers.bob.address);
+    await manager.setMiningRewardShares(10, 40);
+  });
+
+  const getStatus = async (pool: string) => {
+    const logs: string[] = [];
+    const log = console.log;
+    console.log = (message: string) => logs.push(message);
+    try {
+      await hre.run("pool:status", { pool, json: true });
+    } finally {
+      console.log = log;
+    }
+    return JSON.parse(logs.join("\n"));
+  };
+
+  it("should read variables without getter from the storage layout", async function () {
+    const { bob } = this.signers;
+    const pool = this.matchPool.address;
+
+    expect(await readStorageVariable(hre, "MatchPool", pool, "stakeLimit")).to.equal(toWei("60000"));
+    expect(await readStorageVariable(hre, "MatchPool", pool, "monitor")).to.equal(bob.address);
+    // Packed in the same slot
+    expect(await readStorageVariable(hre, "RewardManager", this.manager.address, "treasuryShare")).to.equal(10);
+    expect(await readStorageVariable(hre, "RewardManager", this.manager.address, "stakerShare")).to.equal(40);
+
+    try {
+      await readStorageVariable(hre, "MatchPool", pool, "noSuchVariable");
+      expect.fail("should reject");
+    } catch (e) {
+      expect((e as Error).message).to.include("noSuchVariable not found in MatchPool storage layout");
+    }
+  });
+
+  it("should print the limits and monitor in the pool status", async function () {
+    const status = await getStatus(this.matchPool.address);
+    expect(status.limits.stakeLimit).to.equal("60000.0");
+    // Set on initialization
+    expect(status.limits.supplyLimit).to.equal("4000000.0");
+    expect(status.risk.monitor).to.equal(this.signers.bob.address);
+    expect(status.rewards.treasuryShare).to.equal("10%");
+    expect(status.rewards.stakerShare).to.equal("40%");
+  });
+
+  it("should show unset limits as none", async function () {
+    await this.matchPool.setSupplyLimit(0);
+    await this.matchPool.setStakeLimit(0);
+
+    const { limits } = await getStatus(this.matchPool.address);
+    expect(limits.stakeLimit).to.equal("none");
+    expect(limits.supplyLimit).to.equal("none");
+  });
+});
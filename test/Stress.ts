@@ -0,0 +1,64 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { executeRebalance, getVaultState, planRebalance } from "../scripts/rebalance";
+import { DEFAULT_PATHS, formatStressReport, parsePaths, runStress } from "../scripts/stress";
+import { deployMPFixture } from "./MatchPool.fixture";
+import { toWei } from "./utils";
+
+async function deployStressFixture() {
+  const { matchPool, mintPool, lpOracle } = await deployMPFixture();
+  const [admin, bob] = await ethers.getSigners();
+
+  await matchPool.setMonitor(admin.address);
+  await matchPool.stakeLP(toWei("100"));
+  await matchPool.supplyStETH(toWei("10"));
+  await matchPool.connect(bob).stakeLP(toWei("100"));
+  await matchPool.connect(bob).supplyETH({ value: toWei("5") });
+  // Deposited: 15 stETH, minted: 12000 eUSD, collateral ratio: 200%
+  await executeRebalance(matchPool, admin, planRebalance(await getVaultState(matchPool, mintPool)));
+
+  // Max. borrows are 6800 and 3400 eUSD, 2600 eUSD left for the monitor to burn
+  await matchPool.borrowEUSD(toWei("6000"));
+  await matchPool.connect(bob).borrowEUSD(toWei("3400"));
+
+  return { matchPool, mintPool, lpOracle, signer: admin, borrowers: [admin.address, bob.address] };
+}
+
+describe("Price-shock stress", function () {
+  const setup = () => loadFixture(deployStressFixture);
+
+  it("should report breaches of the lower collateral ratio and bad debt", async function () {
+    const [mild, severe, extreme] = await runStress(setup, parsePaths("crash:10, crash:30, crash:70"));
+    const [admin, bob] = await ethers.getSigners();
+
+    // Collateral ratio: 180%, burning 1200 eUSD brings it back to 200%
+    expect(mild.firstBreach).to.equal(undefined);
+    expect(mild.steps[0].actions).to.deep.equal(["monitorBurn"]);
+    expect(mild.steps[0].collateralRatio).to.equal(toWei("200"));
+    expect(mild.steps[0].liquidatable).to.be.empty;
+
+    // 3600 eUSD to burn to reach 200% but only 2600 held, both borrowers past their liquidation threshold
+    expect(severe.firstBreach).to.equal(0);
+    expect(severe.steps[0].warnings).to.have.lengthOf(1);
+    expect(severe.steps[0].liquidatable).to.deep.equal([admin.address, bob.address]);
+    expect(severe.maxBadDebt).to.equal(0);
+
+    // Supplies worth 4800 and 2400 eUSD, off by eUSD share rounding
+    expect(extreme.maxBadDebt).to.be.closeTo(toWei("2200"), 10);
+    expect(extreme.steps[0].vaultShortfall).to.be.closeTo(toWei("2200"), 10);
+  });
+
+  it("should report every step of each path, set with STRESS_PATHS or the defaults, printed with STRESS_REPORT", async function () {
+    const paths = process.env.STRESS_PATHS ? parsePaths(process.env.STRESS_PATHS) : DEFAULT_PATHS;
+    const results = await runStress(setup, paths);
+    if (process.env.STRESS_REPORT) console.table(formatStressReport(results));
+
+    for (const [i, result] of results.entries()) {
+      expect(result.steps).to.have.lengthOf(paths[i].steps.length);
+      // Prices only go down along the default paths
+      result.steps.slice(1).forEach((step, j) => expect(step.ethPrice).to.be.lte(result.steps[j].ethPrice));
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { expect } from "chai";
+import { BigNumber, providers, utils } from "ethers";
+import { ethers, network } from "hardhat";
+
+import { TxSigner, bumpFees, getFees } from "../scripts/transactions";
+
+const gwei = (value: string) => utils.parseUnits(value, "gwei");
+
+describe("Transactions", function () {
+  before(async function () {
+    const [account, recipient] = await ethers.getSigners();
+    this.account = account;
+    this.recipient = recipient.address;
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_setAutomine", [true]);
+  });
+
+  it("should cap the provider's fees and reject explicit fees over the caps", async function () {
+    const data = await ethers.provider.getFeeData();
+    const cap = (data.maxFeePerGas as BigNumber).div(2);
+
+    const fees = await getFees(ethers.provider, { maxFeePerGasCap: cap });
+    expect(fees.maxFeePerGas).to.equal(cap);
+    // Priority fee never above the max fee
+    const priority = data.maxPriorityFeePerGas as BigNumber;
+    expect(fees.maxPriorityFeePerGas).to.equal(priority.lt(cap) ? priority : cap);
+
+    const explicit = await getFees(ethers.provider, { maxFeePerGas: gwei("3"), maxPriorityFeePerGas: gwei("5") });
+    expect(explicit.maxFeePerGas).to.equal(gwei("3"));
+    expect(explicit.maxPriorityFeePerGas).to.equal(gwei("3"));
+
+    try {
+      await getFees(ethers.provider, { maxFeePerGas: cap.add(1), maxFeePerGasCap: cap });
+      expect.fail("should reject");
+    } catch (error) {
+      expect((error as Error).message).to.contain("over the cap");
+    }
+  });
+
+  it("should bump fees by at least the given percentage", async function () {
+    const request = { maxFeePerGas: gwei("20"), maxPriorityFeePerGas: gwei("2") };
+    const current: providers.FeeData = {
+      lastBaseFeePerGas: null,
+      gasPrice: null,
+      maxFeePerGas: gwei("10"),
+      maxPriorityFeePerGas: gwei("3"),
+    };
+
+    const bumped = bumpFees(request, current, 15, {});
+    expect(bumped.maxFeePerGas).to.equal(gwei("23"));
+    expect(bumped.maxPriorityFeePerGas).to.equal(gwei("3"));
+    expect(() => bumpFees(request, current, 15, { maxFeePerGasCap: gwei("22") })).to.throw("over the cap");
+  });
+
+  it("should queue transactions with consecutive nonces", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    const signer = new TxSigner(this.account);
+    const nonce = await signer.getTransactionCount("pending");
+
+    const sent = await Promise.all([1, 2, 3].map((value) => signer.sendTransaction({ to: this.recipient, value })));
+    expect(sent.map((transaction) => transaction.nonce)).to.deep.equal([nonce, nonce + 1, nonce + 2]);
+
+    await network.provider.send("evm_mine");
+    const receipts = await Promise.all(sent.map((transaction) => transaction.wait()));
+    expect(receipts.map((receipt) => receipt.status)).to.deep.equal([1, 1, 1]);
+  });
+
+  it("should replace a stuck transaction with higher fees", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    const signer = new TxSigner(
+      this.account,
+      {},
+      { timeout: 200, bumpPercent: 20, maxReplacements: 2, pollingInterval: 50 },
+    );
+
+    const transaction = await signer.sendTransaction({ to: this.recipient, value: 1 });
+    // Mined once the first replacement is in the mempool
+    const mining = new Promise((resolve) => setTimeout(resolve, 300)).then(() => network.provider.send("evm_mine"));
+    const receipt = await transaction.wait();
+    await mining;
+
+    expect(receipt.transactionHash).to.not.equal(transaction.hash);
+    const replacement = await ethers.provider.getTransaction(receipt.transactionHash);
+    expect(replacement.nonce).to.equal(transaction.nonce);
+    expect(replacement.maxFeePerGas?.gte((transaction.maxFeePerGas as BigNumber).mul(120).div(100))).to.equal(true);
+  });
+});
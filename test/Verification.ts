@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import hre from "hardhat";
+import * as os from "os";
+import * as path from "path";
+
+import { recordDeployment, recordImplementation } from "../scripts/registry";
+import { VerificationBackend, verifyContracts } from "../scripts/verification";
+
+const PROXY = "0x0B170A1A4043b45699eaf9e60092D8ad918b84C0";
+const IMPLEMENTATION = "0x25df44328dbcba6e21bfb94fd0180521ddc73c39";
+const LP_TOKEN = "0x8a95c53496fB5808db8c47c3Dc4a673796636915";
+const STAKE_POOL = "0x87D4938b55331E86aB2BaadeeC7f01592482Cb23";
+const EUSD = "0xdf3ac4F479375802A821f7b7b46Cd7EB5E4262cC";
+const STETH_MOCK = "0xe229138876201677763d25909EfAB95c898FcD5a";
+const EUSD_MOCK = "0xDA12dC8EaFdd953006668Bb3f9Da07A2D724A5a5";
+const CONFIGURATOR = "0x9062467603aDC1ecde903b43D058f445B925ba4e";
+const MINT_POOL = "0xcF949559EaF14972C30874A187b49b27988034f3";
+
+describe("Verification", function () {
+  beforeEach(function () {
+    this.file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "verification-")), "deployments.json");
+    recordDeployment("sepolia", 11155111, "LPToken", { address: LP_TOKEN, args: [] }, this.file);
+    // Imported from the address list, without its constructor arguments
+    recordDeployment("sepolia", 11155111, "StakePool", { address: STAKE_POOL, args: [] }, this.file);
+    recordDeployment("sepolia", 11155111, "eUSD", { address: EUSD, args: [] }, this.file);
+    recordImplementation("sepolia", 11155111, "MatchPool", PROXY, IMPLEMENTATION, undefined, this.file);
+
+    this.calls = [];
+    this.backend = {
+      isVerified: async (address: string) => address == LP_TOKEN,
+      verify: async (address: string, contract: string, args: unknown[]) => {
+        this.calls.push(["verify", address, contract, args]);
+      },
+      linkProxy: async (proxy: string, implementation: string) => {
+        this.calls.push(["linkProxy", proxy, implementation]);
+      },
+    } as VerificationBackend;
+  });
+
+  it("should verify implementations, link proxies and rebuild mock arguments", async function () {
+    const report = await verifyContracts(hre, "sepolia", this.backend, undefined, this.file);
+
+    expect(report.results.map(({ name, role, status }) => [name, role, status])).to.deep.equal([
+      ["LPToken", "contract", "already verified"],
+      ["StakePool", "contract", "verified"],
+      ["eUSD", "contract", "skipped"],
+      ["MatchPool", "implementation", "verified"],
+      ["MatchPool", "proxy", "linked"],
+    ]);
+    expect(this.calls).to.deep.equal([
+      ["verify", STAKE_POOL, "contracts/mock/LybraStakePool.sol:StakePool", [LP_TOKEN]],
+      ["verify", IMPLEMENTATION, "contracts/MatchPool.sol:MatchPool", []],
+      ["linkProxy", PROXY, IMPLEMENTATION],
+    ]);
+  });
+
+  it("should rebuild the arguments of the mock mint pool", async function () {
+    recordDeployment("sepolia", 11155111, "stETHMock", { address: STETH_MOCK, args: [] }, this.file);
+    recordDeployment("sepolia", 11155111, "EUSDMock", { address: EUSD_MOCK, args: [] }, this.file);
+    recordDeployment("sepolia", 11155111, "LybraConfigurator", { address: CONFIGURATOR, args: [] }, this.file);
+    recordDeployment("sepolia", 11155111, "LybraMintPool", { address: MINT_POOL, args: [] }, this.file);
+
+    let report = await verifyContracts(hre, "sepolia", this.backend, ["LybraMintPool"], this.file);
+    expect(report.results.map(({ status }) => status)).to.deep.equal(["verified"]);
+    expect(this.calls).to.deep.equal([
+      ["verify", MINT_POOL, "contracts/mock/LybraMintPool.sol:LybraMintPool", [STETH_MOCK, EUSD_MOCK, CONFIGURATOR]],
+    ]);
+
+    // Missing the configurator
+    recordDeployment(
+      "sepolia",
+      11155111,
+      "LybraMintPool",
+      { address: MINT_POOL, args: [STETH_MOCK, EUSD_MOCK] },
+      this.file,
+    );
+    report = await verifyContracts(hre, "sepolia", this.backend, ["LybraMintPool"], this.file);
+    expect(report.results.map(({ status, message }) => [status, message])).to.deep.equal([
+      ["failed", "LybraMintPool takes 3 constructor argument(s), 2 recorded"],
+    ]);
+  });
+
+  it("should report failures and carry on", async function () {
+    this.backend.verify = async (address: string) => {
+      if (address == STAKE_POOL) throw new Error("Bytecode does not match");
+    };
+    this.backend.linkProxy = async () => {
+      throw new Error("Linking proxy failed");
+    };
+
+    const report = await verifyContracts(
+      hre,
+      "sepolia",
+      this.backend,
+      ["StakePool", "MatchPool", "Unknown"],
+      this.file,
+    );
+
+    expect(report.results.map(({ name, status, message }) => [name, status, message])).to.deep.equal([
+      ["StakePool", "failed", "Bytecode does not match"],
+      ["MatchPool", "verified", undefined],
+      ["MatchPool", "failed", "Linking proxy failed"],
+      ["Unknown", "failed", "Not recorded on sepolia"],
+    ]);
+  });
+});
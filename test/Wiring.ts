@@ -0,0 +1,89 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import * as fs from "fs";
+import hre, { ethers } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+
+import { summarizeCall } from "../scripts/safe";
+import { checkWiring, getFixes } from "../scripts/wiring";
+import { deployMPFixture } from "./MatchPool.fixture";
+
+const OTHER = "0x000000000000000000000000000000000000dEaD";
+
+describe("Wiring", function () {
+  before(async function () {
+    const signers = await ethers.getSigners();
+    this.signers = { admin: signers[0], bob: signers[1] };
+    this.loadFixture = loadFixture;
+  });
+
+  beforeEach(async function () {
+    const { matchPool, stakePool, mining, mintPool, stETH, manager, lpOracle } = await this.loadFixture(
+      deployMPFixture,
+    );
+    this.matchPool = matchPool;
+    this.manager = manager;
+
+    const addresses: Record<string, string> = {
+      MatchPool: matchPool.address,
+      RewardManager: manager.address,
+      LPToken: await matchPool.ethlbrLpToken(),
+      LPOracle: lpOracle.address,
+      StakePool: stakePool.address,
+      LybraConfigurator: await matchPool.lybraConfigurator(),
+      LybraMintPool: mintPool.address,
+      MiningIncentive: mining.address,
+      EUSDMock: await manager.eUSD(),
+      stETHMock: stETH.address,
+    };
+    const contracts = Object.fromEntries(
+      Object.entries(addresses).map(([name, address]) => [name, { address, args: [] }]),
+    );
+    this.registry = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "wiring-")), "deployments.json");
+    fs.writeFileSync(this.registry, JSON.stringify({ localhost: { chainId: 31337, contracts } }));
+  });
+
+  it("should pass the wiring of the fixture", async function () {
+    const checks = await checkWiring(hre, "localhost", { registry: this.registry });
+    const problems = checks.filter((check) => check.status != "ok").map((check) => `${check.contract}.${check.name}`);
+
+    // Left unset by the fixture, allowances are given on the first stake and deposit
+    expect(problems).to.have.members([
+      "RewardManager.mesLBR",
+      "RewardManager.treasury",
+      "MatchPool.monitor",
+      `LPToken.allowance(MatchPool, ${await this.matchPool.ethlbrStakePool()})`,
+      `stETH.allowance(MatchPool, ${await this.matchPool.getMintPool()})`,
+    ]);
+    expect(checks.filter((check) => check.kind == "link" && check.status == "mismatch")).to.be.empty;
+    expect(getFixes(checks)).to.be.empty;
+  });
+
+  it("should print setters fixing mismatched links, owners and monitors", async function () {
+    const { admin, bob } = this.signers;
+    await this.matchPool.setLpOracle(OTHER);
+    await this.matchPool.setLybraContracts(OTHER, OTHER);
+    await this.matchPool.setMonitor(admin.address);
+
+    const checks = await checkWiring(hre, "localhost", {
+      registry: this.registry,
+      owner: bob.address,
+      monitor: bob.address,
+    });
+    const mismatches = checks.filter((check) => check.status == "mismatch");
+    expect(mismatches.map((check) => check.name)).to.include.members(["lpPriceFeed", "ethlbrStakePool", "monitor"]);
+    // Match Pool, Reward Manager and their shared proxy admin
+    expect(mismatches.filter((check) => check.kind == "owner")).to.have.length(3);
+
+    const fixes = getFixes(checks).map(summarizeCall);
+    const stakePool = checks.find((check) => check.name == "ethlbrStakePool")?.expected;
+    const configurator = checks.find((check) => check.name == "lybraConfigurator")?.expected;
+    expect(fixes).to.include(
+      `MatchPool.setLybraContracts(_ethlbrStakePool: ${stakePool}, _configurator: ${configurator}) at ${this.matchPool.address}`,
+    );
+    expect(fixes.filter((fix) => fix.includes("setLybraContracts"))).to.have.length(1);
+    expect(fixes).to.include(`MatchPool.setMonitor(_monitor: ${bob.address}) at ${this.matchPool.address}`);
+    expect(fixes.filter((fix) => fix.includes("transferOwnership"))).to.have.length(3);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Seeded generation and shrinking of action sequences for property-based tests.
+ * A run is fully determined by its seed, so a failure is replayed with FUZZ_SEED=<seed>
+ */
+
+// Seed of the default runs, so that test results don't change between runs of the suite
+export const DEFAULT_SEED = 1;
+
+export interface Random {
+  // Float in [0, 1)
+  next: () => number;
+  // Integer in [min, max]
+  int: (min: number, max: number) => number;
+  pick: <T>(items: readonly T[]) => T;
+}
+
+export interface FuzzOptions {
+  seed: number;
+  runs: number;
+  steps: number;
+}
+
+export interface FuzzFailure<T> {
+  seed: number;
+  actions: T[];
+  // Index of the action after which the property failed
+  step: number;
+  message: string;
+}
+
+/**
+ * @notice mulberry32, small and good enough to spread test inputs
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+};
+
+/**
+ * @notice Random seeds only with FUZZ_RUNS or FUZZ_RANDOM set, FUZZ_SEED replays a single run
+ */
+export const getFuzzOptions = (defaults: Omit<FuzzOptions, "seed">): FuzzOptions => {
+  const random = Boolean(process.env.FUZZ_RUNS || process.env.FUZZ_RANDOM);
+  return {
+    seed: process.env.FUZZ_SEED
+      ? Number(process.env.FUZZ_SEED)
+      : random
+      ? Math.floor(Math.random() * 2 ** 31)
+      : DEFAULT_SEED,
+    runs: process.env.FUZZ_SEED ? 1 : Number(process.env.FUZZ_RUNS ?? defaults.runs),
+    steps: Number(process.env.FUZZ_STEPS ?? defaults.steps),
+  };
+};
+
+/**
+ * @notice Removes chunks of { actions }, halving the chunk size down to single actions, then simplifies
+ *  the remaining ones with { simplify }, as long as { replay } still fails
+ * @param replay Runs { actions } from a fresh state, resolving to the failure or undefined if all passed
+ */
+export const shrink = async <T>(
+  actions: T[],
+  failure: { step: number; message: string },
+  replay: (actions: T[]) => Promise<{ step: number; message: string } | undefined>,
+  simplify: (action: T) => T[] = () => [],
+) => {
+  // Actions after the failing step never ran
+  let current = actions.slice(0, failure.step + 1);
+  let last = failure;
+
+  for (let size = Math.max(current.length >> 1, 1); size >= 1; size >>= 1) {
+    for (let start = 0; start < current.length; ) {
+      const candidate = [...current.slice(0, start), ...current.slice(start + size)];
+      const result = candidate.length > 0 ? await replay(candidate) : undefined;
+      if (result) {
+        current = candidate.slice(0, result.step + 1);
+        last = result;
+      } else {
+        start += size;
+      }
+    }
+  }
+
+  for (let i = 0; i < current.length; i++) {
+    for (const simpler of simplify(current[i])) {
+      const candidate = [...current.slice(0, i), simpler, ...current.slice(i + 1)];
+      const result = await replay(candidate);
+      if (result) {
+        current = candidate.slice(0, result.step + 1);
+        last = result;
+        break;
+      }
+    }
+  }
+
+  return { actions: current, ...last };
+};
@@ -1,5 +1,5 @@
 import { BigNumber, Contract, ContractFactory } from "ethers";
-import type { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/dist/src/signer-with-address";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 
 // import { ethers } from "hardhat";
 